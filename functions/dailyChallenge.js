@@ -0,0 +1,57 @@
+// Server copy of the daily challenge pick from
+// src/services/dailyChallenge.ts. Daily challenges are only built here, so
+// nobody can store the tracks for a day ahead of time.
+
+const DAILY_TURNS = 10;
+// Below this the challenge is too short to be worth a leaderboard
+const MIN_DAILY_TRACKS = 5;
+
+// UTC, so "today" rolls over at the same moment for everyone
+const dailyDateKey = (date = new Date()) => date.toISOString().slice(0, 10);
+
+// Deterministic random numbers in [0, 1) from a string seed
+// (xmur3 hash into mulberry32)
+const seededRandom = (seed) => {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates, as in src/services/multipleChoice.ts
+const shuffle = (items, random) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// The date's tracks, in play order. Sorting first makes the pick depend
+// only on the pool's contents, not on the order Firestore returned them.
+const pickDailyTracks = (pool, date, count = DAILY_TURNS) =>
+  shuffle(
+      pool
+          .filter((track) => track.preview_url)
+          .sort((a, b) => a.id.localeCompare(b.id)),
+      seededRandom(date),
+  ).slice(0, count);
+
+module.exports = {
+  DAILY_TURNS,
+  MIN_DAILY_TRACKS,
+  dailyDateKey,
+  pickDailyTracks,
+  seededRandom,
+};
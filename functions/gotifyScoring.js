@@ -0,0 +1,238 @@
+// Server copy of Gotify's scoring: difficultySettings and the rules in
+// src/services/gotifyScoring.ts. Submitted games are replayed through these
+// to get the score that goes on the leaderboard, so keep them in sync with
+// the client; src/services/gotifyScoring.test.ts checks they agree.
+const {answerSimilarity, stripVersionInfo} = require("./answerMatching");
+
+const DIFFICULTY_SETTINGS = {
+  easy: {
+    maxTurns: 5,
+    timeLimit: 30,
+    scoreMultiplier: 1,
+    hints: 5,
+    variants: {
+      song: {scoreMultiplier: 1},
+      artist: {scoreMultiplier: 0.6},
+      album: {scoreMultiplier: 1.2},
+      year: {scoreMultiplier: 1, exactWithin: 1, partialWithin: 5},
+    },
+  },
+  medium: {
+    maxTurns: 10,
+    timeLimit: 20,
+    scoreMultiplier: 1.5,
+    hints: 3,
+    variants: {
+      song: {scoreMultiplier: 1},
+      artist: {scoreMultiplier: 0.6},
+      album: {scoreMultiplier: 1.2},
+      year: {scoreMultiplier: 1, exactWithin: 0, partialWithin: 3},
+    },
+  },
+  hard: {
+    maxTurns: 15,
+    timeLimit: 15,
+    scoreMultiplier: 2,
+    hints: 1,
+    variants: {
+      song: {scoreMultiplier: 1},
+      artist: {scoreMultiplier: 0.5},
+      album: {scoreMultiplier: 1.3},
+      year: {scoreMultiplier: 1.2, exactWithin: 0, partialWithin: 2},
+    },
+  },
+  multiple_choice: {
+    maxTurns: 10,
+    timeLimit: 15,
+    scoreMultiplier: 0.75,
+    hints: 2,
+    choices: 4,
+    wrongPenalty: 3,
+  },
+};
+
+// Flat penalties, as HINT_PENALTY etc. in src/services/gotifyScoring.ts
+const HINT_PENALTY = 1;
+const REVEAL_PENALTY = 3;
+const TIME_UP_PENALTY = 2;
+
+const bySimilarity = (similarity) => ({
+  result:
+    similarity >= 0.8 ? "correct" : similarity >= 0.6 ? "partial" : "wrong",
+  credit: 1,
+});
+
+const releaseYear = (track) =>
+  parseInt(track.album.release_date.slice(0, 4), 10);
+
+// Decide how good a typed guess is for the given variant
+const judgeGuess = (variant, guess, track, rules) => {
+  switch (variant) {
+    case "artist":
+      // Any credited artist counts
+      return bySimilarity(
+          Math.max(
+              ...track.artists.map((artist) =>
+                answerSimilarity(guess, artist.name),
+              ),
+          ),
+      );
+
+    case "album":
+      return bySimilarity(answerSimilarity(guess, track.album.name));
+
+    case "year": {
+      const guessedYear = parseInt(guess.trim(), 10);
+      if (!/^\d{4}$/.test(guess.trim()) || Number.isNaN(guessedYear)) {
+        return {result: "wrong", credit: 0};
+      }
+      const distance = Math.abs(guessedYear - releaseYear(track));
+      const exactWithin = rules.exactWithin || 0;
+      const partialWithin = rules.partialWithin || 0;
+
+      if (distance <= exactWithin) return {result: "correct", credit: 1};
+      if (distance <= partialWithin) {
+        // Linear falloff from the edge of "correct" to the edge of partial
+        return {
+          result: "partial",
+          credit:
+            1 - (distance - exactWithin) / (partialWithin - exactWithin + 1),
+        };
+      }
+      return {result: "wrong", credit: 0};
+    }
+
+    case "song":
+    default: {
+      const trackName = track.name;
+      const artistName = track.artists[0].name;
+      const trackSimilarity = answerSimilarity(guess, trackName);
+      const artistSimilarity = answerSimilarity(guess, artistName);
+      const combinedSimilarity = answerSimilarity(
+          guess,
+          `${stripVersionInfo(trackName)} ${artistName}`,
+      );
+
+      if (
+        combinedSimilarity >= 0.8 ||
+        (trackSimilarity >= 0.8 && artistSimilarity >= 0.8)
+      ) {
+        return {result: "correct", credit: 1};
+      }
+      if (
+        trackSimilarity >= 0.6 ||
+        artistSimilarity >= 0.6 ||
+        combinedSimilarity >= 0.6
+      ) {
+        return {result: "partial", credit: 1};
+      }
+      return {result: "wrong", credit: 0};
+    }
+  }
+};
+
+// 3-10 points scaled to basePoints, decaying exponentially with time used
+const timeBasedPoints = (basePoints, timeLeft, timeLimit) => {
+  const timeRatio = timeLeft / timeLimit;
+  const decay = 1.5;
+  const timeMultiplier = Math.exp(-decay * (1 - timeRatio));
+
+  const minPoints = 3;
+  const maxPoints = 10;
+  const scaledPoints = minPoints + (maxPoints - minPoints) * timeMultiplier;
+
+  return Math.round((scaledPoints * basePoints) / 10);
+};
+
+// Score change for a judged typed guess
+const scoreGuess = (
+    {result, credit},
+    {timeLeft, timeLimit, multiplier, streak},
+) => {
+  if (result === "correct") {
+    const basePoints = timeBasedPoints(10, timeLeft, timeLimit);
+    return Math.round(basePoints * multiplier * (1 + streak * 0.1));
+  }
+  if (result === "partial") {
+    const basePoints = Math.max(3, timeBasedPoints(7, timeLeft, timeLimit));
+    return Math.max(1, Math.round(basePoints * multiplier * credit));
+  }
+  return -2;
+};
+
+// Label of a multiple choice option, as the client's choiceLabel
+const choiceLabel = (track) => `${track.name} - ${track.artists[0].name}`;
+
+// Result and points of one turn, judged the way Gotify did in the browser
+const judgeTurn = (turn, track, settings, variant, streak) => {
+  const guess = turn.guess.trim();
+  if (!guess) {
+    // Out of time, or gave up with the reveal button
+    return {
+      result: "wrong",
+      points: turn.time_left === 0 ? -TIME_UP_PENALTY : -REVEAL_PENALTY,
+    };
+  }
+
+  if (settings.choices) {
+    if (turn.guess !== choiceLabel(track)) {
+      return {result: "wrong", points: -(settings.wrongPenalty || 2)};
+    }
+    const basePoints = timeBasedPoints(10, turn.time_left, settings.timeLimit);
+    return {
+      result: "correct",
+      points: Math.round(
+          basePoints * settings.scoreMultiplier * (1 + streak * 0.1),
+      ),
+    };
+  }
+
+  const rules = settings.variants[variant];
+  const judgement = judgeGuess(variant, guess, track, rules);
+  return {
+    result: judgement.result,
+    points: scoreGuess(judgement, {
+      timeLeft: turn.time_left,
+      timeLimit: settings.timeLimit,
+      multiplier: settings.scoreMultiplier * rules.scoreMultiplier,
+      streak,
+    }),
+  };
+};
+
+// Recompute a whole game from its turn log and the tracks actually served.
+// Returns the turns with server-side results and points, and the score.
+const replayGame = (turns, tracks, difficulty, variant) => {
+  const settings = DIFFICULTY_SETTINGS[difficulty];
+  let score = 0;
+  let streak = 0;
+  let bestStreak = 0;
+
+  const replayed = turns.map((turn, index) => {
+    // The hint costs a point as soon as it is used, before the guess
+    if (turn.hint_used) score = Math.max(0, score - HINT_PENALTY);
+
+    const {result, points} = judgeTurn(
+        turn,
+        tracks[index],
+        settings,
+        variant,
+        streak,
+    );
+    score = Math.max(0, score + points);
+    streak = result === "wrong" ? 0 : streak + 1;
+    bestStreak = Math.max(bestStreak, streak);
+
+    return {...turn, result, points};
+  });
+
+  return {score, streak, bestStreak, turns: replayed};
+};
+
+module.exports = {
+  DIFFICULTY_SETTINGS,
+  judgeGuess,
+  timeBasedPoints,
+  scoreGuess,
+  replayGame,
+};
@@ -1,8 +1,58 @@
 // functions/index.js
-const { onRequest } = require("firebase-functions/v2/https");
-const { setGlobalOptions } = require("firebase-functions/v2/options");
-const cors = require("cors")({ origin: true });
+const {
+  onRequest,
+  onCall,
+  HttpsError,
+} = require("firebase-functions/v2/https");
+const {onSchedule} = require("firebase-functions/v2/scheduler");
+const {setGlobalOptions} = require("firebase-functions/v2/options");
+const {initializeApp} = require("firebase-admin/app");
+const {getFirestore, Timestamp} = require("firebase-admin/firestore");
+const cors = require("cors")({origin: true});
 const axios = require("axios");
+const crypto = require("crypto");
+const {DIFFICULTY_SETTINGS, replayGame} = require("./gotifyScoring");
+const {checkTurns, invalid} = require("./turnLog");
+const {
+  MIN_DAILY_TRACKS,
+  dailyDateKey,
+  pickDailyTracks,
+  seededRandom,
+} = require("./dailyChallenge");
+const {PROVISIONAL_DEVIATION, updateRating} = require("./rating");
+
+// Picks up FIRESTORE_EMULATOR_HOST when run in the emulator
+initializeApp();
+const db = getFirestore();
+
+// Point at functions/mocks/fakeDeezer.js when running the emulator offline
+const DEEZER_SEARCH_URL =
+  process.env.DEEZER_SEARCH_URL || "https://api.deezer.com/search";
+
+// Point at functions/mocks/fakeSpotify.js when running the emulator offline
+const SPOTIFY_API_URL =
+  process.env.SPOTIFY_API_URL || "https://api.spotify.com/v1";
+
+// Games still open this long after starting were abandoned (the longest
+// game takes a few minutes)
+const ABANDONED_AFTER_MS = 60 * 60 * 1000;
+const ABANDONED_BATCH = 200;
+// Tracks read from the shared pool when building a daily challenge
+const TRACK_POOL_LIMIT = 500;
+// Previews from Spotify's and Deezer's CDNs, the only ones the pool takes
+const TRUSTED_PREVIEW_URL = /^https:\/\/[a-z0-9-]+\.(scdn\.co|dzcdn\.net)\//;
+
+// Invite codes skip look-alike characters (0/O, 1/I) so they can be typed
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+// Spotify checks at most 50 user ids per follow lookup
+const FOLLOW_CHECK_BATCH = 50;
+// Follow checks cover players seen this recently, most recent first, up
+// to a cap, so a sync costs the same however many players there are
+const FOLLOW_CHECK_ACTIVE_DAYS = 30;
+const FOLLOW_CHECK_MAX_PLAYERS = 500;
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
 
 // Set global options for all functions
 setGlobalOptions({
@@ -13,176 +63,904 @@ setGlobalOptions({
 });
 
 exports.getPreviewUrl = onRequest(
-  {
-    cors: true, // Enable CORS
-    invoker: "public", // Allow unauthenticated access
-  },
-  async (req, res) => {
-    return cors(req, res, async () => {
-    try {
-      // Only allow GET requests
-      if (req.method !== "GET") {
-        return res.status(405).json({ error: "Method not allowed" });
-      }
+    {
+      cors: true, // Enable CORS
+      invoker: "public", // Allow unauthenticated access
+    },
+    async (req, res) => {
+      return cors(req, res, async () => {
+        try {
+          // Only allow GET requests
+          if (req.method !== "GET") {
+            return res.status(405).json({error: "Method not allowed"});
+          }
 
-      const { artist, title } = req.query;
+          const {artist, title} = req.query;
 
-      if (!artist || !title) {
-        return res.status(400).json({
-          error: "Both artist and title parameters are required",
-        });
-      }
-
-      console.log(`Searching for: ${artist} - ${title}`);
+          if (!artist || !title) {
+            return res.status(400).json({
+              error: "Both artist and title parameters are required",
+            });
+          }
 
-      // Clean and prepare queries
-      const cleanArtist = artist.trim();
-      const cleanTitle = title.trim();
+          console.log(`Searching for: ${artist} - ${title}`);
 
-      const queries = [`${cleanArtist} ${cleanTitle}`, cleanTitle, cleanArtist];
+          // Clean and prepare queries
+          const cleanArtist = artist.trim();
+          const cleanTitle = title.trim();
 
-      // Try each query until we find a preview
-      for (const query of queries) {
-        try {
-          console.log(`Trying query: ${query}`);
+          const queries = [
+            `${cleanArtist} ${cleanTitle}`,
+            cleanTitle,
+            cleanArtist,
+          ];
 
-          const response = await axios.get("https://api.deezer.com/search", {
-            params: { q: query },
-            timeout: 5000, // 5 second timeout
-          });
+          // Try each query until we find a preview
+          for (const query of queries) {
+            try {
+              console.log(`Trying query: ${query}`);
 
-          if (response.data.data && response.data.data.length > 0) {
-            const trackWithPreview = response.data.data.find(
-              (track) => track.preview && track.readable
-            );
-
-            if (trackWithPreview) {
-              console.log(
-                `✅ Found preview for: ${cleanTitle} by ${cleanArtist}`
-              );
-              return res.json({
-                preview_url: trackWithPreview.preview,
-                source: "deezer",
-                query_used: query,
+              const response = await axios.get(DEEZER_SEARCH_URL, {
+                params: {q: query},
+                timeout: 5000, // 5 second timeout
               });
+
+              if (response.data.data && response.data.data.length > 0) {
+                const trackWithPreview = response.data.data.find(
+                    (track) => track.preview && track.readable,
+                );
+
+                if (trackWithPreview) {
+                  console.log(
+                      `✅ Found preview for: ${cleanTitle} by ${cleanArtist}`,
+                  );
+                  return res.json({
+                    preview_url: trackWithPreview.preview,
+                    source: "deezer",
+                    query_used: query,
+                  });
+                }
+              }
+            } catch (queryError) {
+              console.warn(`Query "${query}" failed:`, queryError.message);
+              continue;
             }
           }
-        } catch (queryError) {
-          console.warn(`Query "${query}" failed:`, queryError.message);
-          continue;
-        }
-      }
 
-      // No preview found
-      console.log(`❌ No preview found for: ${cleanTitle} by ${cleanArtist}`);
-      return res.json({ preview_url: null });
-    } catch (error) {
-      console.error("Function error:", error);
-      return res.status(500).json({
-        error: "Internal server error",
-        message: error.message,
+          // No preview found
+          console.log(
+              `❌ No preview found for: ${cleanTitle} by ${cleanArtist}`,
+          );
+          return res.json({preview_url: null});
+        } catch (error) {
+          console.error("Function error:", error);
+          return res.status(500).json({
+            error: "Internal server error",
+            message: error.message,
+          });
+        }
       });
-    }
-  });
-});
+    });
 
 // Batch function for multiple tracks (more efficient)
 exports.getBatchPreviewUrls = onRequest(
-  {
-    cors: true, // Enable CORS
-    invoker: "public", // Allow unauthenticated access
-  },
-  async (req, res) => {
-    return cors(req, res, async () => {
-    try {
-      if (req.method !== "POST") {
-        return res.status(405).json({ error: "Method not allowed" });
-      }
+    {
+      cors: true, // Enable CORS
+      invoker: "public", // Allow unauthenticated access
+    },
+    async (req, res) => {
+      return cors(req, res, async () => {
+        try {
+          if (req.method !== "POST") {
+            return res.status(405).json({error: "Method not allowed"});
+          }
 
-      const { tracks } = req.body;
+          const {tracks} = req.body;
 
-      if (!tracks || !Array.isArray(tracks)) {
-        return res.status(400).json({
-          error: "tracks array is required in request body",
-        });
-      }
+          if (!tracks || !Array.isArray(tracks)) {
+            return res.status(400).json({
+              error: "tracks array is required in request body",
+            });
+          }
 
-      if (tracks.length > 10) {
-        return res.status(400).json({
-          error: "Maximum 10 tracks per batch request",
-        });
-      }
+          if (tracks.length > 10) {
+            return res.status(400).json({
+              error: "Maximum 10 tracks per batch request",
+            });
+          }
 
-      const results = [];
+          const results = [];
 
-      // Process tracks with small delays to avoid rate limits
-      for (let i = 0; i < tracks.length; i++) {
-        const { artist, title } = tracks[i];
+          // Process tracks with small delays to avoid rate limits
+          for (let i = 0; i < tracks.length; i++) {
+            const {artist, title} = tracks[i];
 
-        if (!artist || !title) {
-          results.push({
-            preview_url: null,
-            error: "Missing artist or title",
-          });
-          continue;
-        }
+            if (!artist || !title) {
+              results.push({
+                preview_url: null,
+                error: "Missing artist or title",
+              });
+              continue;
+            }
 
-        try {
-          // Add small delay between requests
-          if (i > 0) {
-            await new Promise((resolve) => setTimeout(resolve, 200));
-          }
+            try {
+              // Add small delay between requests
+              if (i > 0) {
+                await new Promise((resolve) => setTimeout(resolve, 200));
+              }
 
-          const queries = [`${artist.trim()} ${title.trim()}`, title.trim()];
-          let found = false;
+              const queries = [
+                `${artist.trim()} ${title.trim()}`,
+                title.trim(),
+              ];
+              let found = false;
 
-          for (const query of queries) {
-            const response = await axios.get("https://api.deezer.com/search", {
-              params: { q: query },
-              timeout: 3000,
-            });
+              for (const query of queries) {
+                const response = await axios.get(DEEZER_SEARCH_URL, {
+                  params: {q: query},
+                  timeout: 3000,
+                });
 
-            if (response.data.data && response.data.data.length > 0) {
-              const trackWithPreview = response.data.data.find(
-                (track) => track.preview && track.readable
-              );
+                if (response.data.data && response.data.data.length > 0) {
+                  const trackWithPreview = response.data.data.find(
+                      (track) => track.preview && track.readable,
+                  );
 
-              if (trackWithPreview) {
-                results.push({ preview_url: trackWithPreview.preview });
-                found = true;
-                break;
+                  if (trackWithPreview) {
+                    results.push({preview_url: trackWithPreview.preview});
+                    found = true;
+                    break;
+                  }
+                }
               }
+
+              if (!found) {
+                results.push({preview_url: null});
+              }
+            } catch (error) {
+              console.error(`Error processing track ${i}:`, error.message);
+              results.push({preview_url: null, error: error.message});
             }
           }
 
-          if (!found) {
-            results.push({ preview_url: null });
-          }
+          return res.json({results});
         } catch (error) {
-          console.error(`Error processing track ${i}:`, error.message);
-          results.push({ preview_url: null, error: error.message });
+          console.error("Batch function error:", error);
+          return res.status(500).json({
+            error: "Internal server error",
+            message: error.message,
+          });
         }
+      });
+    });
+
+// Keep-warm function to reduce cold starts
+exports.keepWarm = onRequest(
+    {
+      cors: true, // Enable CORS
+      invoker: "public", // Allow unauthenticated access
+    },
+    async (req, res) => {
+      console.log("Keep-warm ping received");
+      res.json({status: "warm", timestamp: new Date().toISOString()});
+    },
+);
+
+// ---- Gotify score validation ----
+//
+// Scores no longer come from the browser. The client opens a game with
+// startGotifyGame, registers every track it plays with serveGotifyTrack and
+// sends its turn log to submitGotifyGame, which replays the log against the
+// served tracks and writes the leaderboard entry itself.
+
+// GET from the Spotify Web API on behalf of the caller
+const spotifyGet = async (accessToken, path) => {
+  if (typeof accessToken !== "string" || !accessToken) {
+    throw new HttpsError("unauthenticated", "Sign in with Spotify to play");
+  }
+  try {
+    const response = await axios.get(`${SPOTIFY_API_URL}${path}`, {
+      headers: {Authorization: `Bearer ${accessToken}`},
+      timeout: 5000,
+    });
+    return response.data;
+  } catch (error) {
+    const status = error.response ? error.response.status : null;
+    if (status === 401) {
+      throw new HttpsError("unauthenticated", "Spotify session expired");
+    }
+    if (status === 403) {
+      throw new HttpsError(
+          "permission-denied",
+          "Spotify permission missing, log in again",
+      );
+    }
+    if (status === 400 || status === 404) {
+      throw new HttpsError("invalid-argument", `Unknown Spotify resource`);
+    }
+    throw new HttpsError("unavailable", `Spotify request failed`);
+  }
+};
+
+// The signed-in player, as Spotify knows them
+const getPlayer = async (accessToken) => {
+  const profile = await spotifyGet(accessToken, "/me");
+  return {
+    id: profile.id,
+    name: profile.display_name || profile.id,
+    avatarUrl:
+      profile.images && profile.images.length ? profile.images[0].url : null,
+  };
+};
+
+// Scores are keyed by Spotify user id; players/{id} holds the current name
+// and avatar shown next to them
+const savePlayerProfile = (player) =>
+  db.doc(`players/${player.id}`).set(
+      {
+        display_name: player.name,
+        avatar_url: player.avatarUrl,
+        updated_at: Timestamp.now(),
+      },
+      {merge: true},
+  );
+
+// Same shape as the client's PoolTrack
+const toPoolTrack = (track, previewUrl) => ({
+  id: track.id,
+  name: track.name,
+  artists: track.artists.map((artist) => ({
+    id: artist.id,
+    name: artist.name,
+  })),
+  album: {
+    id: track.album.id,
+    name: track.album.name,
+    release_date: track.album.release_date,
+    image_url: track.album.images.length ? track.album.images[0].url : null,
+  },
+  preview_url: previewUrl || track.preview_url || "",
+  popularity: track.popularity,
+});
+
+// A game the caller owns and is still playing
+const getOpenGame = async (transaction, gameRef, playerId) => {
+  const game = await transaction.get(gameRef);
+  if (!game.exists || game.data().user_id !== playerId) {
+    throw new HttpsError("not-found", "Game not found");
+  }
+  if (game.data().status !== "playing") {
+    throw new HttpsError("failed-precondition", "Game already submitted");
+  }
+  return game.data();
+};
+
+// The caller's current rating, or null before their first rated game
+const readRating = async (transaction, playerRef) => {
+  const profile = await transaction.get(playerRef);
+  return profile.exists && profile.get("rating") !== undefined ?
+    {
+      rating: profile.get("rating"),
+      deviation: profile.get("rating_deviation"),
+      games: profile.get("rated_games"),
+      ratedAt: profile.get("rated_at").toMillis(),
+    } :
+    null;
+};
+
+const saveRating = (transaction, playerRef, rating) =>
+  transaction.set(
+      playerRef,
+      {
+        rating: rating.rating,
+        rating_deviation: rating.deviation,
+        rated_games: rating.games,
+        rated_at: Timestamp.fromMillis(rating.ratedAt),
+      },
+      {merge: true},
+  );
+
+// Offline, previews come from functions/mocks/fakeDeezer.js
+const isTrustedPreview = (url) =>
+  typeof url === "string" &&
+  (TRUSTED_PREVIEW_URL.test(url) ||
+    (!!process.env.DEEZER_SEARCH_URL &&
+      url.startsWith(`${new URL(process.env.DEEZER_SEARCH_URL).origin}/`)));
+
+// Up to TRACK_POOL_LIMIT pool tracks, starting from a point on pool_key
+// seeded by the date and wrapping around, so every track can be picked
+const samplePool = async (date) => {
+  const start = seededRandom(`pool:${date}`)();
+  const pool = db.collection("track_pool").orderBy("pool_key");
+  const after = await pool
+      .where("pool_key", ">=", start)
+      .limit(TRACK_POOL_LIMIT)
+      .get();
+  const before =
+    after.size < TRACK_POOL_LIMIT ?
+      await pool
+          .where("pool_key", "<", start)
+          .limit(TRACK_POOL_LIMIT - after.size)
+          .get() :
+      {docs: []};
+  return [...after.docs, ...before.docs].map((doc) => doc.data());
+};
+
+// Today's daily challenge, built from the shared track pool on the first
+// request of the day. The date is always the server's, so future days
+// can't be built early.
+exports.getDailyChallenge = onCall({cors: true}, async () => {
+  const date = dailyDateKey();
+  const dailyRef = db.doc(`daily_challenges/${date}`);
+  const toResponse = (daily) => ({
+    date,
+    tracks: daily.tracks,
+    created_at: daily.created_at.toDate().toISOString(),
+  });
+  const existing = await dailyRef.get();
+  if (existing.exists) return toResponse(existing.data());
+
+  const pool = await samplePool(date);
+  const tracks = pickDailyTracks(pool, date);
+  if (tracks.length < MIN_DAILY_TRACKS) {
+    throw new HttpsError(
+        "failed-precondition",
+        `Track pool too small for a daily challenge (${pool.length})`,
+    );
+  }
+
+  // If another request built it first, theirs wins
+  const daily = await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(dailyRef);
+    if (current.exists) return current.data();
+    const created = {date, tracks, created_at: Timestamp.now()};
+    transaction.set(dailyRef, created);
+    return created;
+  });
+
+  console.log(`Daily challenge ready for ${date}`);
+  return toResponse(daily);
+});
+
+exports.startGotifyGame = onCall({cors: true}, async (request) => {
+  const {accessToken, difficulty, variant, dailyDate, challengeId} =
+    request.data || {};
+  const player = await getPlayer(accessToken);
+
+  const settings = DIFFICULTY_SETTINGS[difficulty];
+  if (!settings) throw invalid("Unknown difficulty");
+  if (settings.variants ? !settings.variants[variant] : variant !== "song") {
+    throw invalid("Unknown variant for this difficulty");
+  }
+
+  // Daily and linked challenges must be played on their stored tracks
+  let fixedTrackIds = null;
+  if (dailyDate) {
+    if (typeof dailyDate !== "string") throw invalid("Unknown daily");
+    // Only today's daily can be played, so old boards stay closed
+    if (dailyDate !== dailyDateKey()) {
+      throw new HttpsError("failed-precondition", "That daily has ended");
+    }
+    const daily = await db.doc(`daily_challenges/${dailyDate}`).get();
+    if (!daily.exists) throw new HttpsError("not-found", "No such daily");
+    if (difficulty !== "medium" || variant !== "song") {
+      throw invalid("The daily challenge is played on medium");
+    }
+    fixedTrackIds = daily.data().tracks.map((track) => track.id);
+  } else if (challengeId) {
+    const challenge = await db.doc(`challenges/${challengeId}`).get();
+    if (!challenge.exists) {
+      throw new HttpsError("not-found", "No such challenge");
+    }
+    if (
+      challenge.data().difficulty !== difficulty ||
+      challenge.data().variant !== variant
+    ) {
+      throw invalid("Challenges are played with the creator's rules");
+    }
+    const response = await db
+        .doc(`challenges/${challengeId}/responses/${player.id}`)
+        .get();
+    if (response.exists) {
+      throw new HttpsError("already-exists", "Challenge already played");
+    }
+    fixedTrackIds = challenge.data().tracks.map((track) => track.id);
+  }
+
+  await savePlayerProfile(player);
+  const gameRef = db.collection("gotify_games").doc();
+  const game = {
+    user_id: player.id,
+    player_name: player.name,
+    difficulty,
+    variant,
+    daily_date: dailyDate || null,
+    challenge_id: challengeId || null,
+    fixed_track_ids: fixedTrackIds,
+    max_turns: fixedTrackIds ? fixedTrackIds.length : settings.maxTurns,
+    tracks: [],
+    served_at: [],
+    status: "playing",
+    started_at: Timestamp.now(),
+  };
+
+  if (dailyDate) {
+    // One attempt per player per daily, so a bad run can't be replaced by
+    // starting again. The attempt is what the client shows as played.
+    await db.runTransaction(async (transaction) => {
+      const started = await transaction.get(
+          db
+              .collection("gotify_games")
+              .where("user_id", "==", player.id)
+              .where("daily_date", "==", dailyDate)
+              .limit(1),
+      );
+      if (!started.empty) {
+        throw new HttpsError("already-exists", "Daily already played");
       }
+      transaction.set(db.doc(`daily_attempts/${player.id}_${dailyDate}`), {
+        user_id: player.id,
+        date: dailyDate,
+        score: null,
+        started_at: Timestamp.now(),
+      });
+      transaction.set(gameRef, game);
+    });
+  } else {
+    await gameRef.set(game);
+  }
 
-      return res.json({ results });
-    } catch (error) {
-      console.error("Batch function error:", error);
-      return res.status(500).json({
-        error: "Internal server error",
-        message: error.message,
+  console.log(`Gotify game ${gameRef.id} started for ${player.id}`);
+  return {gameId: gameRef.id};
+});
+
+exports.serveGotifyTrack = onCall({cors: true}, async (request) => {
+  const {accessToken, gameId, trackId, previewUrl} = request.data || {};
+  if (typeof gameId !== "string" || typeof trackId !== "string") {
+    throw invalid("gameId and trackId are required");
+  }
+  const player = await getPlayer(accessToken);
+
+  // Answers are checked against Spotify's copy of the track, not the client's
+  const track = toPoolTrack(
+      await spotifyGet(accessToken, `/tracks/${encodeURIComponent(trackId)}`),
+    typeof previewUrl === "string" ? previewUrl : null,
+  );
+
+  const gameRef = db.collection("gotify_games").doc(gameId);
+  const turn = await db.runTransaction(async (transaction) => {
+    const game = await getOpenGame(transaction, gameRef, player.id);
+    const index = game.tracks.length;
+
+    if (index >= game.max_turns) {
+      throw new HttpsError("failed-precondition", "No turns left");
+    }
+    if (game.fixed_track_ids && game.fixed_track_ids[index] !== track.id) {
+      throw invalid("Challenge tracks must be played in their stored order");
+    }
+    if (game.tracks.some((served) => served.id === track.id)) {
+      throw invalid("Track already played this game");
+    }
+
+    transaction.update(gameRef, {
+      tracks: [...game.tracks, track],
+      served_at: [...game.served_at, Date.now()],
+    });
+    return index + 1;
+  });
+
+  return {turn};
+});
+
+exports.submitGotifyGame = onCall({cors: true}, async (request) => {
+  const {accessToken, gameId, turns} = request.data || {};
+  if (typeof gameId !== "string") throw invalid("gameId is required");
+  const player = await getPlayer(accessToken);
+  const now = Date.now();
+
+  const gameRef = db.collection("gotify_games").doc(gameId);
+  const replay = await db.runTransaction(async (transaction) => {
+    const game = await getOpenGame(transaction, gameRef, player.id);
+    const settings = DIFFICULTY_SETTINGS[game.difficulty];
+    checkTurns(turns, game, settings, now);
+    const playerRef = db.doc(`players/${player.id}`);
+    const previousRating = await readRating(transaction, playerRef);
+
+    // One leaderboard entry per player per daily challenge
+    if (game.daily_date) {
+      const existing = await transaction.get(
+          db
+              .collection("leaderboard")
+              .where("user_id", "==", player.id)
+              .where("daily_date", "==", game.daily_date)
+              .limit(1),
+      );
+      if (!existing.empty) {
+        throw new HttpsError("already-exists", "Daily already played");
+      }
+    }
+
+    // One response per player per challenge, like the daily
+    const responseRef = game.challenge_id ?
+      db.doc(`challenges/${game.challenge_id}/responses/${player.id}`) :
+      null;
+    if (responseRef && (await transaction.get(responseRef)).exists) {
+      throw new HttpsError("already-exists", "Challenge already played");
+    }
+
+    const result = replayGame(
+        turns.map((turn) => ({
+          track_id: turn.track_id,
+          guess: turn.guess,
+          time_left: turn.time_left,
+          hint_used: turn.hint_used,
+        })),
+        game.tracks,
+        game.difficulty,
+        game.variant,
+    );
+    const correct = result.turns.filter(
+        (turn) => turn.result === "correct",
+    ).length;
+    // Firestore rejects undefined fields
+    const source = {
+      ...(game.daily_date ? {daily_date: game.daily_date} : {}),
+      ...(game.challenge_id ? {challenge_id: game.challenge_id} : {}),
+    };
+
+    // The rating is only ever computed here (or by rateAbandonedGotifyGames),
+    // from the replayed turns out of every turn the game allowed
+    const rating = updateRating(previousRating, {
+      difficulty: game.difficulty,
+      variant: game.variant,
+      turns: result.turns,
+      maxTurns: game.max_turns,
+      playedAt: now,
+    });
+    saveRating(transaction, playerRef, rating);
+
+    const entryRef = db.collection("leaderboard").doc();
+    transaction.set(entryRef, {
+      user_id: player.id,
+      // Name at the time of playing, for entries whose profile is missing
+      player_name: player.name,
+      score: result.score,
+      game_type: "gotify",
+      difficulty: game.difficulty,
+      variant: game.variant,
+      streak: result.streak,
+      turns_completed: result.turns.length,
+      accuracy: Math.round((correct / result.turns.length) * 100),
+      ...(game.daily_date ? {daily_date: game.daily_date} : {}),
+      created_at: Timestamp.now(),
+    });
+    const sessionRef = db.collection("game_sessions").doc();
+    transaction.set(sessionRef, {
+      user_id: player.id,
+      player_name: player.name,
+      difficulty: game.difficulty,
+      variant: game.variant,
+      ...source,
+      time_limit: settings.timeLimit,
+      max_turns: game.max_turns,
+      score: result.score,
+      best_streak: result.bestStreak,
+      tracks: game.tracks.slice(0, result.turns.length),
+      turns: result.turns,
+      created_at: Timestamp.now(),
+    });
+    if (game.daily_date) {
+      transaction.update(
+          db.doc(`daily_attempts/${player.id}_${game.daily_date}`),
+          {score: result.score},
+      );
+    }
+    // Tracks played in a free game grow the pool daily challenges are
+    // drawn from. Their details came from Spotify in serveGotifyTrack.
+    if (!game.fixed_track_ids) {
+      game.tracks
+          .slice(0, result.turns.length)
+          .filter((track) => isTrustedPreview(track.preview_url))
+          .forEach((track) =>
+            transaction.set(
+                db.doc(`track_pool/${track.id}`),
+                {...track, pool_key: Math.random()},
+                {merge: true},
+            ),
+          );
+    }
+    if (responseRef) {
+      transaction.set(responseRef, {
+        user_id: player.id,
+        player_name: player.name,
+        score: result.score,
+        results: result.turns,
+        completed_at: Timestamp.now(),
       });
     }
+    transaction.update(gameRef, {
+      status: "submitted",
+      score: result.score,
+      rating_before: previousRating ? previousRating.rating : null,
+      rating_after: rating.rating,
+      session_id: sessionRef.id,
+      submitted_at: Timestamp.now(),
+    });
+    return {
+      ...result,
+      entryId: entryRef.id,
+      rating: {
+        value: rating.rating,
+        change: previousRating ? rating.rating - previousRating.rating : null,
+        provisional: rating.deviation > PROVISIONAL_DEVIATION,
+      },
+    };
   });
+
+  console.log(`Gotify game ${gameId} verified: ${replay.score} points`);
+  return {
+    score: replay.score,
+    turns: replay.turns,
+    entryId: replay.entryId,
+    rating: replay.rating,
+  };
 });
 
-// Keep-warm function to reduce cold starts
-exports.keepWarm = onRequest(
-  {
-    cors: true, // Enable CORS
-    invoker: "public", // Allow unauthenticated access
-  },
-  async (req, res) => {
-    console.log("Keep-warm ping received");
-    res.json({ status: "warm", timestamp: new Date().toISOString() });
+// Share a submitted free game as a challenge. The creator's score, turns
+// and tracks are copied from the verified session, never from the client.
+// Sharing the same game again returns the same challenge.
+exports.createGotifyChallenge = onCall({cors: true}, async (request) => {
+  const {accessToken, gameId} = request.data || {};
+  if (typeof gameId !== "string") throw invalid("gameId is required");
+  const player = await getPlayer(accessToken);
+
+  const gameRef = db.collection("gotify_games").doc(gameId);
+  const challengeId = await db.runTransaction(async (transaction) => {
+    const game = await transaction.get(gameRef);
+    if (!game.exists || game.get("user_id") !== player.id) {
+      throw new HttpsError("not-found", "Game not found");
+    }
+    if (game.get("status") !== "submitted" || !game.get("session_id")) {
+      throw new HttpsError("failed-precondition", "Game not verified");
+    }
+    if (game.get("fixed_track_ids")) {
+      throw invalid("Only free games can be shared as challenges");
+    }
+    const shared = game.get("shared_challenge_id");
+    if (shared) return shared;
+
+    const session = await transaction.get(
+        db.doc(`game_sessions/${game.get("session_id")}`),
+    );
+    const challengeRef = db.collection("challenges").doc();
+    transaction.set(challengeRef, {
+      creator_id: player.id,
+      creator_name: player.name,
+      difficulty: session.get("difficulty"),
+      variant: session.get("variant"),
+      tracks: session.get("tracks"),
+      results: session.get("turns"),
+      score: session.get("score"),
+      created_at: Timestamp.now(),
+    });
+    transaction.update(gameRef, {shared_challenge_id: challengeRef.id});
+    return challengeRef.id;
+  });
+
+  console.log(`Challenge ${challengeId} shared from game ${gameId}`);
+  return {challengeId};
+});
+
+// Games that are started but never submitted still count: every turn of
+// them is rated as lost, so quitting a bad run can't protect the rating.
+// Games that never served a track gave nothing away and are just closed.
+exports.rateAbandonedGotifyGames = onSchedule("every 60 minutes", async () => {
+  const cutoff = Timestamp.fromMillis(Date.now() - ABANDONED_AFTER_MS);
+  const stale = await db
+      .collection("gotify_games")
+      .where("status", "==", "playing")
+      .where("started_at", "<", cutoff)
+      .limit(ABANDONED_BATCH)
+      .get();
+
+  let rated = 0;
+  for (const doc of stale.docs) {
+    await db.runTransaction(async (transaction) => {
+      const game = (await transaction.get(doc.ref)).data();
+      // Submitted since the query ran
+      if (game.status !== "playing") return;
+
+      if (!game.tracks.length) {
+        transaction.update(doc.ref, {
+          status: "abandoned",
+          abandoned_at: Timestamp.now(),
+        });
+        return;
+      }
+
+      const playerRef = db.doc(`players/${game.user_id}`);
+      const previousRating = await readRating(transaction, playerRef);
+      const rating = updateRating(previousRating, {
+        difficulty: game.difficulty,
+        variant: game.variant,
+        turns: [],
+        maxTurns: game.max_turns,
+        playedAt: Date.now(),
+      });
+      saveRating(transaction, playerRef, rating);
+      transaction.update(doc.ref, {
+        status: "abandoned",
+        rating_before: previousRating ? previousRating.rating : null,
+        rating_after: rating.rating,
+        abandoned_at: Timestamp.now(),
+      });
+      rated++;
+    });
   }
-);
+
+  console.log(`Closed ${stale.size} abandoned Gotify games, ${rated} rated`);
+});
+
+// Friends: friends/{userId}_{friendId} means userId sees friendId on their
+// Friends board. "spotify" friendships mirror who the player follows on
+// Spotify and are replaced on every sync; "invite" ones are made in both
+// directions when an invite code is redeemed and stay until removed.
+// Removed friends keep their doc with `hidden: true`, so a sync doesn't
+// bring them back; redeeming their invite code again does.
+
+const friendRef = (userId, friendId) => db.doc(`friends/${userId}_${friendId}`);
+
+const randomInviteCode = () =>
+  Array.from(
+      {length: INVITE_CODE_LENGTH},
+      () => INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)],
+  ).join("");
+
+exports.getFriendInviteCode = onCall({cors: true}, async (request) => {
+  const {accessToken} = request.data || {};
+  const player = await getPlayer(accessToken);
+  await savePlayerProfile(player);
+
+  const profile = await db.doc(`players/${player.id}`).get();
+  if (profile.get("invite_code")) return {code: profile.get("invite_code")};
+
+  // create() fails on an existing code, so a collision just tries again
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = randomInviteCode();
+    try {
+      await db.doc(`invite_codes/${code}`).create({
+        user_id: player.id,
+        created_at: Timestamp.now(),
+      });
+    } catch (error) {
+      console.warn(`Invite code ${code} taken, retrying`);
+      continue;
+    }
+    await db.doc(`players/${player.id}`).update({invite_code: code});
+    console.log(`Invite code ${code} created for ${player.id}`);
+    return {code};
+  }
+  throw new HttpsError("unavailable", "Couldn't create an invite code");
+});
+
+exports.addFriendByInviteCode = onCall({cors: true}, async (request) => {
+  const {accessToken, code} = request.data || {};
+  if (typeof code !== "string" || !code.trim()) {
+    throw invalid("An invite code is required");
+  }
+  const player = await getPlayer(accessToken);
+
+  const invite = await db
+      .doc(`invite_codes/${code.trim().toUpperCase()}`)
+      .get();
+  if (!invite.exists) throw new HttpsError("not-found", "Unknown invite code");
+  const friendId = invite.get("user_id");
+  if (friendId === player.id) throw invalid("That's your own invite code");
+
+  await savePlayerProfile(player);
+  const batch = db.batch();
+  const friendship = {source: "invite", created_at: Timestamp.now()};
+  batch.set(friendRef(player.id, friendId), {
+    user_id: player.id,
+    friend_id: friendId,
+    ...friendship,
+  });
+  batch.set(friendRef(friendId, player.id), {
+    user_id: friendId,
+    friend_id: player.id,
+    ...friendship,
+  });
+  await batch.commit();
+
+  console.log(`${player.id} and ${friendId} are now friends`);
+  return {friendId};
+});
+
+// Spotify can't list the users someone follows, only check given ids, so
+// recently active players and current Spotify friends are checked. Needs
+// the user-follow-read scope.
+exports.syncSpotifyFriends = onCall({cors: true}, async (request) => {
+  const {accessToken} = request.data || {};
+  const player = await getPlayer(accessToken);
+
+  const activeSince = Timestamp.fromMillis(
+      Date.now() - FOLLOW_CHECK_ACTIVE_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const [active, existing] = await Promise.all([
+    db
+        .collection("players")
+        .where("updated_at", ">=", activeSince)
+        .orderBy("updated_at", "desc")
+        .limit(FOLLOW_CHECK_MAX_PLAYERS)
+        .select()
+        .get(),
+    db.collection("friends").where("user_id", "==", player.id).get(),
+  ]);
+  const known = new Set(existing.docs.map((doc) => doc.get("friend_id")));
+  const spotifyFriends = existing.docs
+      .filter((doc) => doc.get("source") === "spotify")
+      .map((doc) => doc.get("friend_id"));
+  const candidates = [
+    ...new Set([...spotifyFriends, ...active.docs.map((doc) => doc.id)]),
+  ].filter((id) => id !== player.id);
+
+  const followed = new Set();
+  for (let i = 0; i < candidates.length; i += FOLLOW_CHECK_BATCH) {
+    const ids = candidates.slice(i, i + FOLLOW_CHECK_BATCH);
+    const follows = await spotifyGet(
+        accessToken,
+        `/me/following/contains?type=user&ids=${ids
+            .map(encodeURIComponent)
+            .join(",")}`,
+    );
+    ids.forEach((id, index) => {
+      if (follows[index]) followed.add(id);
+    });
+  }
+
+  // Unfollowed on Spotify; invite and hidden friendships are kept. Known
+  // friends, hidden ones included, aren't added again.
+  const writes = [
+    ...existing.docs
+        .filter(
+            (doc) =>
+              doc.get("source") === "spotify" &&
+          !doc.get("hidden") &&
+          !followed.has(doc.get("friend_id")),
+        )
+        .map((doc) => (batch) => batch.delete(doc.ref)),
+    ...[...followed]
+        .filter((friendId) => !known.has(friendId))
+        .map((friendId) => (batch) =>
+          batch.set(friendRef(player.id, friendId), {
+            user_id: player.id,
+            friend_id: friendId,
+            source: "spotify",
+            created_at: Timestamp.now(),
+          }),
+        ),
+  ];
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  console.log(`${player.id} follows ${followed.size} players on Spotify`);
+  return {followed: followed.size};
+});
+
+// Only removes them from the caller's board, not the other way round
+exports.removeFriend = onCall({cors: true}, async (request) => {
+  const {accessToken, friendId} = request.data || {};
+  if (typeof friendId !== "string") throw invalid("friendId is required");
+  const player = await getPlayer(accessToken);
+
+  const friendship = friendRef(player.id, friendId);
+  if (!(await friendship.get()).exists) {
+    throw new HttpsError("not-found", "Not on your Friends board");
+  }
+  await friendship.update({hidden: true});
+  console.log(`${player.id} removed friend ${friendId}`);
+  return {friendId};
+});
@@ -0,0 +1,84 @@
+// Minimal stand-in for the Deezer search API so the preview functions can
+// run in the emulator without network access.
+//
+//   npm run fake-deezer
+//   DEEZER_SEARCH_URL=http://localhost:5055/search npm run serve
+const http = require("http");
+
+const PORT = Number(process.env.FAKE_DEEZER_PORT || 5055);
+
+// One second of an 8-bit mono sine tone, pitched by the query
+const toneWav = (seed) => {
+  const sampleRate = 8000;
+  const samples = sampleRate;
+  const frequency = 220 + (seed % 12) * 40;
+  const buffer = Buffer.alloc(44 + samples);
+
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + samples, 4);
+  buffer.write("WAVE", 8);
+  buffer.write("fmt ", 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate, 28);
+  buffer.writeUInt16LE(1, 32);
+  buffer.writeUInt16LE(8, 34); // 8-bit
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(samples, 40);
+  for (let i = 0; i < samples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    buffer.writeUInt8(Math.round(128 + sample * 60), 44 + i);
+  }
+  return buffer;
+};
+
+const hash = (value) =>
+  [...value].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname === "/search") {
+    const query = url.searchParams.get("q") || "";
+    const seed = hash(query);
+    console.log(`Fake Deezer search: ${query}`);
+
+    res.writeHead(200, {"Content-Type": "application/json"});
+    res.end(
+        JSON.stringify({
+          data: query ?
+          [
+            {
+              id: seed,
+              title: query,
+              readable: true,
+              preview: `http://localhost:${PORT}/preview/${seed}.wav`,
+              artist: {name: query},
+            },
+          ] :
+          [],
+          total: query ? 1 : 0,
+        }),
+    );
+    return;
+  }
+
+  const preview = url.pathname.match(/^\/preview\/(\d+)\.wav$/);
+  if (preview) {
+    res.writeHead(200, {
+      "Content-Type": "audio/wav",
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.end(toneWav(Number(preview[1])));
+    return;
+  }
+
+  res.writeHead(404, {"Content-Type": "application/json"});
+  res.end(JSON.stringify({error: {message: "Not found"}}));
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Deezer listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,69 @@
+// Minimal stand-in for the Spotify Web API so the Gotify game functions
+// can run in the emulator without real accounts.
+//
+//   npm run fake-spotify
+//   SPOTIFY_API_URL=http://localhost:5056/v1 npm run emulators
+//
+// Any bearer token is accepted; the token itself becomes the user id, so
+// "Bearer alice" and "Bearer bob" are two different players.
+const http = require("http");
+
+const PORT = Number(process.env.FAKE_SPOTIFY_PORT || 5056);
+
+// Deterministic track for any id: "Track <id>" by "Artist <id>"
+const fakeTrack = (id) => ({
+  id,
+  name: `Track ${id}`,
+  artists: [{id: `artist-${id}`, name: `Artist ${id}`}],
+  album: {
+    id: `album-${id}`,
+    name: `Album ${id}`,
+    release_date: "2001-01-01",
+    images: [],
+  },
+  preview_url: null,
+  popularity: 50,
+});
+
+const send = (res, status, body) => {
+  res.writeHead(status, {"Content-Type": "application/json"});
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const token = (req.headers.authorization || "").replace(/^Bearer\s+/, "");
+
+  if (!token) {
+    send(res, 401, {error: {status: 401, message: "No token provided"}});
+    return;
+  }
+
+  if (url.pathname === "/v1/me") {
+    console.log(`Fake Spotify profile: ${token}`);
+    send(res, 200, {id: token, display_name: `Player ${token}`});
+    return;
+  }
+
+  // Every fake player follows every other one
+  if (url.pathname === "/v1/me/following/contains") {
+    const ids = (url.searchParams.get("ids") || "").split(",");
+    send(res, 200, ids.map((id) => id !== token));
+    return;
+  }
+
+  const track = url.pathname.match(/^\/v1\/tracks\/([^/]+)$/);
+  if (track) {
+    const id = decodeURIComponent(track[1]);
+    console.log(`Fake Spotify track: ${id}`);
+    send(res, 200, fakeTrack(id));
+    return;
+  }
+
+  send(res, 404, {error: {status: 404, message: "Not found"}});
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Spotify listening on http://localhost:${PORT}`);
+});
+module.exports = server;
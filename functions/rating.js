@@ -0,0 +1,104 @@
+// Glicko-1 skill rating for Gotify. Each game is a match against the
+// difficulty it was played on: the difficulty has a fixed rating, and the
+// player "wins" the share of the game's turns they got right, so turns
+// left unplayed count as lost. Beating easy mode
+// every time moves a good player very little, while a decent run on hard
+// is worth more than it costs.
+//
+// Used by submitGotifyGame and scripts/recomputeRatings.js.
+
+// What a difficulty is "rated": a player at this rating is expected to get
+// about half of its turns right
+const DIFFICULTY_RATINGS = {
+  easy: 1200,
+  multiple_choice: 1350,
+  medium: 1500,
+  hard: 1800,
+};
+
+// Naming the artist is easier than the song, the album harder
+const VARIANT_OFFSETS = {
+  song: 0,
+  artist: -150,
+  album: 100,
+  year: 50,
+};
+
+const INITIAL_RATING = 1500;
+const INITIAL_DEVIATION = 350;
+// Never fully certain, so ratings keep moving
+const MIN_DEVIATION = 30;
+// Uncertainty grows back with time off: from 50 to 350 in about 100 days
+const DEVIATION_GROWTH_PER_DAY = (350 * 350 - 50 * 50) / 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Ratings less certain than this are shown as provisional
+const PROVISIONAL_DEVIATION = 110;
+
+const Q = Math.log(10) / 400;
+
+// Share of the game's turns won: correct counts fully, partial half and
+// unplayed turns not at all, so stopping after a lucky start doesn't pay
+const gameOutcome = (turns, maxTurns) => {
+  const total = Math.max(maxTurns, turns.length);
+  if (!total) return 0;
+  const won = turns.reduce(
+      (sum, turn) =>
+        sum +
+      (turn.result === "correct" ? 1 : turn.result === "partial" ? 0.5 : 0),
+      0,
+  );
+  return won / total;
+};
+
+const opponentRating = (difficulty, variant) =>
+  (DIFFICULTY_RATINGS[difficulty] || INITIAL_RATING) +
+  (VARIANT_OFFSETS[variant] || 0);
+
+// New rating after one game. `rating` is null for a player's first game,
+// `turns` the replayed turns and `maxTurns` how many the game allowed.
+// Returns {rating, deviation, games, ratedAt}.
+const updateRating = (
+    rating,
+    {difficulty, variant, turns, maxTurns, playedAt},
+) => {
+  const current = rating || {
+    rating: INITIAL_RATING,
+    deviation: INITIAL_DEVIATION,
+    games: 0,
+    ratedAt: playedAt,
+  };
+
+  // Time off since the last rated game makes the rating less certain
+  const daysOff = Math.max(0, (playedAt - current.ratedAt) / DAY_MS);
+  const deviation = Math.min(
+      INITIAL_DEVIATION,
+      Math.sqrt(
+          current.deviation * current.deviation +
+          DEVIATION_GROWTH_PER_DAY * daysOff,
+      ),
+  );
+
+  // The difficulty's rating is fixed, so its deviation (and g) drop out
+  const gap = opponentRating(difficulty, variant) - current.rating;
+  const expected = 1 / (1 + Math.pow(10, gap / 400));
+  const dSquared = 1 / (Q * Q * expected * (1 - expected));
+  const precision = 1 / (deviation * deviation) + 1 / dSquared;
+
+  return {
+    rating: Math.round(
+        current.rating +
+          (Q / precision) * (gameOutcome(turns, maxTurns) - expected),
+    ),
+    deviation: Math.max(MIN_DEVIATION, Math.round(Math.sqrt(1 / precision))),
+    games: current.games + 1,
+    ratedAt: playedAt,
+  };
+};
+
+module.exports = {
+  DIFFICULTY_RATINGS,
+  INITIAL_RATING,
+  PROVISIONAL_DEVIATION,
+  gameOutcome,
+  updateRating,
+};
@@ -0,0 +1,122 @@
+// One-off migration: add user_id to leaderboard entries saved before scores
+// were keyed by Spotify user id, and create players/{id} profiles for them.
+//
+// Old entries only have player_name, which was `display_name || id`. A name
+// is resolved through the places the server recorded it next to a user id
+// (existing profiles, game sessions, challenge responses). Challenges made
+// before createGotifyChallenge were written by browsers and could name
+// anyone, so they are not trusted. A name that is itself an id only
+// resolves if that id has a profile or was recorded somewhere; anything else
+// is reported as unresolved rather than guessed. Names that map to several
+// ids are ambiguous and left alone.
+//
+//   node scripts/migrateLeaderboardUserIds.js --dry-run
+//   node scripts/migrateLeaderboardUserIds.js
+//
+// Uses GOOGLE_APPLICATION_CREDENTIALS, or FIRESTORE_EMULATOR_HOST together
+// with GCLOUD_PROJECT to run against the emulator.
+const {initializeApp} = require("firebase-admin/app");
+const {getFirestore, Timestamp} = require("firebase-admin/firestore");
+
+const DRY_RUN = process.argv.includes("--dry-run");
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+initializeApp();
+const db = getFirestore();
+
+// player name -> Set of user ids seen with that name
+const collectKnownNames = async () => {
+  const names = new Map();
+  const add = (name, userId) => {
+    if (!name || !userId) return;
+    if (!names.has(name)) names.set(name, new Set());
+    names.get(name).add(userId);
+  };
+
+  const players = await db.collection("players").get();
+  // Legacy entries fell back to the user id when there was no name
+  players.forEach((doc) => {
+    add(doc.data().display_name, doc.id);
+    add(doc.id, doc.id);
+  });
+
+  const sessions = await db.collection("game_sessions").get();
+  sessions.forEach((doc) => add(doc.data().player_name, doc.data().user_id));
+
+  const responses = await db.collectionGroup("responses").get();
+  responses.forEach((doc) => add(doc.data().player_name, doc.data().user_id));
+
+  return names;
+};
+
+const migrate = async () => {
+  const names = await collectKnownNames();
+  const existingPlayers = new Set(
+      (await db.collection("players").get()).docs.map((doc) => doc.id),
+  );
+
+  const entries = await db.collection("leaderboard").get();
+  const updates = [];
+  const newProfiles = new Map();
+  const unresolved = [];
+  const ambiguous = [];
+
+  entries.forEach((doc) => {
+    const {user_id: userId, player_name: playerName} = doc.data();
+    if (userId) return;
+
+    const candidates = names.get(playerName);
+    if (candidates && candidates.size > 1) {
+      ambiguous.push(`${doc.id} (${playerName}: ${[...candidates]})`);
+      return;
+    }
+
+    const resolved = candidates ? [...candidates][0] : null;
+    if (!resolved) {
+      unresolved.push(`${doc.id} (${playerName})`);
+      return;
+    }
+
+    updates.push({ref: doc.ref, userId: resolved});
+    if (!existingPlayers.has(resolved) && !newProfiles.has(resolved)) {
+      newProfiles.set(resolved, playerName);
+    }
+  });
+
+  console.log(`${entries.size} leaderboard entries`);
+  console.log(`${updates.length} to tag with a user id`);
+  console.log(`${newProfiles.size} player profiles to create`);
+  console.log(`${ambiguous.length} ambiguous:`, ambiguous);
+  console.log(`${unresolved.length} unresolved:`, unresolved);
+
+  if (DRY_RUN) {
+    console.log("Dry run, nothing written");
+    return;
+  }
+
+  const writes = [
+    ...updates.map(({ref, userId}) => (batch) =>
+      batch.update(ref, {user_id: userId}),
+    ),
+    ...[...newProfiles].map(([userId, name]) => (batch) =>
+      batch.set(db.doc(`players/${userId}`), {
+        display_name: name,
+        avatar_url: null,
+        updated_at: Timestamp.now(),
+      }),
+    ),
+  ];
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+    console.log(`Committed ${Math.min(i + BATCH_SIZE, writes.length)} writes`);
+  }
+};
+
+migrate().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exitCode = 1;
+});
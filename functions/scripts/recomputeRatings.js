@@ -0,0 +1,107 @@
+// Rebuild every player's Gotify rating from their saved game sessions and
+// abandoned games, oldest first. Run once when ratings are introduced, or
+// after changing the constants in rating.js.
+//
+//   node scripts/recomputeRatings.js --dry-run
+//   node scripts/recomputeRatings.js
+//
+// Uses GOOGLE_APPLICATION_CREDENTIALS, or FIRESTORE_EMULATOR_HOST together
+// with GCLOUD_PROJECT to run against the emulator.
+const {initializeApp} = require("firebase-admin/app");
+const {getFirestore, Timestamp} = require("firebase-admin/firestore");
+const {DIFFICULTY_SETTINGS} = require("../gotifyScoring");
+const {updateRating} = require("../rating");
+
+const DRY_RUN = process.argv.includes("--dry-run");
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+initializeApp();
+const db = getFirestore();
+
+// Sessions saved before max_turns was stored played the difficulty's full
+// length, or all their turns for shorter daily and challenge track lists
+const maxTurnsOf = (session) =>
+  session.max_turns ||
+  (session.daily_date || session.challenge_id ?
+    session.turns.length :
+    DIFFICULTY_SETTINGS[session.difficulty].maxTurns);
+
+const recompute = async () => {
+  const [sessions, abandoned] = await Promise.all([
+    db.collection("game_sessions").get(),
+    db.collection("gotify_games").where("status", "==", "abandoned").get(),
+  ]);
+
+  const games = [];
+  sessions.forEach((doc) => {
+    const session = doc.data();
+    if (!session.user_id || !session.turns || !session.turns.length) return;
+    games.push({
+      userId: session.user_id,
+      difficulty: session.difficulty,
+      variant: session.variant,
+      turns: session.turns,
+      maxTurns: maxTurnsOf(session),
+      playedAt: session.created_at.toMillis(),
+    });
+  });
+  // Rated as losing every turn, like rateAbandonedGotifyGames does
+  abandoned.forEach((doc) => {
+    const game = doc.data();
+    if (!game.tracks.length) return;
+    games.push({
+      userId: game.user_id,
+      difficulty: game.difficulty,
+      variant: game.variant,
+      turns: [],
+      maxTurns: game.max_turns,
+      playedAt: game.abandoned_at.toMillis(),
+    });
+  });
+  games.sort((a, b) => a.playedAt - b.playedAt);
+
+  // user id -> rating after their latest game
+  const ratings = new Map();
+  games.forEach(({userId, ...game}) =>
+    ratings.set(userId, updateRating(ratings.get(userId) || null, game)),
+  );
+
+  console.log(`${sessions.size} game sessions, ${abandoned.size} abandoned`);
+  console.log(`${ratings.size} players rated`);
+  [...ratings]
+      .sort(([, a], [, b]) => b.rating - a.rating)
+      .slice(0, 10)
+      .forEach(([userId, rating]) =>
+        console.log(`  ${userId}: ${rating.rating} ±${rating.deviation}`),
+      );
+
+  if (DRY_RUN) {
+    console.log("Dry run, nothing written");
+    return;
+  }
+
+  const writes = [...ratings];
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(([userId, rating]) =>
+      batch.set(
+          db.doc(`players/${userId}`),
+          {
+            rating: rating.rating,
+            rating_deviation: rating.deviation,
+            rated_games: rating.games,
+            rated_at: Timestamp.fromMillis(rating.ratedAt),
+          },
+          {merge: true},
+      ),
+    );
+    await batch.commit();
+    console.log(`Committed ${Math.min(i + BATCH_SIZE, writes.length)} writes`);
+  }
+};
+
+recompute().catch((error) => {
+  console.error("Recomputing ratings failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,34 @@
+// The shared corpus from src/services, run against the server copy. The
+// client's vitest suite checks both copies give identical scores.
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  answerSimilarity,
+  romanize,
+  stripVersionInfo,
+} = require("../answerMatching");
+const corpus = require("../../src/services/answerMatching.corpus.json");
+
+// The same cutoffs gotifyScoring.js judges guesses with
+const judge = (similarity) =>
+  similarity >= 0.8 ? "correct" : similarity >= 0.6 ? "partial" : "wrong";
+
+describe("answerSimilarity", () => {
+  corpus.similarity.forEach(({guess, answer, aliases, expected}) => {
+    it(`${guess} vs ${answer} is ${expected}`, () => {
+      assert.equal(judge(answerSimilarity(guess, answer, {aliases})), expected);
+    });
+  });
+});
+
+describe("stripVersionInfo", () => {
+  corpus.stripVersionInfo.forEach(({title, stripped}) => {
+    it(title, () => assert.equal(stripVersionInfo(title), stripped));
+  });
+});
+
+describe("romanize", () => {
+  corpus.romanize.forEach(({text, romanized}) => {
+    it(text, () => assert.equal(romanize(text), romanized));
+  });
+});
@@ -0,0 +1,215 @@
+// submitGotifyGame through firebase-functions-test. The argument checks run
+// anywhere; the rest need Firestore, so they run against the emulator:
+//   firebase emulators:exec --only firestore "npm test"
+// and are skipped without it. Spotify is functions/mocks/fakeSpotify.js,
+// which takes any access token as the id of the player it signs in.
+const {describe, it, before, after} = require("node:test");
+const assert = require("node:assert/strict");
+
+const emulated = Boolean(process.env.FIRESTORE_EMULATOR_HOST);
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "demo-gotify";
+process.env.SPOTIFY_API_URL =
+  process.env.SPOTIFY_API_URL ||
+  `http://localhost:${process.env.FAKE_SPOTIFY_PORT || 5056}/v1`;
+
+const functionsTest = require("firebase-functions-test")();
+const {getFirestore, Timestamp} = require("firebase-admin/firestore");
+const functions = require("../index");
+const {DIFFICULTY_SETTINGS} = require("../gotifyScoring");
+
+const submit = functionsTest.wrap(functions.submitGotifyGame);
+const createChallenge = functionsTest.wrap(functions.createGotifyChallenge);
+const settings = DIFFICULTY_SETTINGS.medium;
+
+// Resolves with the HttpsError code the call was rejected with
+const rejection = async (data) => {
+  try {
+    await submit({data});
+  } catch (error) {
+    return error.code;
+  }
+  assert.fail("submitGotifyGame accepted the game");
+};
+
+const track = (id) => ({
+  id,
+  name: `Song ${id}`,
+  artists: [{id: `artist-${id}`, name: `Artist ${id}`}],
+  album: {
+    id: `album-${id}`,
+    name: `Album ${id}`,
+    release_date: "2020-01-01",
+    image_url: null,
+  },
+  preview_url: `https://example.com/${id}.mp3`,
+  popularity: 50,
+});
+
+after(() => functionsTest.cleanup());
+
+describe("submitGotifyGame arguments", () => {
+  it("needs a game id", async () => {
+    assert.equal(
+        await rejection({accessToken: "player-a", turns: []}),
+        "invalid-argument",
+    );
+  });
+
+  it("needs a Spotify session", async () => {
+    assert.equal(
+        await rejection({gameId: "some-game", turns: []}),
+        "unauthenticated",
+    );
+  });
+});
+
+describe("submitGotifyGame turn logs", {skip: !emulated}, () => {
+  let spotify;
+  const db = emulated ? getFirestore() : null;
+
+  before(() => {
+    spotify = require("../mocks/fakeSpotify");
+  });
+  after(() => spotify.close());
+
+  // A medium song game by player-a with two tracks, served 30 seconds apart
+  // and the second 30 seconds ago
+  const createGame = async (overrides = {}) => {
+    const servedAt = Date.now() - 60000;
+    const ref = db.collection("gotify_games").doc();
+    await ref.set({
+      user_id: "player-a",
+      player_name: "Player player-a",
+      difficulty: "medium",
+      variant: "song",
+      daily_date: null,
+      challenge_id: null,
+      fixed_track_ids: null,
+      max_turns: settings.maxTurns,
+      tracks: [track("t1"), track("t2")],
+      served_at: [servedAt, servedAt + 30000],
+      status: "playing",
+      started_at: Timestamp.fromMillis(servedAt),
+      ...overrides,
+    });
+    return ref.id;
+  };
+
+  const turns = () => [
+    {track_id: "t1", guess: "Song t1", time_left: 15, hint_used: false},
+    {track_id: "t2", guess: "Song t2", time_left: 15, hint_used: false},
+  ];
+
+  const submitted = (gameId, overrides = {}) =>
+    rejection({accessToken: "player-a", gameId, turns: turns(), ...overrides});
+
+  it("scores a log matching the served tracks", async () => {
+    const gameId = await createGame();
+    const result = await submit({
+      data: {accessToken: "player-a", gameId, turns: turns()},
+    });
+    assert.ok(result.score > 0);
+    const game = await db.doc(`gotify_games/${gameId}`).get();
+    assert.equal(game.get("status"), "submitted");
+  });
+
+  it("writes the response to a linked challenge", async () => {
+    const challengeId = `challenge-${Date.now()}`;
+    const gameId = await createGame({challenge_id: challengeId});
+    const result = await submit({
+      data: {accessToken: "player-a", gameId, turns: turns()},
+    });
+    const response = await db
+        .doc(`challenges/${challengeId}/responses/player-a`)
+        .get();
+    assert.equal(response.get("score"), result.score);
+
+    const again = await createGame({challenge_id: challengeId});
+    assert.equal(await submitted(again), "already-exists");
+  });
+
+  it("shares a submitted game with its verified result", async () => {
+    const gameId = await createGame();
+    const result = await submit({
+      data: {accessToken: "player-a", gameId, turns: turns()},
+    });
+    const {challengeId} = await createChallenge({
+      data: {accessToken: "player-a", gameId},
+    });
+    const challenge = await db.doc(`challenges/${challengeId}`).get();
+    assert.equal(challenge.get("score"), result.score);
+    assert.equal(challenge.get("creator_id"), "player-a");
+    assert.deepEqual(challenge.get("results"), result.turns);
+
+    const again = await createChallenge({
+      data: {accessToken: "player-a", gameId},
+    });
+    assert.equal(again.challengeId, challengeId);
+  });
+
+  it("won't share a game that wasn't verified", async () => {
+    const gameId = await createGame();
+    await assert.rejects(
+        createChallenge({data: {accessToken: "player-a", gameId}}),
+        {code: "failed-precondition"},
+    );
+  });
+
+  it("rejects an unknown game", async () => {
+    assert.equal(await submitted("no-such-game"), "not-found");
+  });
+
+  it("rejects another player's game", async () => {
+    const gameId = await createGame({user_id: "player-b"});
+    assert.equal(await submitted(gameId), "not-found");
+  });
+
+  it("rejects submitting a game twice", async () => {
+    const gameId = await createGame({status: "submitted"});
+    assert.equal(await submitted(gameId), "failed-precondition");
+  });
+
+  it("rejects a log that doesn't match the served tracks", async () => {
+    const gameId = await createGame();
+    const extra = [
+      ...turns(),
+      {track_id: "t3", guess: "", time_left: 0, hint_used: false},
+    ];
+    assert.equal(await submitted(gameId, {turns: extra}), "invalid-argument");
+  });
+
+  it("rejects a track that was never served", async () => {
+    const gameId = await createGame();
+    const swapped = turns();
+    swapped[1].track_id = "t9";
+    assert.equal(
+        await submitted(gameId, {turns: swapped}),
+        "invalid-argument",
+    );
+  });
+
+  it("rejects a turn longer than its track was in play", async () => {
+    // The second track was served a second ago
+    const now = Date.now();
+    const gameId = await createGame({served_at: [now - 30000, now - 1000]});
+    const slow = turns();
+    slow[1].time_left = 0;
+    assert.equal(await submitted(gameId, {turns: slow}), "invalid-argument");
+  });
+
+  it("rejects more hints than the difficulty allows", async () => {
+    const ids = Array.from({length: settings.hints + 1}, (_, i) => `h${i}`);
+    const servedAt = Date.now() - ids.length * 30000;
+    const gameId = await createGame({
+      tracks: ids.map(track),
+      served_at: ids.map((_, i) => servedAt + i * 30000),
+    });
+    const hinted = ids.map((id) => ({
+      track_id: id,
+      guess: `Song ${id}`,
+      time_left: 15,
+      hint_used: true,
+    }));
+    assert.equal(await submitted(gameId, {turns: hinted}), "invalid-argument");
+  });
+});
@@ -0,0 +1,134 @@
+// checkTurns on its own, without Firestore: every way a submitted turn log
+// can disagree with the tracks serveGotifyTrack recorded.
+const {describe, it} = require("node:test");
+const assert = require("node:assert/strict");
+const {DIFFICULTY_SETTINGS} = require("../gotifyScoring");
+const {TIMING_SLACK_SECONDS, MAX_GUESS_LENGTH, checkTurns} = require(
+    "../turnLog",
+);
+
+const settings = DIFFICULTY_SETTINGS.medium;
+const START = 1700000000000;
+
+// Three tracks served 30 seconds apart, checked 30 seconds after the last
+const game = {
+  tracks: [{id: "t1"}, {id: "t2"}, {id: "t3"}],
+  served_at: [START, START + 30000, START + 60000],
+};
+const now = START + 90000;
+
+const turn = (trackId, overrides = {}) => ({
+  track_id: trackId,
+  guess: "a guess",
+  time_left: 10,
+  hint_used: false,
+  ...overrides,
+});
+const validTurns = () => [turn("t1"), turn("t2"), turn("t3")];
+
+const rejects = (turns, message, checkedGame = game, at = now) =>
+  assert.throws(
+      () => checkTurns(turns, checkedGame, settings, at),
+      (error) => {
+        assert.equal(error.code, "invalid-argument");
+        assert.match(error.message, message);
+        return true;
+      },
+  );
+
+describe("checkTurns", () => {
+  it("accepts a log matching the served tracks", () => {
+    assert.doesNotThrow(() => checkTurns(validTurns(), game, settings, now));
+  });
+
+  it("accepts quitting with the last served track unplayed", () => {
+    assert.doesNotThrow(() =>
+      checkTurns(validTurns().slice(0, 2), game, settings, now),
+    );
+  });
+
+  it("rejects an empty log", () => {
+    rejects([], /at least one turn/);
+    rejects(undefined, /at least one turn/);
+  });
+
+  it("rejects more turns than tracks served", () => {
+    rejects([...validTurns(), turn("t4")], /doesn't match/);
+  });
+
+  it("rejects skipping more than the last track", () => {
+    rejects([turn("t1")], /doesn't match/);
+  });
+
+  it("rejects malformed turns", () => {
+    rejects([turn("t1", {guess: 42}), turn("t2")], /Turn 1 is malformed/);
+    rejects(
+        [turn("t1"), turn("t2", {guess: "x".repeat(MAX_GUESS_LENGTH + 1)})],
+        /Turn 2 is malformed/,
+    );
+    rejects([turn("t1", {hint_used: "yes"}), turn("t2")], /malformed/);
+    rejects([turn("t1", {time_left: 1.5}), turn("t2")], /malformed/);
+    rejects([null, turn("t2")], /malformed/);
+  });
+
+  it("rejects a track that was never served", () => {
+    rejects([turn("t1"), turn("t9"), turn("t3")], /never served/);
+  });
+
+  it("rejects impossible time left", () => {
+    rejects([turn("t1", {time_left: -1}), turn("t2")], /impossible time/);
+    rejects(
+        [turn("t1", {time_left: settings.timeLimit + 1}), turn("t2")],
+        /impossible time/,
+    );
+  });
+
+  it("rejects a turn longer than its track was in play", () => {
+    // The second track was only in play for 5 seconds
+    const quickGame = {
+      ...game,
+      served_at: [START, START + 30000, START + 35000],
+    };
+    rejects(
+        [turn("t1"), turn("t2", {time_left: 0}), turn("t3")],
+        /Turn 2 took longer/,
+        quickGame,
+    );
+  });
+
+  it("allows the slack for the registration reaching the client", () => {
+    // Used the whole limit, served only timeLimit - slack seconds ago
+    const at =
+      START + 60000 + (settings.timeLimit - TIMING_SLACK_SECONDS) * 1000;
+    assert.doesNotThrow(() =>
+      checkTurns(
+          [turn("t1"), turn("t2"), turn("t3", {time_left: 0})],
+          game,
+          settings,
+          at,
+      ),
+    );
+    rejects(
+        [turn("t1"), turn("t2"), turn("t3", {time_left: 0})],
+        /Turn 3 took longer/,
+        game,
+        at - 1000,
+    );
+  });
+
+  it("rejects more hints than the difficulty allows", () => {
+    const tracks = Array.from({length: settings.hints + 1}, (_, i) => ({
+      id: `t${i}`,
+    }));
+    const hintGame = {
+      tracks,
+      served_at: tracks.map((_, i) => START + i * 30000),
+    };
+    rejects(
+        tracks.map(({id}) => turn(id, {hint_used: true})),
+        /More hints/,
+        hintGame,
+        START + tracks.length * 30000,
+    );
+  });
+});
@@ -0,0 +1,69 @@
+// Checks on the turn log a client submits for a Gotify game, against what
+// serveGotifyTrack recorded. Used by submitGotifyGame before replaying it.
+const {HttpsError} = require("firebase-functions/v2/https");
+
+// Network lag allowed on top of the time a turn was on the server's clock.
+// The client only starts a turn's clock once its track is registered, so
+// this only has to cover the registration's response reaching it.
+const TIMING_SLACK_SECONDS = 3;
+const MAX_GUESS_LENGTH = 200;
+
+const invalid = (message) => new HttpsError("invalid-argument", message);
+
+// Reject turn logs that don't match the served tracks or couldn't happen
+const checkTurns = (turns, game, settings, now) => {
+  if (!Array.isArray(turns) || turns.length === 0) {
+    throw invalid("A game needs at least one turn");
+  }
+  // Quitting mid-turn leaves the last served track unplayed
+  if (
+    turns.length > game.tracks.length ||
+    turns.length < game.tracks.length - 1
+  ) {
+    throw invalid("The turn log doesn't match the tracks served");
+  }
+
+  let hintsUsed = 0;
+  turns.forEach((turn, index) => {
+    const label = `Turn ${index + 1}`;
+    if (
+      !turn ||
+      typeof turn.guess !== "string" ||
+      turn.guess.length > MAX_GUESS_LENGTH ||
+      typeof turn.hint_used !== "boolean" ||
+      !Number.isInteger(turn.time_left)
+    ) {
+      throw invalid(`${label} is malformed`);
+    }
+    if (turn.track_id !== game.tracks[index].id) {
+      throw invalid(`${label} is for a track that was never served`);
+    }
+    if (turn.time_left < 0 || turn.time_left > settings.timeLimit) {
+      throw invalid(`${label} has an impossible time left`);
+    }
+
+    // Guessing can't take longer than the track was in play: from being
+    // served until the next one was (or until now, for the last turn)
+    const servedUntil = game.served_at[index + 1] || now;
+    const secondsInPlay = (servedUntil - game.served_at[index]) / 1000;
+    if (
+      settings.timeLimit - turn.time_left >
+      secondsInPlay + TIMING_SLACK_SECONDS
+    ) {
+      throw invalid(`${label} took longer than the track was in play`);
+    }
+
+    if (turn.hint_used) hintsUsed++;
+  });
+
+  if (hintsUsed > settings.hints) {
+    throw invalid("More hints used than the difficulty allows");
+  }
+};
+
+module.exports = {
+  TIMING_SLACK_SECONDS,
+  MAX_GUESS_LENGTH,
+  invalid,
+  checkTurns,
+};
@@ -4,6 +4,7 @@ import {
   Routes,
   Route,
   Navigate,
+  useSearchParams,
 } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { Layout } from "./components/Layout";
@@ -11,9 +12,17 @@ import { Login } from "./components/Login";
 import { Dashboard } from "./components/Dashboard";
 import { AuthCallback } from "./components/AuthCallback";
 import { Gotify } from "./components/Gotify";
+import { GotifyRoom } from "./components/GotifyRoom";
+import { GameHistory } from "./components/GameHistory";
 import { Spotimatch } from "./components/Spotimatch";
 import { TopSongs } from "./components/TopSongs";
 import { Leaderboard } from "./components/Leaderboard";
+import { Friends } from "./components/Friends";
+import { PlayerProfile } from "./components/PlayerProfile";
+import {
+  gameLabels,
+  parseLeaderboardFilters,
+} from "./services/leaderboardFilters";
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
@@ -47,6 +56,25 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return !isAuthenticated ? <>{children}</> : <Navigate to="/dashboard" />;
 };
 
+// The title follows the game picked on the board
+const LeaderboardPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { game } = parseLeaderboardFilters(searchParams);
+
+  return (
+    <Layout
+      title={`${gameLabels[game]} Leaderboard`}
+      subtitle={
+        game === "gotify"
+          ? "See who's the best at guessing songs!"
+          : "See the top Spotimatch scores!"
+      }
+    >
+      <Leaderboard />
+    </Layout>
+  );
+};
+
 const AppRoutes: React.FC = () => {
   return (
     <Router>
@@ -118,15 +146,94 @@ const AppRoutes: React.FC = () => {
           }
         />
 
+        <Route
+          path="/gotify/history"
+          element={
+            <ProtectedRoute>
+              <Layout
+                title="My Games"
+                subtitle="Look back at every Gotify game you've played"
+              >
+                <GameHistory />
+              </Layout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/gotify/challenge/:challengeId"
+          element={
+            <ProtectedRoute>
+              <Layout
+                title="Gotify Challenge"
+                subtitle="Beat your friend's score!"
+              >
+                <Gotify />
+              </Layout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/gotify/rooms"
+          element={
+            <ProtectedRoute>
+              <Layout
+                title="Gotify Rooms"
+                subtitle="Play Gotify live with friends"
+              >
+                <GotifyRoom />
+              </Layout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/gotify/rooms/:code"
+          element={
+            <ProtectedRoute>
+              <Layout
+                title="Gotify Rooms"
+                subtitle="Play Gotify live with friends"
+              >
+                <GotifyRoom />
+              </Layout>
+            </ProtectedRoute>
+          }
+        />
+
         <Route
           path="/leaderboard"
+          element={
+            <ProtectedRoute>
+              <LeaderboardPage />
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/friends"
+          element={
+            <ProtectedRoute>
+              <Layout
+                title="Friends"
+                subtitle="Compete with the people you know"
+              >
+                <Friends />
+              </Layout>
+            </ProtectedRoute>
+          }
+        />
+
+        <Route
+          path="/player/:id"
           element={
             <ProtectedRoute>
               <Layout
-                title="Gotify Leaderboard"
-                subtitle="See who's the best at guessing songs!"
+                title="Player Profile"
+                subtitle="Scores, streaks and recent games"
               >
-                <Leaderboard />
+                <PlayerProfile />
               </Layout>
             </ProtectedRoute>
           }
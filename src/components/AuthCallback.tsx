@@ -10,6 +10,7 @@ export const AuthCallback: React.FC = () => {
   useEffect(() => {
     const processCallback = async () => {
       const code = searchParams.get("code");
+      const state = searchParams.get("state");
       const error = searchParams.get("error");
 
       if (error) {
@@ -20,7 +21,7 @@ export const AuthCallback: React.FC = () => {
 
       if (code) {
         try {
-          await handleCallback(code);
+          await handleCallback(code, state);
           navigate("/dashboard");
         } catch (error) {
           console.error("Callback processing error:", error);
@@ -0,0 +1,124 @@
+import React from "react";
+import { Swords } from "lucide-react";
+import type { PoolTrack, TurnResult } from "../services/firestore";
+
+export interface ChallengePlayer {
+  name: string;
+  score: number;
+  results: TurnResult[];
+}
+
+interface ChallengeComparisonProps {
+  tracks: PoolTrack[];
+  players: [ChallengePlayer, ChallengePlayer];
+}
+
+const resultIcon: Record<TurnResult["result"], string> = {
+  correct: "🎉",
+  partial: "⚡",
+  wrong: "❌",
+};
+
+const TurnCell: React.FC<{ result?: TurnResult }> = ({ result }) =>
+  result ? (
+    <div className="text-center">
+      <div>
+        {resultIcon[result.result]}{" "}
+        <span
+          className={`font-bold ${
+            result.points > 0 ? "text-green-400" : "text-red-400"
+          }`}
+        >
+          {result.points > 0 ? "+" : ""}
+          {result.points}
+        </span>
+      </div>
+      <div
+        className="text-xs text-spotify-lightgray truncate max-w-32 mx-auto"
+        title={result.guess}
+      >
+        {result.guess ? `"${result.guess}"` : "no guess"}
+      </div>
+    </div>
+  ) : (
+    <div className="text-center text-spotify-lightgray">-</div>
+  );
+
+// Turn-by-turn results of two players on the same challenge tracks
+export const ChallengeComparison: React.FC<ChallengeComparisonProps> = ({
+  tracks,
+  players: [left, right],
+}) => {
+  const winner =
+    left.score === right.score ? null : left.score > right.score ? left : right;
+
+  return (
+    <div className="bg-spotify-darkgray p-6 rounded-lg text-left">
+      <h3 className="text-2xl font-bold mb-2 flex items-center gap-2">
+        <Swords size={24} className="text-spotify-green" />
+        {left.name} vs {right.name}
+      </h3>
+      <p className="text-spotify-lightgray mb-6">
+        {winner ? `${winner.name} wins!` : "It's a tie!"}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-600 text-sm">
+              <th className="py-2 px-2 text-left">#</th>
+              <th className="py-2 px-2 text-left">Track</th>
+              <th className="py-2 px-2 text-center truncate">{left.name}</th>
+              <th className="py-2 px-2 text-center truncate">{right.name}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tracks.map((track, index) => (
+              <tr key={track.id} className="border-b border-gray-700">
+                <td className="py-3 px-2 text-spotify-lightgray">
+                  {index + 1}
+                </td>
+                <td className="py-3 px-2">
+                  <div className="flex items-center gap-3">
+                    {track.album.image_url && (
+                      <img
+                        src={track.album.image_url}
+                        alt=""
+                        className="w-10 h-10 rounded"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <div className="font-bold truncate">{track.name}</div>
+                      <div className="text-sm text-spotify-lightgray truncate">
+                        {track.artists[0]?.name}
+                      </div>
+                    </div>
+                  </div>
+                </td>
+                <td className="py-3 px-2">
+                  <TurnCell result={left.results[index]} />
+                </td>
+                <td className="py-3 px-2">
+                  <TurnCell result={right.results[index]} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-bold text-lg">
+              <td className="py-3 px-2" colSpan={2}>
+                Final score
+              </td>
+              <td className="py-3 px-2 text-center text-spotify-green">
+                {left.score}
+              </td>
+              <td className="py-3 px-2 text-center text-spotify-green">
+                {right.score}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { spotifyApi } from "../services/api";
+import { SpotifyApiError, toSpotifyApiError } from "../services/spotifyErrors";
+import { SpotifyErrorNotice } from "./SpotifyErrorNotice";
 import type { SpotifyTrack, SpotifyArtist } from "../types";
 import {
   Music,
@@ -19,49 +21,34 @@ export const Dashboard: React.FC = () => {
   const [recentTracks, setRecentTracks] = useState<SpotifyTrack[]>([]);
   const [topArtist, setTopArtist] = useState<SpotifyArtist | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<SpotifyApiError | null>(null);
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        // Fetch top tracks
-        const topTracksData = await spotifyApi.getTopTracks("medium_term", 10);
-        setTopTracks(topTracksData.items);
-
-        // Fetch recently played
-        const recentData = await spotifyApi.getRecentlyPlayed(10);
-        setRecentTracks(recentData.items.map((item) => item.track));
-
-        // Determine top artist from top tracks
-        const artistCounts: {
-          [key: string]: { count: number; artistId: string };
-        } = {};
-
-        topTracksData.items.forEach((track) => {
-          const artist = track.artists[0];
-          if (artistCounts[artist.id]) {
-            artistCounts[artist.id].count++;
-          } else {
-            artistCounts[artist.id] = { count: 1, artistId: artist.id };
-          }
-        });
+    fetchData();
+  }, []);
 
-        const topArtistEntry = Object.values(artistCounts).reduce(
-          (prev, current) => (prev.count > current.count ? prev : current)
-        );
+  const fetchData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      // Fetch top tracks
+      const topTracksData = await spotifyApi.getTopTracks("medium_term", 10);
+      setTopTracks(topTracksData.items);
 
-        const fullArtistData = await spotifyApi.getArtist(
-          topArtistEntry.artistId
-        );
-        setTopArtist(fullArtistData);
-      } catch (error) {
-        console.error("Error fetching data:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
+      // Fetch recently played
+      const recentData = await spotifyApi.getRecentlyPlayed(10);
+      setRecentTracks(recentData.items.map((item) => item.track));
 
-    fetchData();
-  }, []);
+      // Fetch top artist (full artist objects, so no extra lookup)
+      const topArtistsData = await spotifyApi.getTopArtists("medium_term", 1);
+      setTopArtist(topArtistsData.items[0] ?? null);
+    } catch (error) {
+      console.error("Error fetching data:", error);
+      setError(toSpotifyApiError(error, "Failed to load your music data"));
+    } finally {
+      setLoading(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -146,6 +133,14 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {error && (
+        <SpotifyErrorNotice
+          error={error}
+          onRetry={fetchData}
+          className="mb-8"
+        />
+      )}
+
       {/* Music Stats */}
       <div className="grid lg:grid-cols-3 gap-8">
         {/* Top Artist */}
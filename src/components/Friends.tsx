@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Check,
+  Copy,
+  RefreshCw,
+  Trophy,
+  User,
+  UserMinus,
+  UserPlus,
+  Users,
+} from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { backendApi } from "../services/api";
+import type { Friend } from "../types";
+
+export const Friends: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  // Invite links are /friends?invite=CODE
+  const [searchParams] = useSearchParams();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [codeInput, setCodeInput] = useState(searchParams.get("invite") ?? "");
+  const [adding, setAdding] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [message, setMessage] = useState<{
+    success: boolean;
+    text: string;
+  } | null>(null);
+
+  const userId = user?.id;
+  const loadFriends = useCallback(async () => {
+    if (!userId) return;
+    setFriends(await backendApi.getFriends(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    loadFriends();
+    backendApi.getFriendInviteCode().then(setInviteCode);
+  }, [loadFriends]);
+
+  const copyInviteLink = async () => {
+    if (!inviteCode) return;
+    await navigator.clipboard.writeText(
+      `${window.location.origin}/friends?invite=${inviteCode}`
+    );
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const addFriend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeInput.trim()) return;
+    setAdding(true);
+    const result = await backendApi.addFriendByInviteCode(codeInput);
+    setMessage({ success: result.success, text: result.message });
+    if (result.success) {
+      setCodeInput("");
+      await loadFriends();
+    }
+    setAdding(false);
+  };
+
+  const syncSpotifyFollows = async () => {
+    setSyncing(true);
+    const result = await backendApi.syncSpotifyFriends();
+    setMessage({ success: result.success, text: result.message });
+    await loadFriends();
+    setSyncing(false);
+  };
+
+  const removeFriend = async (friendId: string) => {
+    if (await backendApi.removeFriend(friendId)) {
+      setFriends((prev) => prev.filter((friend) => friend.id !== friendId));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-spotify-black text-white p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Invite Code */}
+        <div className="bg-spotify-darkgray p-6 rounded-lg text-center">
+          <h2 className="text-xl font-bold mb-2">Your Invite Code</h2>
+          <p className="text-spotify-lightgray mb-4">
+            Friends who enter it show up on each other's Friends leaderboard.
+          </p>
+          <div className="text-3xl font-mono font-bold tracking-widest text-spotify-green mb-4">
+            {inviteCode ?? "········"}
+          </div>
+          <button
+            onClick={copyInviteLink}
+            disabled={!inviteCode}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2 mx-auto disabled:opacity-50"
+          >
+            {linkCopied ? <Check size={20} /> : <Copy size={20} />}
+            {linkCopied ? "Link Copied!" : "Copy Invite Link"}
+          </button>
+        </div>
+
+        {/* Add Friends */}
+        <div className="bg-spotify-darkgray p-6 rounded-lg space-y-4">
+          <form onSubmit={addFriend} className="flex flex-wrap gap-3">
+            <input
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+              placeholder="Friend's invite code"
+              maxLength={8}
+              className="flex-1 bg-gray-700 text-white font-mono tracking-widest px-4 py-2 rounded-full uppercase"
+            />
+            <button
+              type="submit"
+              disabled={adding || !codeInput.trim()}
+              className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2 disabled:opacity-50"
+            >
+              <UserPlus size={20} />
+              Add Friend
+            </button>
+          </form>
+          <button
+            onClick={syncSpotifyFollows}
+            disabled={syncing}
+            className="bg-gray-700 cursor-pointer font-bold py-2 px-6 rounded-full hover:bg-gray-600 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw size={20} className={syncing ? "animate-spin" : ""} />
+            Find Players I Follow on Spotify
+          </button>
+          {message && (
+            <p
+              className={
+                message.success ? "text-spotify-green" : "text-red-400"
+              }
+            >
+              {message.text}
+            </p>
+          )}
+        </div>
+
+        {/* Friend List */}
+        <div className="bg-spotify-darkgray p-6 rounded-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold">Friends ({friends.length})</h2>
+            <button
+              onClick={() => navigate("/leaderboard?players=friends")}
+              className="text-spotify-green hover:underline cursor-pointer flex items-center gap-2"
+            >
+              <Trophy size={16} />
+              Friends Leaderboard
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-spotify-green mx-auto"></div>
+          ) : friends.length === 0 ? (
+            <div className="text-center text-spotify-lightgray py-6">
+              <Users size={48} className="mx-auto mb-4" />
+              Share your invite code or find players you follow on Spotify.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {friends.map((friend) => (
+                <div
+                  key={friend.id}
+                  className="flex items-center p-3 rounded-lg bg-gray-700"
+                >
+                  {friend.avatar_url ? (
+                    <img
+                      src={friend.avatar_url}
+                      alt=""
+                      className="w-10 h-10 rounded-full mr-3 object-cover"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full mr-3 bg-gray-600 flex items-center justify-center">
+                      <User size={20} />
+                    </div>
+                  )}
+                  <div className="flex-1">
+                    <button
+                      onClick={() => navigate(`/player/${friend.id}`)}
+                      className="font-bold cursor-pointer hover:underline"
+                    >
+                      {friend.display_name}
+                    </button>
+                    <div className="text-sm text-spotify-lightgray">
+                      {friend.source === "spotify"
+                        ? "Followed on Spotify"
+                        : "Added by invite code"}
+                    </div>
+                  </div>
+                  {/* Stays removed, even if followed on Spotify */}
+                  <button
+                    onClick={() => removeFriend(friend.id)}
+                    className="text-spotify-lightgray hover:text-red-400 cursor-pointer flex items-center gap-1"
+                  >
+                    <UserMinus size={18} />
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
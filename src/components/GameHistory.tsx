@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Calendar, ChevronDown, History } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { firestoreApi } from "../services/firestore";
+import type { GameSession } from "../services/firestore";
+import { gameModeLabel } from "../services/playerStats";
+import { GameReview } from "./GameReview";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const GameHistory: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<GameSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    firestoreApi.getGameSessions(user.id).then((loaded) => {
+      setSessions(loaded);
+      setLoading(false);
+    });
+  }, [user?.id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-spotify-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+          <p className="text-white">Loading your games...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="min-h-screen bg-spotify-black text-white p-4">
+        <div className="max-w-4xl mx-auto bg-spotify-darkgray p-8 rounded-lg text-center">
+          <History size={48} className="mx-auto text-spotify-lightgray mb-4" />
+          <h2 className="text-2xl font-bold mb-4">No Games Yet</h2>
+          <p className="text-spotify-lightgray mb-6">
+            Every Gotify game you finish shows up here, turn by turn.
+          </p>
+          <button
+            onClick={() => navigate("/gotify")}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+          >
+            Play Gotify
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const bestScore = Math.max(...sessions.map((session) => session.score));
+  const averageScore = Math.round(
+    sessions.reduce((sum, session) => sum + session.score, 0) / sessions.length
+  );
+
+  return (
+    <div className="min-h-screen bg-spotify-black text-white p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Stats Overview */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-spotify-green">
+              {sessions.length}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Games Played</div>
+          </div>
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-yellow-400">
+              {bestScore}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Best Score</div>
+          </div>
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-blue-400">
+              {averageScore}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Average Score</div>
+          </div>
+        </div>
+
+        {/* Sessions */}
+        <div className="space-y-3">
+          {sessions.map((session) => {
+            const expanded = expandedId === session.id;
+            const correct = session.turns.filter(
+              (turn) => turn.result === "correct"
+            ).length;
+
+            return (
+              <div key={session.id} className="bg-spotify-darkgray rounded-lg">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : session.id!)}
+                  className="w-full flex items-center gap-4 p-4 cursor-pointer text-left hover:bg-gray-700/50 rounded-lg transition-colors"
+                >
+                  <div className="flex-1">
+                    <div className="font-bold capitalize">
+                      {gameModeLabel(session)}
+                    </div>
+                    <div className="text-sm text-spotify-lightgray flex items-center gap-1">
+                      <Calendar size={14} />
+                      {formatDate(session.created_at as string)}
+                    </div>
+                  </div>
+                  <div className="text-sm text-spotify-lightgray text-right hidden sm:block">
+                    {correct}/{session.turns.length} correct
+                    <br />
+                    Best streak {session.best_streak}
+                  </div>
+                  <div className="text-2xl font-bold text-spotify-green w-16 text-right">
+                    {session.score}
+                  </div>
+                  <ChevronDown
+                    size={20}
+                    className={`text-spotify-lightgray transition-transform ${
+                      expanded ? "rotate-180" : ""
+                    }`}
+                  />
+                </button>
+
+                {expanded && (
+                  <div className="p-4 pt-0">
+                    <GameReview
+                      tracks={session.tracks}
+                      turns={session.turns}
+                      timeLimit={session.time_limit}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
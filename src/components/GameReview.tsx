@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Clock, Lightbulb, Pause, Play } from "lucide-react";
+import type { PoolTrack, TurnResult } from "../services/firestore";
+
+interface GameReviewProps {
+  tracks: PoolTrack[];
+  turns: TurnResult[];
+  timeLimit: number;
+}
+
+const resultBadge: Record<TurnResult["result"], string> = {
+  correct: "bg-green-600/20 border-green-600 text-green-400",
+  partial: "bg-yellow-600/20 border-yellow-600 text-yellow-400",
+  wrong: "bg-red-600/20 border-red-600 text-red-400",
+};
+
+const resultLabel: Record<TurnResult["result"], string> = {
+  correct: "🎉 Perfect",
+  partial: "⚡ Close",
+  wrong: "❌ Wrong",
+};
+
+// Each turn of a game: the track, what was guessed and what it scored
+export const GameReview: React.FC<GameReviewProps> = ({
+  tracks,
+  turns,
+  timeLimit,
+}) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+
+  // Stop playback when leaving the review
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const togglePreview = (track: PoolTrack) => {
+    audioRef.current?.pause();
+    if (playingId === track.id) {
+      setPlayingId(null);
+      return;
+    }
+
+    const audio = new Audio(track.preview_url);
+    audioRef.current = audio;
+    audio.onended = () => setPlayingId(null);
+    // Stored preview links can expire
+    audio.onerror = () => {
+      setPlayingId(null);
+      setFailedIds((prev) => [...prev, track.id]);
+    };
+    audio.play().catch((error) => {
+      console.error("Failed to play audio:", error);
+    });
+    setPlayingId(track.id);
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      {turns.map((turn, index) => {
+        const track = tracks[index];
+        if (!track) return null;
+        const failed = failedIds.includes(track.id);
+
+        return (
+          <div
+            key={`${track.id}-${index}`}
+            className="flex items-center gap-4 p-4 bg-gray-700/50 rounded-lg"
+          >
+            <span className="w-6 text-spotify-lightgray font-bold">
+              {index + 1}
+            </span>
+            <button
+              onClick={() => togglePreview(track)}
+              disabled={failed}
+              title={failed ? "Preview no longer available" : "Play preview"}
+              className="relative w-14 h-14 shrink-0 rounded overflow-hidden cursor-pointer group disabled:cursor-not-allowed"
+            >
+              {track.album.image_url && (
+                <img
+                  src={track.album.image_url}
+                  alt=""
+                  className="w-full h-full object-cover"
+                />
+              )}
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                {playingId === track.id ? (
+                  <Pause size={20} />
+                ) : (
+                  <Play size={20} />
+                )}
+              </span>
+            </button>
+
+            <div className="flex-1 min-w-0">
+              <div className="font-bold truncate">{track.name}</div>
+              <div className="text-sm text-spotify-lightgray truncate">
+                {track.artists.map((artist) => artist.name).join(", ")}
+              </div>
+              <div className="text-sm text-gray-300 truncate mt-1">
+                {turn.guess ? `Your guess: "${turn.guess}"` : "No guess"}
+              </div>
+            </div>
+
+            <div className="text-right shrink-0 space-y-1">
+              <div
+                className={`inline-block px-2 py-1 text-xs font-bold border rounded ${
+                  resultBadge[turn.result]
+                }`}
+              >
+                {resultLabel[turn.result]}
+              </div>
+              <div
+                className={`font-bold ${
+                  turn.points > 0 ? "text-green-400" : "text-red-400"
+                }`}
+              >
+                {turn.points > 0 ? "+" : ""}
+                {turn.points}
+              </div>
+              <div className="flex items-center justify-end gap-2 text-xs text-spotify-lightgray">
+                {turn.hint_used && (
+                  <Lightbulb
+                    size={12}
+                    className="text-yellow-400"
+                    aria-label="Hint used"
+                  />
+                )}
+                <Clock size={12} />
+                {timeLimit - turn.time_left}s
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import {
   Play,
   Pause,
@@ -7,10 +8,66 @@ import {
   Award,
   Volume2,
   VolumeX,
+  CalendarDays,
+  Users,
+  Share2,
+  Copy,
+  Check,
+  Trophy,
 } from "lucide-react";
-import type { SpotifyTrack } from "../types";
+import type { GameRating, GotifyVariant, SpotifyTrack } from "../types";
 import { spotifyApi, backendApi, previewUrlApi } from "../services/api";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  HINT_PENALTY,
+  REVEAL_PENALTY,
+  TIME_UP_PENALTY,
+  choiceLabel,
+  difficultySettings,
+  judgeGuess,
+  scoreChoice,
+  scoreGuess,
+  variantHint,
+} from "../services/gotifyScoring";
+import type { Difficulty } from "../services/gotifyScoring";
+import { pickDistractors, shuffle } from "../services/multipleChoice";
+import { firestoreApi } from "../services/firestore";
+import type {
+  ChallengeResponse,
+  DailyAttempt,
+  GameChallenge,
+  TurnResult,
+} from "../services/firestore";
+import {
+  DAILY_TURNS,
+  dailyDateKey,
+  fromPoolTrack,
+  loadDailyChallenge,
+  toPoolTrack,
+} from "../services/dailyChallenge";
+import { toSearchParams } from "../services/leaderboardFilters";
+import { ratingTier } from "../services/rating";
+import { ChallengeComparison } from "./ChallengeComparison";
+import { GameReview } from "./GameReview";
+
+const variantOptions: {
+  value: GotifyVariant;
+  label: string;
+  placeholder: string;
+}[] = [
+  {
+    value: "song",
+    label: "Song & Artist",
+    placeholder: "Enter song name and artist...",
+  },
+  { value: "artist", label: "Artist", placeholder: "Enter the artist..." },
+  { value: "album", label: "Album", placeholder: "Enter the album name..." },
+  {
+    value: "year",
+    label: "Release Year",
+    placeholder: "Enter the release year...",
+  },
+];
 
 interface GameState {
   score: number;
@@ -25,7 +82,8 @@ interface GameState {
   showReveal: boolean;
   tracks: SpotifyTrack[];
   playedTracks: SpotifyTrack[];
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: Difficulty;
+  variant: GotifyVariant;
   maxTurns: number;
   turnTimeLimit: number;
   lastGuessResult: "correct" | "partial" | "wrong" | null;
@@ -39,21 +97,69 @@ interface GameState {
   totalAvailableTracks: number;
   // Store last score earned for display
   lastScoreEarned: number;
+  // Multiple choice: this turn's options and the ones a hint ruled out
+  choices: SpotifyTrack[];
+  eliminatedChoiceIds: string[];
+  // Daily challenge or challenge link: a fixed track list, played in order
+  fixedTracks: SpotifyTrack[];
+  dailyDate: string | null;
+  challengeId: string | null;
+  // Every turn so far, for challenge links
+  turnResults: TurnResult[];
+  // False until the server has registered the current track; the clock
+  // and audio wait for it, since the server times turns from then
+  trackServed: boolean;
 }
 
+const toTurnResult = (
+  state: GameState,
+  result: TurnResult["result"],
+  points: number,
+  guess: string
+): TurnResult => ({
+  track_id: state.currentTrack?.id ?? "",
+  guess,
+  result,
+  points,
+  time_left: state.timeLeft,
+  hint_used: state.showHint,
+});
+
+// Longest run of turns that weren't wrong
+const bestStreak = (turns: TurnResult[]): number => {
+  let best = 0;
+  let current = 0;
+  turns.forEach((turn) => {
+    current = turn.result === "wrong" ? 0 : current + 1;
+    best = Math.max(best, current);
+  });
+  return best;
+};
+
 interface LeaderboardEntry {
   id: string;
+  user_id?: string;
   player_name: string;
   score: number;
   created_at: string;
   difficulty?: string;
+  variant?: GotifyVariant;
   streak?: number;
 }
 
 export const Gotify: React.FC = () => {
   const { user } = useAuth();
+  // Set on /gotify/challenge/:challengeId
+  const { challengeId } = useParams<{ challengeId?: string }>();
+  const navigate = useNavigate();
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Server-side record of the current game, so the score can be verified
+  const serverGameRef = useRef<Promise<string | null>>(Promise.resolve(null));
+  // Track registrations in flight; the game is submitted after them
+  const servingRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Track being registered, so a late registration can't start stale audio
+  const servingTrackIdRef = useRef<string | null>(null);
 
   const [gameState, setGameState] = useState<GameState>({
     score: 0,
@@ -69,6 +175,7 @@ export const Gotify: React.FC = () => {
     tracks: [],
     playedTracks: [],
     difficulty: "medium",
+    variant: "song",
     maxTurns: 10,
     turnTimeLimit: 20,
     lastGuessResult: null,
@@ -80,6 +187,13 @@ export const Gotify: React.FC = () => {
     backgroundLoadingComplete: false,
     totalAvailableTracks: 0,
     lastScoreEarned: 0,
+    choices: [],
+    eliminatedChoiceIds: [],
+    fixedTracks: [],
+    dailyDate: null,
+    challengeId: null,
+    turnResults: [],
+    trackServed: false,
   });
 
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
@@ -89,12 +203,22 @@ export const Gotify: React.FC = () => {
     processed: 0,
     total: 0,
   });
-  // Difficulty settings
-  const difficultySettings = {
-    easy: { maxTurns: 5, timeLimit: 30, scoreMultiplier: 1, hints: 5 },
-    medium: { maxTurns: 10, timeLimit: 20, scoreMultiplier: 1.5, hints: 3 },
-    hard: { maxTurns: 15, timeLimit: 15, scoreMultiplier: 2, hints: 1 },
-  };
+  const [dailyAttempt, setDailyAttempt] = useState<DailyAttempt | null>(null);
+  const [dailyLoading, setDailyLoading] = useState(false);
+  const [challenge, setChallenge] = useState<GameChallenge | null>(null);
+  const [challengeResponses, setChallengeResponses] = useState<
+    ChallengeResponse[]
+  >([]);
+  const [challengeLoading, setChallengeLoading] = useState(!!challengeId);
+  const [comparedUserId, setComparedUserId] = useState<string | null>(null);
+  const [challengeLink, setChallengeLink] = useState<string | null>(null);
+  const [sharingChallenge, setSharingChallenge] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [scoreError, setScoreError] = useState<string | null>(null);
+  // Leaderboard entry of the score just saved, to point it out on the board
+  const [savedEntryId, setSavedEntryId] = useState<string | null>(null);
+  const [gameRating, setGameRating] = useState<GameRating | null>(null);
+  const isMultipleChoice = gameState.difficulty === "multiple_choice";
 
   // Progressive loading - load tracks in stages
   useEffect(() => {
@@ -317,7 +441,8 @@ export const Gotify: React.FC = () => {
       gameState.gameStarted &&
       !gameState.gameOver &&
       gameState.timeLeft > 0 &&
-      !gameState.showReveal
+      !gameState.showReveal &&
+      gameState.trackServed
     ) {
       timerRef.current = setTimeout(() => {
         setGameState((prev) => ({ ...prev, timeLeft: prev.timeLeft - 1 }));
@@ -340,8 +465,28 @@ export const Gotify: React.FC = () => {
     gameState.gameStarted,
     gameState.gameOver,
     gameState.showReveal,
+    gameState.trackServed,
   ]);
 
+  // Whether today's daily challenge has been played already
+  useEffect(() => {
+    if (!user?.id) return;
+    firestoreApi.getDailyAttempt(user.id, dailyDateKey()).then(setDailyAttempt);
+  }, [user?.id]);
+
+  // Load the challenge this page was opened for
+  useEffect(() => {
+    if (!challengeId) return;
+    Promise.all([
+      firestoreApi.getChallenge(challengeId),
+      firestoreApi.getChallengeResponses(challengeId),
+    ]).then(([loadedChallenge, responses]) => {
+      setChallenge(loadedChallenge);
+      setChallengeResponses(responses);
+      setChallengeLoading(false);
+    });
+  }, [challengeId]);
+
   // Audio volume control
   useEffect(() => {
     if (audioRef.current) {
@@ -349,11 +494,13 @@ export const Gotify: React.FC = () => {
     }
   }, [gameState.volume]);
 
-  const setDifficulty = (difficulty: "easy" | "medium" | "hard") => {
+  const setDifficulty = (difficulty: Difficulty) => {
     const settings = difficultySettings[difficulty];
     setGameState((prev) => ({
       ...prev,
       difficulty,
+      // Multiple choice only asks for the song
+      variant: settings.variants ? prev.variant : "song",
       maxTurns: settings.maxTurns,
       turnTimeLimit: settings.timeLimit,
       hints: settings.hints,
@@ -377,6 +524,15 @@ export const Gotify: React.FC = () => {
       );
       return;
     }
+
+    serverGameRef.current = backendApi.startGotifyGame({
+      difficulty: gameState.difficulty,
+      variant: gameState.variant,
+      dailyDate: null,
+      challengeId: null,
+    });
+    servingRef.current = Promise.resolve();
+
     setGameState((prev) => ({
       ...prev,
       gameStarted: true,
@@ -390,12 +546,122 @@ export const Gotify: React.FC = () => {
       guess: "",
       showHint: false,
       lastScoreEarned: 0,
+      turnResults: [],
     }));
 
     generateRandomTrack();
   };
-  const generateRandomTrack = () => {
-    const availableTracks = gameState.tracks.filter(
+
+  // Start a game on a fixed track list with fixed rules. serverGame is the
+  // game id when it was already opened on the server.
+  const beginFixedGame = (
+    fixedTracks: SpotifyTrack[],
+    difficulty: Difficulty,
+    variant: GotifyVariant,
+    source: Pick<GameState, "dailyDate" | "challengeId">,
+    serverGame?: Promise<string | null>
+  ) => {
+    const settings = difficultySettings[difficulty];
+    serverGameRef.current =
+      serverGame ??
+      backendApi.startGotifyGame({
+        difficulty,
+        variant,
+        ...source,
+      });
+    servingRef.current = Promise.resolve();
+
+    setGameState((prev) => ({
+      ...prev,
+      ...source,
+      difficulty,
+      variant,
+      fixedTracks,
+      maxTurns: fixedTracks.length,
+      turnTimeLimit: settings.timeLimit,
+      hints: settings.hints,
+      gameStarted: true,
+      score: 0,
+      turn: 1,
+      timeLeft: settings.timeLimit,
+      playedTracks: [],
+      turnResults: [],
+      streak: 0,
+      lastGuessResult: null,
+      showReveal: false,
+      guess: "",
+      showHint: false,
+      lastScoreEarned: 0,
+    }));
+
+    generateRandomTrack(fixedTracks);
+  };
+
+  // Same tracks for everyone today, medium rules, one attempt
+  const startDailyGame = async () => {
+    if (!user) return;
+
+    setDailyLoading(true);
+    try {
+      const challenge = await loadDailyChallenge(dailyDateKey());
+      if (!challenge) {
+        alert("Today's challenge isn't available yet. Try again later.");
+        return;
+      }
+      const date = challenge.date;
+
+      // The server claims the day's single attempt along with the game
+      const gameId = await backendApi.startGotifyGame({
+        difficulty: "medium",
+        variant: "song",
+        dailyDate: date,
+        challengeId: null,
+      });
+      if (!gameId) {
+        const attempt = await firestoreApi.getDailyAttempt(user.id, date);
+        setDailyAttempt(attempt);
+        alert(
+          attempt
+            ? "You've already played today's challenge. Come back tomorrow!"
+            : "Couldn't start today's challenge. Try again later."
+        );
+        return;
+      }
+      setDailyAttempt({
+        user_id: user.id,
+        date,
+        score: null,
+        started_at: new Date().toISOString(),
+      });
+
+      beginFixedGame(
+        challenge.tracks.map(fromPoolTrack),
+        "medium",
+        "song",
+        { dailyDate: date, challengeId: null },
+        Promise.resolve(gameId)
+      );
+    } finally {
+      setDailyLoading(false);
+    }
+  };
+
+  // Play a friend's challenge link: their tracks, order and rules
+  const acceptChallenge = () => {
+    if (!challenge?.id) return;
+    beginFixedGame(
+      challenge.tracks.map(fromPoolTrack),
+      challenge.difficulty as Difficulty,
+      challenge.variant,
+      { dailyDate: null, challengeId: challenge.id }
+    );
+  };
+
+  const generateRandomTrack = (
+    fixedTracks: SpotifyTrack[] = gameState.fixedTracks
+  ) => {
+    const isFixed = fixedTracks.length > 0;
+    const availableTracks = (isFixed ? fixedTracks : gameState.tracks).filter(
       (track) => !gameState.playedTracks.includes(track) && track.preview_url
     );
 
@@ -404,12 +670,36 @@ export const Gotify: React.FC = () => {
       return;
     }
 
-    const randomTrack =
-      availableTracks[Math.floor(Math.random() * availableTracks.length)];
+    // Daily and linked challenges play their tracks in the stored order
+    const randomTrack = isFixed
+      ? availableTracks[0]
+      : availableTracks[Math.floor(Math.random() * availableTracks.length)];
+
+    // The server only accepts turns on tracks it saw being served
+    const serving = Promise.all([
+      serverGameRef.current,
+      servingRef.current,
+    ]).then(([gameId]) =>
+      gameId
+        ? backendApi.serveGotifyTrack(gameId, randomTrack)
+        : { success: false, message: "The game couldn't be registered" }
+    );
+    servingRef.current = serving;
+    servingTrackIdRef.current = randomTrack.id;
+
+    const choiceCount = difficultySettings[gameState.difficulty].choices;
+    const choices = choiceCount
+      ? shuffle([
+          randomTrack,
+          ...pickDistractors(randomTrack, gameState.tracks, choiceCount - 1),
+        ])
+      : [];
 
     setGameState((prev) => ({
       ...prev,
       currentTrack: randomTrack,
+      choices,
+      eliminatedChoiceIds: [],
       timeLeft: prev.turnTimeLimit,
       guess: "",
       showReveal: false,
@@ -417,6 +707,7 @@ export const Gotify: React.FC = () => {
       showHint: false,
       lastGuessResult: null,
       playedTracks: [...prev.playedTracks, randomTrack],
+      trackServed: false,
     }));
 
     // Stop current audio
@@ -425,8 +716,15 @@ export const Gotify: React.FC = () => {
       audioRef.current.currentTime = 0;
     }
 
-    // Auto-play the new track after a short delay
-    setTimeout(() => {
+    // Start the clock and auto-play once the server has the track
+    serving.then((result) => {
+      if (servingTrackIdRef.current !== randomTrack.id) return;
+      // Guests' games aren't saved, so there is nothing to warn about
+      if (!result.success && user) {
+        setScoreError((prev) => prev ?? result.message);
+      }
+      setGameState((prev) => ({ ...prev, trackServed: true }));
+
       if (randomTrack?.preview_url) {
         audioRef.current = new Audio(randomTrack.preview_url);
         audioRef.current.volume = gameState.volume;
@@ -445,7 +743,7 @@ export const Gotify: React.FC = () => {
           console.error("Audio failed to load");
         };
       }
-    }, 500); // Small delay to ensure state is updated
+    });
   };
 
   const playTrack = () => {
@@ -481,116 +779,26 @@ export const Gotify: React.FC = () => {
     }
   };
 
-  // Enhanced guess checking with fuzzy matching
-  const normalizeString = (str: string): string => {
-    return str
-      .toLowerCase()
-      .replace(/[^\w\s]/g, "") // Remove punctuation
-      .replace(/\s+/g, " ") // Normalize whitespace
-      .trim();
-  };
-
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    const norm1 = normalizeString(str1);
-    const norm2 = normalizeString(str2);
-
-    // Exact match
-    if (norm1 === norm2) return 1;
-
-    // Contains match
-    if (norm1.includes(norm2) || norm2.includes(norm1)) return 0.8;
-
-    // Word-by-word matching
-    const words1 = norm1.split(" ");
-    const words2 = norm2.split(" ");
-    const matchingWords = words1.filter((word) =>
-      words2.some((w) => w.includes(word) || word.includes(w))
-    );
-
-    if (matchingWords.length > 0) {
-      return matchingWords.length / Math.max(words1.length, words2.length);
-    }
-
-    return 0;
-  };
-
-  const handleGuess = () => {
-    if (!gameState.currentTrack || !gameState.guess.trim()) return;
-
-    const guess = gameState.guess.trim();
-    const trackName = gameState.currentTrack.name;
-    const artistName = gameState.currentTrack.artists[0].name;
-
-    const trackSimilarity = calculateSimilarity(guess, trackName);
-    const artistSimilarity = calculateSimilarity(guess, artistName);
-    const combinedSimilarity = calculateSimilarity(
-      guess,
-      `${trackName} ${artistName}`
-    );
-    let isCorrect = false;
-    let scoreIncrease = 0;
-    let guessResult: "correct" | "partial" | "wrong" = "wrong";
-    const settings = difficultySettings[gameState.difficulty];
-
-    // Calculate time-based multiplier (exponential decay based on remaining time)
-    const timeRatio = gameState.timeLeft / gameState.turnTimeLimit;
-
-    // Exponential decay function: starts at 10 points, decreases exponentially
-    // Formula: basePoints * e^(-decay * (1 - timeRatio))
-    const calculateTimeBasedPoints = (basePoints: number): number => {
-      const decay = 1.5; // Controls how steep the exponential decay is
-      const timeMultiplier = Math.exp(-decay * (1 - timeRatio));
-
-      // Map to the desired point ranges:
-      // Fastest (90-100% time left): ~10 points
-      // Fast (70-90% time left): ~7 points
-      // Normal (40-70% time left): ~5 points
-      // Slow (20-40% time left): ~4 points
-      // Very slow (0-20% time left): ~3 points
-      const minPoints = 3;
-      const maxPoints = 10;
-      const scaledPoints = minPoints + (maxPoints - minPoints) * timeMultiplier;
-
-      return Math.round((scaledPoints * basePoints) / 10); // Scale to base points
-    };
-
-    // Scoring logic based on similarity with time-based scoring
-    if (
-      combinedSimilarity >= 0.8 ||
-      (trackSimilarity >= 0.8 && artistSimilarity >= 0.8)
-    ) {
-      // Perfect or near-perfect match
-      isCorrect = true;
-      guessResult = "correct";
-      const basePoints = calculateTimeBasedPoints(10);
-      scoreIncrease = Math.round(
-        basePoints * settings.scoreMultiplier * (1 + gameState.streak * 0.1)
-      );
-    } else if (
-      trackSimilarity >= 0.6 ||
-      artistSimilarity >= 0.6 ||
-      combinedSimilarity >= 0.6
-    ) {
-      // Partial match
-      isCorrect = true;
-      guessResult = "partial";
-      const basePoints = Math.max(3, calculateTimeBasedPoints(7)); // Minimum 3 for partial
-      scoreIncrease = Math.round(basePoints * settings.scoreMultiplier);
-    } else {
-      // Wrong answer
-      guessResult = "wrong";
-      scoreIncrease = -2;
-    }
-
+  // Apply a turn's outcome: score, streak, reveal and feedback flash
+  const finishTurn = (
+    guessResult: "correct" | "partial" | "wrong",
+    scoreIncrease: number,
+    guess: string = gameState.guess
+  ) => {
     // Update streak
-    const newStreak = isCorrect ? gameState.streak + 1 : 0;
+    const newStreak = guessResult !== "wrong" ? gameState.streak + 1 : 0;
     setGameState((prev) => ({
       ...prev,
+      guess,
       score: Math.max(0, prev.score + scoreIncrease),
       showReveal: true,
       lastGuessResult: guessResult,
       streak: newStreak,
       lastScoreEarned: scoreIncrease,
+      turnResults: [
+        ...prev.turnResults,
+        toTurnResult(prev, guessResult, scoreIncrease, guess),
+      ],
     }));
 
     // Visual feedback
@@ -611,14 +819,64 @@ export const Gotify: React.FC = () => {
     pauseTrack();
   };
 
+  const handleGuess = () => {
+    if (!gameState.currentTrack || !gameState.guess.trim()) return;
+
+    const settings = difficultySettings[gameState.difficulty];
+    const rules = settings.variants?.[gameState.variant] ?? {
+      scoreMultiplier: 1,
+    };
+    const { result: guessResult, credit } = judgeGuess(
+      gameState.variant,
+      gameState.guess.trim(),
+      gameState.currentTrack,
+      rules
+    );
+    const scoreIncrease = scoreGuess(
+      { result: guessResult, credit },
+      {
+        timeLeft: gameState.timeLeft,
+        timeLimit: gameState.turnTimeLimit,
+        multiplier: settings.scoreMultiplier * rules.scoreMultiplier,
+        streak: gameState.streak,
+      }
+    );
+
+    finishTurn(guessResult, scoreIncrease);
+  };
+
+  // Multiple choice: all or nothing, no partial credit
+  const handleChoice = (choice: SpotifyTrack) => {
+    if (!gameState.currentTrack || gameState.showReveal) return;
+
+    const correct = choice.id === gameState.currentTrack.id;
+    finishTurn(
+      correct ? "correct" : "wrong",
+      scoreChoice(correct, difficultySettings[gameState.difficulty], {
+        timeLeft: gameState.timeLeft,
+        streak: gameState.streak,
+      }),
+      choiceLabel(choice)
+    );
+  };
+
   const useHint = () => {
     if (gameState.hints <= 0 || gameState.showHint) return;
 
+    // In multiple choice the hint is a 50/50: half the wrong options go
+    const wrongChoices = gameState.choices.filter(
+      (choice) => choice.id !== gameState.currentTrack?.id
+    );
+    const eliminatedChoiceIds = shuffle(wrongChoices)
+      .slice(0, Math.floor(gameState.choices.length / 2))
+      .map((choice) => choice.id);
+
     setGameState((prev) => ({
       ...prev,
       hints: prev.hints - 1,
       showHint: true,
-      score: Math.max(0, prev.score - 1), // Small penalty for using hint
+      eliminatedChoiceIds,
+      score: Math.max(0, prev.score - HINT_PENALTY),
     }));
   };
   const handleReveal = () => {
@@ -626,9 +884,13 @@ export const Gotify: React.FC = () => {
       ...prev,
       showReveal: true,
       lastGuessResult: "wrong",
-      score: Math.max(0, prev.score - 3), // Penalty for revealing
+      score: Math.max(0, prev.score - REVEAL_PENALTY),
       streak: 0,
-      lastScoreEarned: -3,
+      lastScoreEarned: -REVEAL_PENALTY,
+      turnResults: [
+        ...prev.turnResults,
+        toTurnResult(prev, "wrong", -REVEAL_PENALTY, ""),
+      ],
     }));
     pauseTrack();
   };
@@ -652,41 +914,72 @@ export const Gotify: React.FC = () => {
   const handleTimeUp = () => {
     setGameState((prev) => ({
       ...prev,
-      score: Math.max(0, prev.score - 2),
+      score: Math.max(0, prev.score - TIME_UP_PENALTY),
       showReveal: true,
       lastGuessResult: "wrong",
       streak: 0,
-      lastScoreEarned: -2,
+      lastScoreEarned: -TIME_UP_PENALTY,
+      turnResults: [
+        ...prev.turnResults,
+        toTurnResult(prev, "wrong", -TIME_UP_PENALTY, ""),
+      ],
     }));
     pauseTrack();
   };
 
   const endGame = async () => {
+    servingTrackIdRef.current = null;
     if (audioRef.current) {
       audioRef.current.pause();
     }
 
     setGameState((prev) => ({ ...prev, gameOver: true, isPlaying: false }));
 
-    // Save score to backend
+    // Submit the turn log; the server replays it and saves the score
     if (user) {
       try {
-        await backendApi.saveScore(
-          user.display_name || user.id,
-          gameState.score,
-          "gotify",
-          {
-            difficulty: gameState.difficulty,
-            streak: gameState.streak,
-            turns_completed: gameState.turn,
-          }
-        );
+        await servingRef.current;
+        const gameId = await serverGameRef.current;
+        const verified = gameId
+          ? await backendApi.submitGotifyGame(gameId, gameState.turnResults)
+          : { success: false, message: "The game couldn't be registered" };
+        if (!verified.success) {
+          setScoreError(verified.message);
+          return;
+        }
+
+        // The server's replay is the official result
+        const score = verified.score ?? gameState.score;
+        const turnResults = verified.turns ?? gameState.turnResults;
+        setGameState((prev) => ({ ...prev, score, turnResults }));
+        setSavedEntryId(verified.entryId ?? null);
+        setGameRating(verified.rating ?? null);
+
+        // The server recorded the daily attempt's score with the game
+        if (gameState.dailyDate) {
+          setDailyAttempt((prev) => (prev ? { ...prev, score } : prev));
+        }
+
+        // Likewise the challenge response, shown here without a reload
+        if (gameState.challengeId) {
+          setChallengeResponses((prev) => [
+            ...prev.filter((existing) => existing.user_id !== user.id),
+            {
+              user_id: user.id,
+              player_name: user.display_name || user.id,
+              score,
+              results: turnResults,
+              completed_at: new Date().toISOString(),
+            },
+          ]);
+        }
       } catch (error) {
         console.error("Error saving score:", error);
       }
     }
   };
   const restartGame = () => {
+    servingTrackIdRef.current = null;
     if (audioRef.current) {
       audioRef.current.pause();
     }
@@ -708,14 +1001,59 @@ export const Gotify: React.FC = () => {
       streak: 0,
       showHint: false,
       hints: difficultySettings[prev.difficulty].hints,
+      maxTurns: difficultySettings[prev.difficulty].maxTurns,
+      turnTimeLimit: difficultySettings[prev.difficulty].timeLimit,
       lastScoreEarned: 0,
+      fixedTracks: [],
+      dailyDate: null,
+      challengeId: null,
+      turnResults: [],
     }));
+    setChallengeLink(null);
+    setScoreError(null);
+    setSavedEntryId(null);
+    setGameRating(null);
+  };
+
+  // Turn the finished game into a link a friend can replay. The server
+  // builds the challenge from the verified game.
+  const shareChallenge = async () => {
+    if (!user) return;
+    setSharingChallenge(true);
+
+    const gameId = await serverGameRef.current;
+    const id = gameId ? await backendApi.createGotifyChallenge(gameId) : null;
+    if (id) {
+      setChallengeLink(`${window.location.origin}/gotify/challenge/${id}`);
+    }
+    setSharingChallenge(false);
+  };
+
+  const copyChallengeLink = async () => {
+    if (!challengeLink) return;
+    try {
+      await navigator.clipboard.writeText(challengeLink);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
   };
 
   const showLeaderboardData = async () => {
     try {
-      const response = await backendApi.getLeaderboard("gotify");
-      setLeaderboard(response.leaderboard || []);
+      // Multiple choice scores are ranked separately from typed guesses,
+      // and a daily challenge only against the same day's scores
+      const response = await backendApi.getLeaderboard({
+        gameType: "gotify",
+        difficulty: isMultipleChoice ? "multiple_choice" : undefined,
+        dailyDate: gameState.dailyDate ?? undefined,
+      });
+      setLeaderboard(
+        (response.leaderboard || []).filter(
+          (entry) => isMultipleChoice || entry.difficulty !== "multiple_choice"
+        )
+      );
       setGameState((prev) => ({ ...prev, showLeaderboard: true }));
     } catch (error) {
       console.error("Error fetching leaderboard:", error);
@@ -755,11 +1093,129 @@ export const Gotify: React.FC = () => {
     );
   }
 
+  const isChallengeCreator = !!challenge && challenge.creator_id === user?.id;
+  const myChallengeResponse = challengeResponses.find(
+    (response) => response.user_id === user?.id
+  );
+  // The creator can compare against anyone who played; others see their own
+  const comparedResponse = isChallengeCreator
+    ? challengeResponses.find(
+        (response) => response.user_id === comparedUserId
+      ) ?? challengeResponses[0]
+    : myChallengeResponse;
+  const challengeCreator = challenge && {
+    name: challenge.creator_name,
+    score: challenge.score,
+    results: challenge.results,
+  };
+
   return (
     <div className="min-h-screen bg-spotify-black text-white p-4">
       <div className="max-w-4xl mx-auto">
+        {/* Challenge Link Screen */}
+        {challengeId && !gameState.gameStarted && !gameState.gameOver && (
+          <div className="space-y-6">
+            {challengeLoading ? (
+              <div className="text-center py-16">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+                <p className="text-white">Loading challenge...</p>
+              </div>
+            ) : !challenge || !challengeCreator ? (
+              <div className="text-center bg-spotify-darkgray p-8 rounded-lg">
+                <h2 className="text-2xl font-bold mb-4">Challenge not found</h2>
+                <button
+                  onClick={() => (window.location.href = "/gotify")}
+                  className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+                >
+                  Play Gotify
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="text-center bg-spotify-darkgray p-8 rounded-lg space-y-4">
+                  <h1 className="text-3xl font-bold text-spotify-green">
+                    {isChallengeCreator
+                      ? "Your Challenge"
+                      : `🎯 ${challenge.creator_name} challenged you!`}
+                  </h1>
+                  <p className="text-spotify-lightgray capitalize">
+                    {challenge.tracks.length} tracks •{" "}
+                    {challenge.difficulty.replace("_", " ")} •{" "}
+                    {
+                      variantOptions.find(
+                        (option) => option.value === challenge.variant
+                      )?.label
+                    }
+                  </p>
+                  <p className="text-xl">
+                    Score to beat:{" "}
+                    <span className="font-bold text-yellow-400">
+                      {challenge.score}
+                    </span>
+                  </p>
+
+                  {isChallengeCreator && challengeResponses.length === 0 && (
+                    <p className="text-spotify-lightgray">
+                      Nobody has played it yet. Send your friends this page's
+                      link!
+                    </p>
+                  )}
+                  {isChallengeCreator && challengeResponses.length > 1 && (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {challengeResponses.map((response) => (
+                        <button
+                          key={response.user_id}
+                          onClick={() => setComparedUserId(response.user_id)}
+                          className={`px-4 py-2 cursor-pointer rounded-full border-2 transition-all ${
+                            comparedResponse?.user_id === response.user_id
+                              ? "border-spotify-green bg-spotify-green/20"
+                              : "border-gray-600 hover:border-gray-400"
+                          }`}
+                        >
+                          {response.player_name} ({response.score})
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {!isChallengeCreator && !myChallengeResponse && (
+                    <button
+                      onClick={acceptChallenge}
+                      disabled={!user}
+                      className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Accept Challenge
+                    </button>
+                  )}
+                  <div>
+                    <button
+                      onClick={() => (window.location.href = "/gotify")}
+                      className="text-spotify-lightgray hover:text-white cursor-pointer"
+                    >
+                      Back to Gotify
+                    </button>
+                  </div>
+                </div>
+
+                {comparedResponse && (
+                  <ChallengeComparison
+                    tracks={challenge.tracks}
+                    players={[
+                      challengeCreator,
+                      {
+                        name: comparedResponse.player_name,
+                        score: comparedResponse.score,
+                        results: comparedResponse.results,
+                      },
+                    ]}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* Game Start Screen */}
-        {!gameState.gameStarted && !gameState.gameOver && (
+        {!challengeId && !gameState.gameStarted && !gameState.gameOver && (
           <div className="text-center bg-spotify-darkgray p-8 rounded-lg space-y-6">
             <h1 className="text-4xl font-bold mb-4 text-spotify-green">
               Gotify
@@ -828,25 +1284,63 @@ export const Gotify: React.FC = () => {
                 </p>
               </div>
             )}
+            {/* Daily Challenge */}
+            <div className="bg-purple-600/20 border border-purple-500 rounded-lg p-6 text-left flex flex-col md:flex-row md:items-center gap-4">
+              <CalendarDays size={40} className="text-purple-300 shrink-0" />
+              <div className="flex-1">
+                <h3 className="text-xl font-bold">Daily Gotify</h3>
+                <p className="text-sm text-spotify-lightgray">
+                  Today's {DAILY_TURNS} songs are the same for everyone. One
+                  attempt per day, played on medium rules.
+                </p>
+                {dailyAttempt && (
+                  <p className="text-sm text-purple-300 mt-1">
+                    {dailyAttempt.score === null
+                      ? "You started today's challenge but didn't finish it."
+                      : `You scored ${dailyAttempt.score} today. New songs tomorrow!`}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={startDailyGame}
+                disabled={!user || !!dailyAttempt || dailyLoading}
+                className="bg-purple-600 cursor-pointer text-white font-bold py-3 px-6 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+              >
+                {dailyLoading
+                  ? "Loading..."
+                  : dailyAttempt
+                  ? "Played Today"
+                  : "Play Today's Challenge"}
+              </button>
+            </div>
+            {/* Multiplayer */}
+            <button
+              onClick={() => navigate("/gotify/rooms")}
+              className="w-full bg-blue-600/20 border border-blue-500 rounded-lg p-4 cursor-pointer hover:bg-blue-600/30 transition-colors flex items-center justify-center gap-3"
+            >
+              <Users size={24} className="text-blue-300" />
+              <span className="font-bold">Play live with friends</span>
+            </button>
             {/* Difficulty Selection */}
             <div className="mb-8">
               <h3 className="text-lg font-bold mb-4">Choose Difficulty</h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {Object.entries(difficultySettings).map(([key, settings]) => (
                   <button
                     key={key}
-                    onClick={() =>
-                      setDifficulty(key as "easy" | "medium" | "hard")
-                    }
+                    onClick={() => setDifficulty(key as Difficulty)}
                     className={`p-4 rounded-lg border-2 transition-all ${
                       gameState.difficulty === key
                         ? "border-spotify-green bg-spotify-green/20"
                         : "border-gray-600 hover:border-gray-400"
                     }`}
                   >
-                    <div className="font-bold text-lg capitalize">{key}</div>
+                    <div className="font-bold text-lg capitalize">
+                      {key.replace("_", " ")}
+                    </div>
                     <div className="text-sm text-spotify-lightgray mt-1">
                       {settings.maxTurns} turns • {settings.timeLimit}s each
+                      {settings.choices && ` • ${settings.choices} options`}
                     </div>
                     <div className="text-sm text-spotify-lightgray">
                       {settings.hints} hints • {settings.scoreMultiplier}x score
@@ -855,6 +1349,32 @@ export const Gotify: React.FC = () => {
                 ))}
               </div>
             </div>
+            {/* Variant Selection */}
+            {difficultySettings[gameState.difficulty].variants && (
+              <div className="mb-8">
+                <h3 className="text-lg font-bold mb-4">What to Guess</h3>
+                <div className="flex flex-wrap justify-center gap-3">
+                  {variantOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() =>
+                        setGameState((prev) => ({
+                          ...prev,
+                          variant: option.value,
+                        }))
+                      }
+                      className={`px-4 py-2 cursor-pointer rounded-full border-2 transition-all ${
+                        gameState.variant === option.value
+                          ? "border-spotify-green bg-spotify-green/20"
+                          : "border-gray-600 hover:border-gray-400"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             {/* Volume Control */}
             <div className="mb-8">
               <div className="flex items-center gap-4 justify-center">
@@ -928,6 +1448,13 @@ export const Gotify: React.FC = () => {
           !gameState.gameOver &&
           gameState.currentTrack && (
             <div className="space-y-6">
+              {scoreError && (
+                <div className="p-4 bg-red-600/20 border border-red-600 rounded-lg text-red-400 text-center">
+                  This game couldn't be registered, so its score won't be saved:{" "}
+                  {scoreError}
+                </div>
+              )}
+
               {/* Header */}
               <div className="bg-spotify-darkgray p-6 rounded-lg">
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
@@ -982,206 +1509,260 @@ export const Gotify: React.FC = () => {
 
               {/* Track Display */}
               <div className="text-center bg-spotify-darkgray p-8 rounded-lg">
-                <img
-                  src={gameState.currentTrack.album.images[0]?.url}
-                  alt="Album cover"
-                  className="w-64 h-64 mx-auto rounded-lg shadow-lg mb-6"
-                />
-
-                {/* Hint Display */}
-                {gameState.showHint && (
-                  <div className="mb-4 p-4 bg-yellow-600/20 border border-yellow-600 rounded-lg">
-                    <p className="text-yellow-400 font-bold">Hint:</p>
-                    <p className="text-white">
-                      Album: {gameState.currentTrack.album.name}
-                    </p>
-                    <p className="text-spotify-lightgray text-sm">
-                      Released:{" "}
-                      {new Date(
-                        gameState.currentTrack.album.release_date
-                      ).getFullYear()}
-                    </p>
+                {/* Nothing to see or hear until the server's clock starts */}
+                {!gameState.trackServed ? (
+                  <div className="py-24">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+                    <p className="text-spotify-lightgray">Loading track...</p>
                   </div>
-                )}
+                ) : (
+                  <>
+                    <img
+                      src={gameState.currentTrack.album.images[0]?.url}
+                      alt="Album cover"
+                      className="w-64 h-64 mx-auto rounded-lg shadow-lg mb-6"
+                    />
 
-                {/* Audio Controls */}
-                <div className="flex justify-center gap-4 mb-6">
-                  <button
-                    onClick={gameState.isPlaying ? pauseTrack : playTrack}
-                    className="bg-spotify-green text-black p-4 rounded-full hover:scale-110 transition-transform"
-                  >
-                    {gameState.isPlaying ? (
-                      <Pause size={32} />
-                    ) : (
-                      <Play size={32} />
+                    {/* Hint Display */}
+                    {gameState.showHint && !isMultipleChoice && (
+                      <div className="mb-4 p-4 bg-yellow-600/20 border border-yellow-600 rounded-lg">
+                        <p className="text-yellow-400 font-bold">Hint:</p>
+                        {variantHint(
+                          gameState.variant,
+                          gameState.currentTrack
+                        ).map((line) => (
+                          <p key={line} className="text-white">
+                            {line}
+                          </p>
+                        ))}
+                      </div>
                     )}
-                  </button>
 
-                  {gameState.hints > 0 && !gameState.showHint && (
-                    <button
-                      onClick={useHint}
-                      className="bg-yellow-600 text-white p-4 rounded-full hover:scale-110 transition-transform"
-                      title="Use a hint (-1 point)"
-                    >
-                      💡
-                    </button>
-                  )}
-                </div>
-
-                {/* Guess Input */}
-                {!gameState.showReveal && (
-                  <div className="space-y-4 max-w-md mx-auto">
-                    <input
-                      type="text"
-                      value={gameState.guess}
-                      onChange={(e) =>
-                        setGameState((prev) => ({
-                          ...prev,
-                          guess: e.target.value,
-                        }))
-                      }
-                      placeholder="Enter song name and artist..."
-                      className="w-full p-4 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-spotify-green focus:outline-none text-lg"
-                      onKeyPress={(e) => e.key === "Enter" && handleGuess()}
-                      autoFocus
-                    />
-                    <div className="flex gap-4 justify-center">
-                      <button
-                        onClick={handleGuess}
-                        disabled={!gameState.guess.trim()}
-                        className="bg-spotify-green text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Submit Guess
-                      </button>
+                    {/* Audio Controls */}
+                    <div className="flex justify-center gap-4 mb-6">
                       <button
-                        onClick={handleReveal}
-                        className="bg-red-600 text-white font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
-                        title="Give up (-3 points)"
+                        onClick={gameState.isPlaying ? pauseTrack : playTrack}
+                        className="bg-spotify-green text-black p-4 rounded-full hover:scale-110 transition-transform"
                       >
-                        Give Up
+                        {gameState.isPlaying ? (
+                          <Pause size={32} />
+                        ) : (
+                          <Play size={32} />
+                        )}
                       </button>
-                    </div>
-                  </div>
-                )}
 
-                {/* Reveal */}
-                {gameState.showReveal && (
-                  <div className="space-y-6 max-w-md mx-auto">
-                    {/* Result Badge */}
-                    {gameState.lastGuessResult && (
-                      <div
-                        className={`p-4 rounded-lg ${
-                          gameState.lastGuessResult === "correct"
-                            ? "bg-green-600/20 border border-green-600"
-                            : gameState.lastGuessResult === "partial"
-                            ? "bg-yellow-600/20 border border-yellow-600"
-                            : "bg-red-600/20 border border-red-600"
-                        }`}
-                      >
-                        <div
-                          className={`font-bold text-lg ${
-                            gameState.lastGuessResult === "correct"
-                              ? "text-green-400"
-                              : gameState.lastGuessResult === "partial"
-                              ? "text-yellow-400"
-                              : "text-red-400"
-                          }`}
+                      {gameState.hints > 0 && !gameState.showHint && (
+                        <button
+                          onClick={useHint}
+                          className="bg-yellow-600 text-white p-4 rounded-full hover:scale-110 transition-transform"
+                          title={
+                            isMultipleChoice
+                              ? "Rule out half the wrong options (-1 point)"
+                              : "Use a hint (-1 point)"
+                          }
                         >
-                          {gameState.lastGuessResult === "correct"
-                            ? "🎉 Perfect!"
-                            : gameState.lastGuessResult === "partial"
-                            ? "⚡ Close!"
-                            : "❌ Wrong"}
-                        </div>{" "}
-                        {gameState.guess && (
-                          <div className="text-sm text-gray-300 mt-1">
-                            Your guess: "{gameState.guess}"
-                          </div>
-                        )}{" "}
-                        {/* Speed Scoring Display */}
-                        {(gameState.lastGuessResult === "correct" ||
-                          gameState.lastGuessResult === "partial") && (
-                          <div className="mt-2 space-y-1">
-                            <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
-                              <span className="text-gray-300">Speed:</span>
-                              <span className="text-cyan-400 font-bold">
-                                {(() => {
-                                  const timeRatio =
-                                    gameState.timeLeft /
-                                    gameState.turnTimeLimit;
-                                  if (timeRatio >= 0.9)
-                                    return "⚡ Lightning Fast!";
-                                  if (timeRatio >= 0.7) return "🚀 Fast!";
-                                  if (timeRatio >= 0.4) return "⏱️ Normal";
-                                  if (timeRatio >= 0.2) return "🐌 Slow";
-                                  return "🐢 Very Slow";
-                                })()}
-                              </span>
-                            </div>
-                            <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
-                              <span className="text-gray-300">
-                                Points Earned:
-                              </span>
-                              <span
-                                className={`font-bold ${
-                                  gameState.lastScoreEarned > 0
-                                    ? "text-green-400"
-                                    : "text-red-400"
-                                }`}
+                          💡
+                        </button>
+                      )}
+                    </div>
+
+                    {/* Multiple Choice Options */}
+                    {!gameState.showReveal && isMultipleChoice && (
+                      <div className="space-y-4 max-w-xl mx-auto">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                          {gameState.choices.map((choice) => {
+                            const eliminated =
+                              gameState.eliminatedChoiceIds.includes(choice.id);
+                            return (
+                              <button
+                                key={choice.id}
+                                onClick={() => handleChoice(choice)}
+                                disabled={eliminated}
+                                className="p-4 cursor-pointer bg-gray-700 border border-gray-600 rounded-lg text-left hover:border-spotify-green hover:bg-gray-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:line-through"
                               >
-                                {gameState.lastScoreEarned > 0 ? "+" : ""}
-                                {gameState.lastScoreEarned}
-                              </span>
-                            </div>
-                          </div>
-                        )}
-                        {gameState.lastGuessResult === "wrong" && (
-                          <div className="mt-2">
-                            <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
-                              <span className="text-gray-300">
-                                Points Lost:
-                              </span>
-                              <span className="text-red-400 font-bold">
-                                {gameState.lastScoreEarned}
-                              </span>
-                            </div>
-                          </div>
-                        )}
+                                <div className="font-bold truncate">
+                                  {choice.name}
+                                </div>
+                                <div className="text-sm text-spotify-lightgray truncate">
+                                  {choice.artists.map((a) => a.name).join(", ")}
+                                </div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <button
+                          onClick={handleReveal}
+                          className="bg-red-600 text-white font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+                          title="Give up (-3 points)"
+                        >
+                          Give Up
+                        </button>
                       </div>
                     )}
 
-                    {/* Correct Answer */}
-                    <div className="bg-spotify-darkgray p-6 rounded-lg border border-spotify-green">
-                      <h3 className="text-xl font-bold text-spotify-green mb-3">
-                        Correct Answer:
-                      </h3>
-                      <p className="text-xl font-bold">
-                        {gameState.currentTrack.name}
-                      </p>
-                      <p className="text-lg text-spotify-lightgray">
-                        by {gameState.currentTrack.artists[0].name}
-                      </p>
-                      <p className="text-sm text-gray-400 mt-2">
-                        Album: {gameState.currentTrack.album.name} (
-                        {new Date(
-                          gameState.currentTrack.album.release_date
-                        ).getFullYear()}
-                        )
-                      </p>
-                    </div>
+                    {/* Guess Input */}
+                    {!gameState.showReveal && !isMultipleChoice && (
+                      <div className="space-y-4 max-w-md mx-auto">
+                        <input
+                          type="text"
+                          value={gameState.guess}
+                          onChange={(e) =>
+                            setGameState((prev) => ({
+                              ...prev,
+                              guess: e.target.value,
+                            }))
+                          }
+                          placeholder={
+                            variantOptions.find(
+                              (option) => option.value === gameState.variant
+                            )?.placeholder
+                          }
+                          inputMode={
+                            gameState.variant === "year" ? "numeric" : "text"
+                          }
+                          className="w-full p-4 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-spotify-green focus:outline-none text-lg"
+                          onKeyPress={(e) => e.key === "Enter" && handleGuess()}
+                          autoFocus
+                        />
+                        <div className="flex gap-4 justify-center">
+                          <button
+                            onClick={handleGuess}
+                            disabled={!gameState.guess.trim()}
+                            className="bg-spotify-green text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Submit Guess
+                          </button>
+                          <button
+                            onClick={handleReveal}
+                            className="bg-red-600 text-white font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+                            title="Give up (-3 points)"
+                          >
+                            Give Up
+                          </button>
+                        </div>
+                      </div>
+                    )}
 
-                    <button
-                      onClick={nextTurn}
-                      onKeyPress={(e) => e.key === "Enter" && nextTurn()}
-                      className="bg-spotify-green text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
-                      tabIndex={0}
-                      autoFocus
-                    >
-                      {gameState.turn >= gameState.maxTurns
-                        ? "Finish Game"
-                        : "Next Track"}
-                    </button>
-                  </div>
+                    {/* Reveal */}
+                    {gameState.showReveal && (
+                      <div className="space-y-6 max-w-md mx-auto">
+                        {/* Result Badge */}
+                        {gameState.lastGuessResult && (
+                          <div
+                            className={`p-4 rounded-lg ${
+                              gameState.lastGuessResult === "correct"
+                                ? "bg-green-600/20 border border-green-600"
+                                : gameState.lastGuessResult === "partial"
+                                ? "bg-yellow-600/20 border border-yellow-600"
+                                : "bg-red-600/20 border border-red-600"
+                            }`}
+                          >
+                            <div
+                              className={`font-bold text-lg ${
+                                gameState.lastGuessResult === "correct"
+                                  ? "text-green-400"
+                                  : gameState.lastGuessResult === "partial"
+                                  ? "text-yellow-400"
+                                  : "text-red-400"
+                              }`}
+                            >
+                              {gameState.lastGuessResult === "correct"
+                                ? "🎉 Perfect!"
+                                : gameState.lastGuessResult === "partial"
+                                ? "⚡ Close!"
+                                : "❌ Wrong"}
+                            </div>{" "}
+                            {gameState.guess && (
+                              <div className="text-sm text-gray-300 mt-1">
+                                Your guess: "{gameState.guess}"
+                              </div>
+                            )}{" "}
+                            {/* Speed Scoring Display */}
+                            {(gameState.lastGuessResult === "correct" ||
+                              gameState.lastGuessResult === "partial") && (
+                              <div className="mt-2 space-y-1">
+                                <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
+                                  <span className="text-gray-300">Speed:</span>
+                                  <span className="text-cyan-400 font-bold">
+                                    {(() => {
+                                      const timeRatio =
+                                        gameState.timeLeft /
+                                        gameState.turnTimeLimit;
+                                      if (timeRatio >= 0.9)
+                                        return "⚡ Lightning Fast!";
+                                      if (timeRatio >= 0.7) return "🚀 Fast!";
+                                      if (timeRatio >= 0.4) return "⏱️ Normal";
+                                      if (timeRatio >= 0.2) return "🐌 Slow";
+                                      return "🐢 Very Slow";
+                                    })()}
+                                  </span>
+                                </div>
+                                <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
+                                  <span className="text-gray-300">
+                                    Points Earned:
+                                  </span>
+                                  <span
+                                    className={`font-bold ${
+                                      gameState.lastScoreEarned > 0
+                                        ? "text-green-400"
+                                        : "text-red-400"
+                                    }`}
+                                  >
+                                    {gameState.lastScoreEarned > 0 ? "+" : ""}
+                                    {gameState.lastScoreEarned}
+                                  </span>
+                                </div>
+                              </div>
+                            )}
+                            {gameState.lastGuessResult === "wrong" && (
+                              <div className="mt-2">
+                                <div className="flex items-center justify-between bg-gray-700/50 rounded px-2 py-1">
+                                  <span className="text-gray-300">
+                                    Points Lost:
+                                  </span>
+                                  <span className="text-red-400 font-bold">
+                                    {gameState.lastScoreEarned}
+                                  </span>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Correct Answer */}
+                        <div className="bg-spotify-darkgray p-6 rounded-lg border border-spotify-green">
+                          <h3 className="text-xl font-bold text-spotify-green mb-3">
+                            Correct Answer:
+                          </h3>
+                          <p className="text-xl font-bold">
+                            {gameState.currentTrack.name}
+                          </p>
+                          <p className="text-lg text-spotify-lightgray">
+                            by {gameState.currentTrack.artists[0].name}
+                          </p>
+                          <p className="text-sm text-gray-400 mt-2">
+                            Album: {gameState.currentTrack.album.name} (
+                            {new Date(
+                              gameState.currentTrack.album.release_date
+                            ).getFullYear()}
+                            )
+                          </p>
+                        </div>
+
+                        <button
+                          onClick={nextTurn}
+                          onKeyPress={(e) => e.key === "Enter" && nextTurn()}
+                          className="bg-spotify-green text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+                          tabIndex={0}
+                          autoFocus
+                        >
+                          {gameState.turn >= gameState.maxTurns
+                            ? "Finish Game"
+                            : "Next Track"}
+                        </button>
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -1206,7 +1787,7 @@ export const Gotify: React.FC = () => {
               </div>
               <div className="bg-gray-700 p-4 rounded-lg">
                 <div className="text-3xl font-bold text-purple-400">
-                  {gameState.streak}
+                  {bestStreak(gameState.turnResults)}
                 </div>
                 <div className="text-sm text-spotify-lightgray">
                   Best Streak
@@ -1222,12 +1803,56 @@ export const Gotify: React.FC = () => {
               </div>
               <div className="bg-gray-700 p-4 rounded-lg">
                 <div className="text-3xl font-bold text-blue-400 capitalize">
-                  {gameState.difficulty}
+                  {gameState.dailyDate
+                    ? "Daily"
+                    : gameState.difficulty.replace("_", " ")}
+                </div>
+                <div className="text-sm text-spotify-lightgray">
+                  {gameState.variant === "song"
+                    ? "Difficulty"
+                    : `Difficulty · ${
+                        variantOptions.find(
+                          (option) => option.value === gameState.variant
+                        )?.label
+                      }`}
                 </div>
-                <div className="text-sm text-spotify-lightgray">Difficulty</div>
               </div>
             </div>
 
+            {gameRating && (
+              <p className="text-lg">
+                Rating{" "}
+                <span
+                  className={`px-2 py-0.5 rounded-full text-sm font-bold ${
+                    ratingTier(gameRating.value).className
+                  }`}
+                >
+                  {ratingTier(gameRating.value).name}
+                </span>{" "}
+                <span className="font-bold">{gameRating.value}</span>
+                {gameRating.provisional && " (provisional)"}
+                {gameRating.change !== null && (
+                  <span
+                    className={
+                      gameRating.change >= 0
+                        ? "text-spotify-green"
+                        : "text-red-400"
+                    }
+                  >
+                    {" "}
+                    {gameRating.change >= 0 ? "+" : ""}
+                    {gameRating.change}
+                  </span>
+                )}
+              </p>
+            )}
+
+            {scoreError && (
+              <p className="text-red-400">
+                Your score couldn't be verified and wasn't saved: {scoreError}
+              </p>
+            )}
+
             <div className="flex flex-wrap gap-4 justify-center">
               <button
                 onClick={restartGame}
@@ -1243,6 +1868,42 @@ export const Gotify: React.FC = () => {
                 <Award size={20} />
                 Leaderboard
               </button>
+              {savedEntryId && (
+                <button
+                  onClick={() =>
+                    (window.location.href = `/leaderboard?${new URLSearchParams(
+                      {
+                        ...toSearchParams({
+                          game: "gotify",
+                          difficulty: gameState.dailyDate
+                            ? null
+                            : gameState.difficulty,
+                          window: "all",
+                          board: gameState.dailyDate ? "daily" : "regular",
+                          friends: false,
+                        }),
+                        highlight: savedEntryId,
+                      }
+                    )}`)
+                  }
+                  className="bg-gray-600 cursor-pointer text-white font-bold py-3 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2"
+                >
+                  <Trophy size={20} />
+                  See Your Rank Live
+                </button>
+              )}
+              {!gameState.dailyDate &&
+                !gameState.challengeId &&
+                savedEntryId && (
+                  <button
+                    onClick={shareChallenge}
+                    disabled={sharingChallenge || !!challengeLink}
+                    className="bg-purple-600 cursor-pointer text-white font-bold py-3 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Share2 size={20} />
+                    Challenge a Friend
+                  </button>
+                )}
               <button
                 onClick={() => (window.location.href = "/dashboard")}
                 className="bg-gray-600 cursor-pointer text-white font-bold py-3 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2"
@@ -1251,6 +1912,51 @@ export const Gotify: React.FC = () => {
                 Home
               </button>
             </div>
+
+            {challengeLink && (
+              <div className="flex gap-2 max-w-xl mx-auto">
+                <input
+                  type="text"
+                  readOnly
+                  value={challengeLink}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 p-3 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                />
+                <button
+                  onClick={copyChallengeLink}
+                  className="bg-gray-600 cursor-pointer text-white py-3 px-4 rounded-lg hover:bg-gray-500 transition-colors flex items-center gap-2"
+                >
+                  {linkCopied ? <Check size={16} /> : <Copy size={16} />}
+                  {linkCopied ? "Copied" : "Copy"}
+                </button>
+              </div>
+            )}
+
+            {/* Game Review */}
+            {!gameState.challengeId && gameState.turnResults.length > 0 && (
+              <div className="pt-4">
+                <h3 className="text-2xl font-bold mb-4">Your Turns</h3>
+                <GameReview
+                  tracks={gameState.playedTracks.map(toPoolTrack)}
+                  turns={gameState.turnResults}
+                  timeLimit={gameState.turnTimeLimit}
+                />
+              </div>
+            )}
+
+            {gameState.challengeId && challengeCreator && challenge && (
+              <ChallengeComparison
+                tracks={challenge.tracks}
+                players={[
+                  challengeCreator,
+                  {
+                    name: user?.display_name || "You",
+                    score: gameState.score,
+                    results: gameState.turnResults,
+                  },
+                ]}
+              />
+            )}
           </div>
         )}
 
@@ -1258,7 +1964,8 @@ export const Gotify: React.FC = () => {
         {gameState.showLeaderboard && (
           <div className="bg-spotify-darkgray p-8 rounded-lg">
             <h2 className="text-3xl font-bold text-spotify-green mb-6 text-center">
-              🏆 Gotify Leaderboard
+              🏆 {gameState.dailyDate ? "Daily Gotify" : "Gotify"}{" "}
+              {isMultipleChoice && "Multiple Choice "}Leaderboard
             </h2>
 
             {leaderboard.length > 0 ? (
@@ -1277,9 +1984,9 @@ export const Gotify: React.FC = () => {
                   <tbody>
                     {leaderboard.map((entry, index) => (
                       <tr
-                        key={`${entry.player_name}-${entry.created_at}`}
+                        key={entry.id}
                         className={`border-b border-gray-700 ${
-                          entry.player_name === user?.display_name
+                          entry.user_id && entry.user_id === user?.id
                             ? "bg-spotify-green/10"
                             : ""
                         }`}
@@ -1295,7 +2002,10 @@ export const Gotify: React.FC = () => {
                           {entry.score}
                         </td>
                         <td className="py-3 px-4 capitalize">
-                          {entry.difficulty || "medium"}
+                          {(entry.difficulty || "medium").replace("_", " ")}
+                          {entry.variant &&
+                            entry.variant !== "song" &&
+                            ` · ${entry.variant}`}
                         </td>
                         <td className="py-3 px-4">{entry.streak || 0}</td>
                         <td className="py-3 px-4 text-sm text-gray-400">
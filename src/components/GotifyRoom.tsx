@@ -0,0 +1,582 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Check,
+  Copy,
+  Crown,
+  LogIn,
+  LogOut,
+  Plus,
+  Timer,
+  Users,
+} from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { previewUrlApi, spotifyApi } from "../services/api";
+import { roomStreak, roomsApi } from "../services/firestore";
+import type {
+  GotifyRoom as Room,
+  RoomGuess,
+  RoomPlayer,
+} from "../services/firestore";
+import { fromPoolTrack, toPoolTrack } from "../services/dailyChallenge";
+import { judgeGuess, scoreGuess } from "../services/gotifyScoring";
+import type { GuessResult } from "../services/gotifyScoring";
+import { shuffle } from "../services/multipleChoice";
+
+// Rooms play on medium rules
+const ROOM_TURNS = 10;
+const ROOM_TIME_LIMIT = 20;
+const ROOM_MULTIPLIER = 1.5;
+// Lead time so every client has the next turn before its preview starts
+const COUNTDOWN_MS = 3000;
+const REVEAL_MS = 5000;
+// How long other players wait on the host before moving a turn on
+// themselves, so a room doesn't stall when the host leaves
+const HOST_GRACE_MS = 5000;
+const TRACKS_TO_LOAD = 30;
+
+type Phase = "countdown" | "guessing" | "reveal";
+
+const resultStyle: Record<GuessResult, string> = {
+  correct: "text-green-400",
+  partial: "text-yellow-400",
+  wrong: "text-red-400",
+};
+
+export const GotifyRoom: React.FC = () => {
+  const { code } = useParams<{ code?: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userName = user?.display_name || user?.id || "";
+
+  // Create / join screen
+  const [joinCode, setJoinCode] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live room state
+  const [room, setRoom] = useState<Room | null>(null);
+  const [players, setPlayers] = useState<RoomPlayer[]>([]);
+  const [guesses, setGuesses] = useState<RoomGuess[]>([]);
+  // Server clock minus local clock; null until joined
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [guess, setGuess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const advancedTurnRef = useRef<number | null>(null);
+  const advanceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Join the room and listen to it and its players
+  useEffect(() => {
+    if (!code || !userId) return;
+    let cancelled = false;
+    let unsubscribes: (() => void)[] = [];
+
+    setError(null);
+    roomsApi.joinRoom(code, { id: userId, name: userName }).then((result) => {
+      if (cancelled) return;
+      if (!result.success) {
+        setError(result.message);
+        return;
+      }
+      setClockOffset(result.clockOffset);
+      unsubscribes = [
+        roomsApi.subscribeToRoom(code, setRoom),
+        roomsApi.subscribeToPlayers(code, setPlayers),
+      ];
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [code, userId, userName]);
+
+  // Guesses for the current turn
+  useEffect(() => {
+    if (!code || clockOffset === null || room?.status !== "playing") return;
+    setGuesses([]);
+    setGuess("");
+    return roomsApi.subscribeToGuesses(code, room.turn, setGuesses);
+  }, [code, clockOffset, room?.status, room?.turn]);
+
+  // Clock tick while a game is running
+  useEffect(() => {
+    if (room?.status !== "playing") return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [room?.status]);
+
+  useEffect(
+    () => () => {
+      if (advanceTimerRef.current) clearTimeout(advanceTimerRef.current);
+    },
+    []
+  );
+
+  const serverNow = now + (clockOffset ?? 0);
+  const track =
+    room?.status === "playing" ? room.tracks[room.turn] ?? null : null;
+  const startsAt = room?.turn_starts_at ?? 0;
+  const endsAt = startsAt + (room?.time_limit ?? ROOM_TIME_LIMIT) * 1000;
+  const allAnswered = players.length > 0 && guesses.length >= players.length;
+  const phase: Phase =
+    serverNow < startsAt
+      ? "countdown"
+      : serverNow < endsAt && !allAnswered
+      ? "guessing"
+      : "reveal";
+  const myGuess = guesses.find((roomGuess) => roomGuess.user_id === userId);
+  const isHost = !!room && room.host_id === userId;
+  const previewUrl = track?.preview_url;
+
+  // Start the preview on the shared clock so everyone hears it together
+  useEffect(() => {
+    if (!previewUrl || clockOffset === null) return;
+    const audio = new Audio(previewUrl);
+    audioRef.current = audio;
+    const delay = Math.max(0, startsAt - (Date.now() + clockOffset));
+    const timer = setTimeout(() => {
+      audio.play().catch((error) => {
+        console.error("Failed to play audio:", error);
+      });
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      audio.pause();
+    };
+  }, [previewUrl, startsAt, clockOffset]);
+
+  useEffect(() => {
+    if (phase === "reveal") audioRef.current?.pause();
+  }, [phase]);
+
+  // The host moves everyone on once a turn has been revealed. Everyone
+  // else does too once the turn has been over for a while, in case the
+  // host has gone; advanceTurn makes sure it only happens once.
+  useEffect(() => {
+    if (!code || !room || room.status !== "playing") return;
+    if (phase !== "reveal" || advancedTurnRef.current === room.turn) return;
+    advancedTurnRef.current = room.turn;
+
+    const turn = room.turn;
+    const delay = isHost
+      ? REVEAL_MS
+      : Math.max(
+          REVEAL_MS,
+          endsAt + REVEAL_MS + HOST_GRACE_MS - (Date.now() + (clockOffset ?? 0))
+        );
+    advanceTimerRef.current = setTimeout(() => {
+      roomsApi.advanceTurn(
+        code,
+        turn,
+        Date.now() + (clockOffset ?? 0) + COUNTDOWN_MS
+      );
+    }, delay);
+  }, [code, room, isHost, phase, endsAt, clockOffset]);
+
+  const createRoom = async () => {
+    if (!userId) return;
+    setCreating(true);
+    setError(null);
+
+    try {
+      const topTracks = await spotifyApi.getTopTracks(
+        "medium_term",
+        TRACKS_TO_LOAD
+      );
+      const playable = (
+        await previewUrlApi.enhanceTracksWithPreviewUrls(topTracks.items)
+      ).filter((track) => track.preview_url);
+
+      if (playable.length < 3) {
+        setError("Couldn't find enough playable previews in your top tracks.");
+        return;
+      }
+
+      const roomCode = await roomsApi.createRoom(
+        { id: userId, name: userName },
+        shuffle(playable).slice(0, ROOM_TURNS).map(toPoolTrack),
+        ROOM_TIME_LIMIT
+      );
+      if (!roomCode) {
+        setError("Failed to create a room. Please try again.");
+        return;
+      }
+      navigate(`/gotify/rooms/${roomCode}`);
+    } catch (error) {
+      console.error("Error creating room:", error);
+      setError("Failed to load your tracks. Please try again.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const joinRoom = () => {
+    const roomCode = joinCode.trim().toUpperCase();
+    if (roomCode) navigate(`/gotify/rooms/${roomCode}`);
+  };
+
+  const leaveRoom = async () => {
+    if (code && userId && room?.status === "lobby") {
+      await roomsApi.leaveRoom(code, userId);
+    }
+    navigate("/gotify/rooms");
+  };
+
+  const startGame = () => {
+    if (!code || clockOffset === null) return;
+    roomsApi.startTurn(code, 0, Date.now() + clockOffset + COUNTDOWN_MS);
+  };
+
+  // Scored with the single-player rules; the transaction adds the bonus
+  // for being among the first correct answers
+  const submitGuess = async () => {
+    if (!code || !room || !track || !userId || !guess.trim()) return;
+    if (phase !== "guessing" || myGuess || submitting) return;
+
+    setSubmitting(true);
+    const judgement = judgeGuess("song", guess.trim(), fromPoolTrack(track), {
+      scoreMultiplier: 1,
+    });
+    const me = players.find((player) => player.user_id === userId);
+    const points = scoreGuess(judgement, {
+      timeLeft: Math.max(
+        0,
+        (endsAt - (Date.now() + (clockOffset ?? 0))) / 1000
+      ),
+      timeLimit: room.time_limit,
+      multiplier: ROOM_MULTIPLIER,
+      streak: me ? roomStreak(me, room.turn) : 0,
+    });
+
+    await roomsApi.submitGuess(
+      code,
+      room.turn,
+      { id: userId, name: userName },
+      guess.trim(),
+      judgement.result,
+      points
+    );
+    setSubmitting(false);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/gotify/rooms/${code}`
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
+  const renderScoreboard = () => (
+    <div className="bg-spotify-darkgray p-6 rounded-lg">
+      <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+        <Users size={20} />
+        Players ({players.length})
+      </h3>
+      <div className="space-y-2">
+        {players.map((player, index) => (
+          <div
+            key={player.user_id}
+            className={`flex items-center gap-3 p-3 rounded-lg transition-all ${
+              player.user_id === userId ? "bg-spotify-green/20" : "bg-gray-700"
+            }`}
+          >
+            <span className="w-6 font-bold text-spotify-lightgray">
+              {index + 1}
+            </span>
+            <span className="flex-1 truncate flex items-center gap-2">
+              {player.display_name}
+              {player.user_id === room?.host_id && (
+                <Crown size={14} className="text-yellow-400 shrink-0" />
+              )}
+            </span>
+            {room?.status !== "lobby" && (
+              <span className="font-bold text-spotify-green">
+                {player.score}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Create or join
+  if (!code) {
+    return (
+      <div className="min-h-screen bg-spotify-black text-white p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-spotify-darkgray p-8 rounded-lg text-center space-y-4">
+              <Plus size={40} className="mx-auto text-spotify-green" />
+              <h2 className="text-2xl font-bold">Host a Room</h2>
+              <p className="text-spotify-lightgray">
+                Play {ROOM_TURNS} of your top tracks against your friends. Share
+                the code and start when everyone is in.
+              </p>
+              <button
+                onClick={createRoom}
+                disabled={creating || !userId}
+                className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creating ? "Preparing tracks..." : "Create Room"}
+              </button>
+            </div>
+
+            <div className="bg-spotify-darkgray p-8 rounded-lg text-center space-y-4">
+              <LogIn size={40} className="mx-auto text-blue-400" />
+              <h2 className="text-2xl font-bold">Join a Room</h2>
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                onKeyPress={(e) => e.key === "Enter" && joinRoom()}
+                placeholder="ROOM CODE"
+                maxLength={5}
+                className="w-full p-4 bg-gray-700 border border-gray-600 rounded-lg text-white text-center text-2xl tracking-widest placeholder-gray-500 focus:border-spotify-green focus:outline-none"
+              />
+              <button
+                onClick={joinRoom}
+                disabled={!joinCode.trim()}
+                className="bg-blue-600 cursor-pointer text-white font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Join
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-red-400 text-center">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-spotify-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-400 text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-white mb-4">{error}</h2>
+          <button
+            onClick={() => navigate("/gotify/rooms")}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform"
+          >
+            Back to Rooms
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!room) {
+    return (
+      <div className="min-h-screen bg-spotify-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+          <p className="text-white">Joining room {code}...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-spotify-black text-white p-4">
+      <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-6">
+          {/* Lobby */}
+          {room.status === "lobby" && (
+            <div className="bg-spotify-darkgray p-8 rounded-lg text-center space-y-6">
+              <p className="text-spotify-lightgray">Room code</p>
+              <div className="text-6xl font-bold tracking-widest text-spotify-green">
+                {room.code}
+              </div>
+              <button
+                onClick={copyLink}
+                className="bg-gray-700 cursor-pointer py-2 px-4 rounded-full hover:bg-gray-600 transition-colors inline-flex items-center gap-2"
+              >
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+                {copied ? "Link copied" : "Copy invite link"}
+              </button>
+              <p className="text-spotify-lightgray">
+                {room.tracks.length} tracks • {room.time_limit}s each • first
+                correct answer earns a bonus
+              </p>
+              {isHost ? (
+                <button
+                  onClick={startGame}
+                  className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+                >
+                  Start Game
+                </button>
+              ) : (
+                <p className="text-yellow-400">
+                  Waiting for the host to start...
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Game */}
+          {room.status === "playing" && track && (
+            <div className="bg-spotify-darkgray p-8 rounded-lg text-center space-y-6">
+              <div className="flex justify-between items-center">
+                <span className="text-spotify-lightgray">
+                  Turn {room.turn + 1}/{room.tracks.length}
+                </span>
+                {phase === "guessing" && (
+                  <span className="flex items-center gap-2 text-red-400 font-bold text-xl">
+                    <Timer size={20} />
+                    {Math.ceil((endsAt - serverNow) / 1000)}
+                  </span>
+                )}
+              </div>
+
+              {phase === "countdown" && (
+                <div className="py-16">
+                  <p className="text-spotify-lightgray mb-2">Get ready...</p>
+                  <div className="text-7xl font-bold text-spotify-green">
+                    {Math.ceil((startsAt - serverNow) / 1000)}
+                  </div>
+                </div>
+              )}
+
+              {phase === "guessing" && (
+                <>
+                  <img
+                    src={track.album.image_url ?? undefined}
+                    alt="Album cover"
+                    className="w-48 h-48 mx-auto rounded-lg shadow-lg"
+                  />
+                  {myGuess ? (
+                    <div className="p-4 bg-gray-700 rounded-lg">
+                      <p className={`font-bold ${resultStyle[myGuess.result]}`}>
+                        {myGuess.result === "correct"
+                          ? `🎉 Correct${
+                              myGuess.order ? ` (#${myGuess.order})` : ""
+                            }!`
+                          : myGuess.result === "partial"
+                          ? "⚡ Close!"
+                          : "❌ Wrong"}
+                      </p>
+                      <p className="text-sm text-spotify-lightgray mt-1">
+                        Waiting for the others...
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4 max-w-md mx-auto">
+                      <input
+                        type="text"
+                        value={guess}
+                        onChange={(e) => setGuess(e.target.value)}
+                        onKeyPress={(e) => e.key === "Enter" && submitGuess()}
+                        placeholder="Enter song name and artist..."
+                        className="w-full p-4 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:border-spotify-green focus:outline-none text-lg"
+                        autoFocus
+                      />
+                      <button
+                        onClick={submitGuess}
+                        disabled={!guess.trim() || submitting}
+                        className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Submit Guess
+                      </button>
+                      <p className="text-xs text-spotify-lightgray">
+                        One guess per turn
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {phase === "reveal" && (
+                <div className="space-y-6">
+                  <div className="bg-spotify-black p-6 rounded-lg border border-spotify-green">
+                    <p className="text-xl font-bold">{track.name}</p>
+                    <p className="text-lg text-spotify-lightgray">
+                      by {track.artists[0].name}
+                    </p>
+                  </div>
+                  <div className="space-y-2 text-left">
+                    {guesses.length === 0 && (
+                      <p className="text-center text-spotify-lightgray">
+                        Nobody guessed this one.
+                      </p>
+                    )}
+                    {guesses.map((roomGuess) => (
+                      <div
+                        key={roomGuess.user_id}
+                        className="flex items-center gap-3 p-3 bg-gray-700 rounded-lg"
+                      >
+                        <span className="flex-1 truncate">
+                          <span className="font-bold">
+                            {roomGuess.display_name}
+                          </span>
+                          <span className="text-spotify-lightgray">
+                            {" "}
+                            "{roomGuess.guess}"
+                          </span>
+                        </span>
+                        <span
+                          className={`font-bold ${
+                            resultStyle[roomGuess.result]
+                          }`}
+                        >
+                          {roomGuess.points > 0 ? "+" : ""}
+                          {roomGuess.points}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-spotify-lightgray">
+                    Next track in a moment...
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Final standings */}
+          {room.status === "finished" && (
+            <div className="bg-spotify-darkgray p-8 rounded-lg text-center space-y-6">
+              <h2 className="text-4xl font-bold text-spotify-green">
+                Game Over!
+              </h2>
+              {players[0] && (
+                <p className="text-2xl">
+                  🏆 {players[0].display_name} wins with {players[0].score}{" "}
+                  points
+                </p>
+              )}
+              <button
+                onClick={() => navigate("/gotify/rooms")}
+                className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+              >
+                New Room
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={leaveRoom}
+            className="text-spotify-lightgray hover:text-white cursor-pointer flex items-center gap-2"
+          >
+            <LogOut size={16} />
+            Leave room
+          </button>
+        </div>
+
+        {renderScoreboard()}
+      </div>
+    </div>
+  );
+};
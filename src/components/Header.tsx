@@ -8,8 +8,10 @@ import {
   TrendingUp,
   Gamepad2,
   Trophy,
+  History,
   User,
   ChevronDown,
+  Users,
 } from "lucide-react";
 
 interface HeaderProps {
@@ -51,11 +53,21 @@ export const Header: React.FC<HeaderProps> = ({
       label: "Gotify",
       icon: <Gamepad2 size={18} />,
     },
+    {
+      path: "/gotify/history",
+      label: "My Games",
+      icon: <History size={18} />,
+    },
     {
       path: "/leaderboard",
       label: "Leaderboard",
       icon: <Trophy size={18} />,
     },
+    {
+      path: "/friends",
+      label: "Friends",
+      icon: <Users size={18} />,
+    },
   ];
 
   const isCurrentPath = (path: string) => location.pathname === path;
@@ -1,28 +1,288 @@
-import React, { useState, useEffect } from "react";
-import { Trophy, Medal, Award, RefreshCw, Calendar } from "lucide-react";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Trophy,
+  Medal,
+  Award,
+  RefreshCw,
+  Calendar,
+  CalendarDays,
+  User,
+  LocateFixed,
+  ArrowUp,
+  ArrowDown,
+  Globe,
+  Users,
+  UserPlus,
+  Gauge,
+} from "lucide-react";
 import { backendApi } from "../services/api";
-import type { LeaderboardEntry } from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  boardLabels,
+  difficultyOptions,
+  gameLabels,
+  parseLeaderboardFilters,
+  timeWindowLabels,
+  toLeaderboardQuery,
+  toSearchParams,
+} from "../services/leaderboardFilters";
+import type {
+  LeaderboardBoard,
+  LeaderboardFilters,
+  LeaderboardGame,
+  TimeWindow,
+} from "../services/leaderboardFilters";
+import { isProvisional, ratingTier, ratingTiers } from "../services/rating";
+import type { LeaderboardEntry, RatedPlayer } from "../types";
+
+const PAGE_SIZE = 25;
+
+type PlayerRank = NonNullable<
+  Awaited<ReturnType<typeof backendApi.getPlayerRank>>
+>;
 
 export const Leaderboard: React.FC = () => {
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  // Every loaded row is live: scrolling grows the listener's range, so a
+  // new score can't push a row out of one page and miss the next
+  const [liveEntries, setLiveEntries] = useState<LeaderboardEntry[]>([]);
+  // The Friends board is small, so it is loaded in one go
+  const [friendEntries, setFriendEntries] = useState<LeaderboardEntry[]>([]);
+  // The Rated board lists players, not scores
+  const [ratedPlayers, setRatedPlayers] = useState<RatedPlayer[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Live updates: entries that just arrived and how far rows moved
+  const [newEntryIds, setNewEntryIds] = useState<string[]>([]);
+  const [rankChanges, setRankChanges] = useState<Record<string, number>>({});
+  const previousRanksRef = useRef(new Map<string, number>());
+  const timeoutsRef = useRef<number[]>([]);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const rowTopsRef = useRef(new Map<string, number>());
+  // "Jump to my position": undefined until asked, null if unranked
+  const [myRank, setMyRank] = useState<PlayerRank | null | undefined>();
+  const [myRankLoading, setMyRankLoading] = useState(false);
+  const [myRankError, setMyRankError] = useState(false);
+  // Scores on the whole board, not just the rows loaded so far
+  const [boardTotal, setBoardTotal] = useState<{
+    filterKey: string;
+    count: number | null;
+  } | null>(null);
+  // Filters live in the URL so a filtered board can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => parseLeaderboardFilters(searchParams),
+    [searchParams]
+  );
+  const filterKey = JSON.stringify(toSearchParams(filters));
+  // Infinite scroll: pages shown on the current board
+  const [loadedPages, setLoadedPages] = useState({ filterKey, count: 1 });
+  const liveLimit =
+    PAGE_SIZE * (loadedPages.filterKey === filterKey ? loadedPages.count : 1);
+  const userId = user?.id;
+  // Entry to point out, e.g. the score a Gotify game just saved
+  const highlightId = searchParams.get("highlight");
+  const scrolledToHighlightRef = useRef(false);
 
+  const rated = filters.board === "rated";
+  const leaderboard = rated
+    ? []
+    : filters.friends
+    ? friendEntries
+    : liveEntries;
+  const hasMore =
+    !rated && !filters.friends && liveEntries.length === liveLimit;
+
+  const updateFilters = (changes: Partial<LeaderboardFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }));
+  };
+
+  // Show a temporary state, cleared again after a few seconds
+  const flash = (apply: () => void, clear: () => void, duration: number) => {
+    apply();
+    timeoutsRef.current.push(window.setTimeout(clear, duration));
+  };
+
+  useEffect(
+    () => () => timeoutsRef.current.forEach((id) => clearTimeout(id)),
+    []
+  );
+
+  // A different board starts over
   useEffect(() => {
-    fetchLeaderboard();
-  }, []);
-  const fetchLeaderboard = async () => {
-    try {
-      setLoading(true);
-      setError(null);
+    setLoading(true);
+    setError(null);
+    setMyRank(undefined);
+    setMyRankError(false);
+    previousRanksRef.current = new Map();
+  }, [filterKey, retryCount]);
+
+  useEffect(() => {
+    if (rated || filters.friends) return;
+    let cancelled = false;
+    backendApi.countLeaderboard(toLeaderboardQuery(filters)).then((count) => {
+      if (!cancelled) setBoardTotal({ filterKey, count });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, filterKey, rated, retryCount]);
 
-      const response = await backendApi.getLeaderboard("gotify");
-      setLeaderboard(response.leaderboard || []);
+  useEffect(() => {
+    if (rated) {
+      if (filters.friends && !userId) return;
+      let cancelled = false;
+      backendApi
+        .getRatedPlayers(filters.friends ? userId : undefined)
+        .then((players) => {
+          if (cancelled) return;
+          setRatedPlayers(players);
+          setLoading(false);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    if (filters.friends) {
+      if (!userId) return;
+      let cancelled = false;
+      backendApi
+        .getFriendsLeaderboard(toLeaderboardQuery(filters), userId)
+        .then((entries) => {
+          if (cancelled) return;
+          setFriendEntries(entries);
+          setLoading(false);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const unsubscribe = backendApi.subscribeToLeaderboard(
+      toLeaderboardQuery(filters),
+      liveLimit,
+      (update) => {
+        const previousRanks = previousRanksRef.current;
+        const moved: Record<string, number> = {};
+        update.entries.forEach((entry, index) => {
+          const previous = previousRanks.get(entry.id);
+          if (previous !== undefined && previous !== index) {
+            moved[entry.id] = previous - index;
+          }
+        });
+        previousRanksRef.current = new Map(
+          update.entries.map((entry, index) => [entry.id, index])
+        );
+
+        setLiveEntries(update.entries);
+        setLoading(false);
+        setLoadingMore(false);
+
+        if (Object.keys(moved).length > 0) {
+          flash(
+            () => setRankChanges(moved),
+            () => setRankChanges({}),
+            4000
+          );
+        }
+        if (update.added.length > 0) {
+          flash(
+            () => setNewEntryIds((prev) => [...prev, ...update.added]),
+            () =>
+              setNewEntryIds((prev) =>
+                prev.filter((id) => !update.added.includes(id))
+              ),
+            6000
+          );
+        }
+      },
+      () => {
+        setError("Failed to load leaderboard. Please try again.");
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    );
+    return unsubscribe;
+  }, [filters, rated, userId, liveLimit, retryCount]);
+
+  // Slide rows that changed rank from their old position to the new one
+  useLayoutEffect(() => {
+    const tops = new Map<string, number>();
+    rowRefs.current.forEach((row, id) => {
+      const top = row.offsetTop;
+      const previous = rowTopsRef.current.get(id);
+      if (previous !== undefined && previous !== top) {
+        row.animate(
+          [
+            { transform: `translateY(${previous - top}px)` },
+            { transform: "translateY(0)" },
+          ],
+          { duration: 500, easing: "ease-out" }
+        );
+      }
+      tops.set(id, top);
+    });
+    rowTopsRef.current = tops;
+  }, [liveEntries]);
+
+  // Bring the highlighted entry into view once it has loaded
+  useEffect(() => {
+    if (!highlightId || scrolledToHighlightRef.current) return;
+    const row = rowRefs.current.get(highlightId);
+    if (!row) return;
+    scrolledToHighlightRef.current = true;
+    row.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [liveEntries, highlightId]);
+
+  // Listen to one more page; the listener's next update fills it in
+  const loadMore = useCallback(() => {
+    if (loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    setLoadedPages((prev) => ({
+      filterKey,
+      count: (prev.filterKey === filterKey ? prev.count : 1) + 1,
+    }));
+  }, [loadingMore, hasMore, filterKey]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const jumpToMyPosition = async () => {
+    if (!user) return;
+    setMyRankLoading(true);
+    setMyRankError(false);
+    try {
+      setMyRank(
+        await backendApi.getPlayerRank(toLeaderboardQuery(filters), user.id)
+      );
     } catch (error) {
-      console.error("Error fetching leaderboard:", error);
-      setError("Failed to load leaderboard. Please try again.");
+      console.error("Error finding player position:", error);
+      setMyRank(undefined);
+      setMyRankError(true);
     } finally {
-      setLoading(false);
+      setMyRankLoading(false);
     }
   };
 
@@ -68,6 +328,8 @@ export const Leaderboard: React.FC = () => {
     }
   };
 
+  // The top row is the board's best, but the average and lowest only cover
+  // the rows loaded so far while more can be scrolled in
   const getScoreStats = () => {
     if (leaderboard.length === 0) return null;
 
@@ -77,12 +339,233 @@ export const Leaderboard: React.FC = () => {
     const avgScore = Math.round(
       scores.reduce((a, b) => a + b, 0) / scores.length
     );
+    const total = filters.friends
+      ? leaderboard.length
+      : boardTotal?.filterKey === filterKey
+      ? boardTotal.count
+      : null;
+    const scope = hasMore ? ` (top ${leaderboard.length})` : "";
 
-    return { maxScore, minScore, avgScore };
+    return { maxScore, minScore, avgScore, total, scope };
   };
 
   const stats = getScoreStats();
 
+  // One row of the board; the player's own entries are outlined and new
+  // scores glow. Rows of the main list are tracked for the move animation.
+  const renderEntry = (
+    entry: LeaderboardEntry,
+    rank: number,
+    tracked = false
+  ) => {
+    const isOwn = !!user && entry.user_id === user.id;
+    const isNew = newEntryIds.includes(entry.id) || entry.id === highlightId;
+    const rankChange = rankChanges[entry.id];
+
+    return (
+      <div
+        key={entry.id}
+        ref={
+          tracked
+            ? (row) => {
+                if (row) rowRefs.current.set(entry.id, row);
+                else rowRefs.current.delete(entry.id);
+              }
+            : undefined
+        }
+        className={`flex items-center p-4 rounded-lg transition-all ${getRankStyle(
+          rank
+        )} ${isOwn ? "ring-2 ring-spotify-green" : ""} ${
+          isNew ? "animate-new-entry" : ""
+        } ${isNew && isOwn ? "ring-4 scale-[1.02]" : ""}`}
+      >
+        {/* Rank */}
+        <div className="relative flex items-center justify-center w-12 h-12 mr-4">
+          {getRankIcon(rank)}
+          {rankChange !== undefined && (
+            <span
+              className={`absolute -top-2 -right-2 text-xs font-bold flex items-center ${
+                rankChange > 0 ? "text-spotify-green" : "text-red-400"
+              }`}
+            >
+              {rankChange > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+              {Math.abs(rankChange)}
+            </span>
+          )}
+        </div>{" "}
+        {/* Player Info */}
+        {entry.avatar_url ? (
+          <img
+            src={entry.avatar_url}
+            alt=""
+            className="w-10 h-10 rounded-full mr-3 object-cover"
+          />
+        ) : (
+          <div className="w-10 h-10 rounded-full mr-3 bg-gray-600 flex items-center justify-center">
+            <User size={20} />
+          </div>
+        )}
+        <div className="flex-1">
+          <div className="font-bold text-lg flex items-center gap-2">
+            {/* Entries the migration couldn't match have no profile */}
+            {entry.user_id ? (
+              <button
+                onClick={() => navigate(`/player/${entry.user_id}`)}
+                className="cursor-pointer hover:underline text-left"
+              >
+                {entry.player_name}
+              </button>
+            ) : (
+              entry.player_name
+            )}
+            {isNew && (
+              <span className="bg-spotify-green text-black text-xs font-bold px-2 py-0.5 rounded-full">
+                {isOwn ? "Your new score" : "New"}
+              </span>
+            )}
+          </div>
+          <div
+            className={`text-sm flex items-center gap-1 ${
+              rank <= 3 ? "text-black opacity-75" : "text-spotify-lightgray"
+            }`}
+          >
+            <Calendar size={14} />
+            {formatDate(entry.created_at)}
+          </div>
+        </div>
+        {/* Score */}
+        <div className="text-right">
+          <div className="text-2xl font-bold">{entry.score}</div>
+          <div
+            className={`text-sm ${
+              rank <= 3 ? "text-black opacity-75" : "text-spotify-lightgray"
+            }`}
+          >
+            points
+          </div>
+        </div>
+        {/* Score Bar */}
+        <div className="ml-4 w-24">
+          <div
+            className={`h-2 rounded-full ${
+              rank <= 3 ? "bg-black bg-opacity-25" : "bg-gray-600"
+            }`}
+          >
+            <div
+              className={`h-full rounded-full ${
+                rank === 1
+                  ? "bg-white"
+                  : rank === 2
+                  ? "bg-black"
+                  : rank === 3
+                  ? "bg-white"
+                  : "bg-spotify-green"
+              }`}
+              style={{
+                width: `${stats ? (entry.score / stats.maxScore) * 100 : 100}%`,
+              }}
+            ></div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Players by skill rating, with the tiers it is split into
+  const renderRatedBoard = () => (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-wrap justify-center gap-2 mb-6">
+        {[...ratingTiers].reverse().map((tier) => (
+          <span
+            key={tier.name}
+            className={`px-3 py-1 rounded-full text-sm font-bold ${tier.className}`}
+          >
+            {tier.name}
+            {Number.isFinite(tier.min) ? ` ${tier.min}+` : ""}
+          </span>
+        ))}
+      </div>
+      {ratedPlayers.length === 0 ? (
+        <div className="bg-spotify-darkgray p-8 rounded-lg text-center text-spotify-lightgray">
+          Nobody is rated yet. Every Gotify game you finish updates your rating.
+        </div>
+      ) : (
+        ratedPlayers.map((player, index) => {
+          const tier = ratingTier(player.rating);
+          const provisional = isProvisional(player.rating_deviation);
+          return (
+            <div
+              key={player.id}
+              className={`flex items-center p-4 rounded-lg ${getRankStyle(
+                index + 1
+              )} ${
+                user && player.id === user.id ? "ring-2 ring-spotify-green" : ""
+              }`}
+            >
+              <div className="flex items-center justify-center w-12 h-12 mr-4">
+                {getRankIcon(index + 1)}
+              </div>
+              {player.avatar_url ? (
+                <img
+                  src={player.avatar_url}
+                  alt=""
+                  className="w-10 h-10 rounded-full mr-3 object-cover"
+                />
+              ) : (
+                <div className="w-10 h-10 rounded-full mr-3 bg-gray-600 flex items-center justify-center">
+                  <User size={20} />
+                </div>
+              )}
+              <div className="flex-1">
+                <button
+                  onClick={() => navigate(`/player/${player.id}`)}
+                  className="font-bold text-lg cursor-pointer hover:underline text-left"
+                >
+                  {player.display_name}
+                </button>
+                <div
+                  className={`text-sm ${
+                    index < 3
+                      ? "text-black opacity-75"
+                      : "text-spotify-lightgray"
+                  }`}
+                >
+                  {player.rated_games} rated game
+                  {player.rated_games === 1 ? "" : "s"}
+                </div>
+              </div>
+              <span
+                className={`px-3 py-1 rounded-full text-sm font-bold mr-4 ${tier.className}`}
+              >
+                {tier.name}
+              </span>
+              <div className="text-right">
+                <div className="text-2xl font-bold">
+                  {player.rating}
+                  {/* Still settling: too few recent games */}
+                  {provisional && (
+                    <span title="Provisional rating" className="opacity-75">
+                      ?
+                    </span>
+                  )}
+                </div>
+                <div
+                  className={`text-sm ${
+                    index < 3
+                      ? "text-black opacity-75"
+                      : "text-spotify-lightgray"
+                  }`}
+                >
+                  rating
+                </div>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-spotify-black flex items-center justify-center">
@@ -102,7 +585,7 @@ export const Leaderboard: React.FC = () => {
           <h2 className="text-2xl font-bold text-white mb-4">Oops!</h2>
           <p className="text-spotify-lightgray mb-6">{error}</p>
           <button
-            onClick={fetchLeaderboard}
+            onClick={() => setRetryCount((count) => count + 1)}
             className="bg-spotify-green text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2 mx-auto"
           >
             <RefreshCw size={20} />
@@ -116,15 +599,116 @@ export const Leaderboard: React.FC = () => {
   return (
     <div className="min-h-screen bg-spotify-black text-white p-4">
       <div className="max-w-4xl mx-auto">
+        {/* Game Tabs */}
+        <div className="flex justify-center gap-3 mb-4">
+          {(Object.keys(gameLabels) as LeaderboardGame[]).map((game) => (
+            <button
+              key={game}
+              onClick={() =>
+                updateFilters({ game, difficulty: null, board: "regular" })
+              }
+              className={`px-4 py-2 rounded-full cursor-pointer ${
+                filters.game === game
+                  ? "bg-spotify-green text-black font-bold"
+                  : "bg-spotify-darkgray hover:bg-gray-700"
+              }`}
+            >
+              {gameLabels[game]}
+            </button>
+          ))}
+        </div>
+
+        {/* Everyone or Friends */}
+        <div className="flex justify-center gap-3 mb-4">
+          {[false, true].map((friends) => (
+            <button
+              key={String(friends)}
+              onClick={() => updateFilters({ friends })}
+              className={`px-4 py-2 rounded-full cursor-pointer flex items-center gap-2 ${
+                filters.friends === friends
+                  ? "bg-white text-black font-bold"
+                  : "bg-spotify-darkgray hover:bg-gray-700"
+              }`}
+            >
+              {friends ? <Users size={16} /> : <Globe size={16} />}
+              {friends ? "Friends" : "Everyone"}
+            </button>
+          ))}
+        </div>
+
+        {/* Board Selection */}
+        {filters.game === "gotify" && (
+          <div className="flex justify-center gap-3 mb-4">
+            {(Object.keys(boardLabels) as LeaderboardBoard[]).map((board) => (
+              <button
+                key={board}
+                onClick={() => updateFilters({ board })}
+                className={`px-4 py-2 rounded-full cursor-pointer flex items-center gap-2 ${
+                  filters.board === board
+                    ? "bg-spotify-green text-black font-bold"
+                    : "bg-spotify-darkgray hover:bg-gray-700"
+                }`}
+              >
+                {board === "daily" ? (
+                  <CalendarDays size={16} />
+                ) : board === "rated" ? (
+                  <Gauge size={16} />
+                ) : (
+                  <Trophy size={16} />
+                )}
+                {boardLabels[board]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Difficulty and Time Window (the daily has fixed rules and date,
+            ratings cover every game) */}
+        {filters.board === "regular" && (
+          <div className="flex flex-wrap justify-center items-center gap-3 mb-8">
+            {filters.game === "gotify" && (
+              <select
+                value={filters.difficulty ?? ""}
+                onChange={(e) =>
+                  updateFilters({ difficulty: e.target.value || null })
+                }
+                className="bg-spotify-darkgray text-white px-4 py-2 rounded-full cursor-pointer capitalize"
+              >
+                <option value="">All difficulties</option>
+                {difficultyOptions.map((difficulty) => (
+                  <option key={difficulty} value={difficulty}>
+                    {difficulty.replace("_", " ")}
+                  </option>
+                ))}
+              </select>
+            )}
+            {(Object.keys(timeWindowLabels) as TimeWindow[]).map(
+              (timeWindow) => (
+                <button
+                  key={timeWindow}
+                  onClick={() => updateFilters({ window: timeWindow })}
+                  className={`px-4 py-2 rounded-full cursor-pointer ${
+                    filters.window === timeWindow
+                      ? "bg-white text-black font-bold"
+                      : "bg-spotify-darkgray hover:bg-gray-700"
+                  }`}
+                >
+                  {timeWindowLabels[timeWindow]}
+                </button>
+              )
+            )}
+          </div>
+        )}
+
         {/* Stats Overview */}
         {stats && (
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
             <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
               <div className="text-2xl font-bold text-spotify-green">
-                {leaderboard.length}
+                {stats.total ?? "–"}
               </div>
               <div className="text-sm text-spotify-lightgray">
-                Total Players
+                {filters.friends ? "Total Players" : "Total Scores"}
               </div>
             </div>
             <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
@@ -140,115 +724,121 @@ export const Leaderboard: React.FC = () => {
                 {stats.avgScore}
               </div>
               <div className="text-sm text-spotify-lightgray">
-                Average Score
+                Average Score{stats.scope}
               </div>
             </div>
             <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
               <div className="text-2xl font-bold text-purple-400">
                 {stats.minScore}
               </div>
-              <div className="text-sm text-spotify-lightgray">Lowest Score</div>
+              <div className="text-sm text-spotify-lightgray">
+                Lowest Score{stats.scope}
+              </div>
             </div>
           </div>
         )}
 
-        {/* Refresh Button */}
-        <div className="text-center mb-6">
-          <button
-            onClick={fetchLeaderboard}
-            disabled={loading}
-            className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2 mx-auto disabled:opacity-50"
-          >
-            <RefreshCw size={20} className={loading ? "animate-spin" : ""} />
-            Refresh Leaderboard
-          </button>
-        </div>
+        {/* Rated Board */}
+        {rated && renderRatedBoard()}
+
+        {/* Live Indicator (the Friends board is loaded once) */}
+        {(!rated || filters.friends) && (
+          <div className="flex flex-wrap justify-center items-center gap-3 mb-6">
+            {filters.friends ? (
+              <button
+                onClick={() => navigate("/friends")}
+                className="bg-spotify-darkgray cursor-pointer font-bold py-2 px-6 rounded-full hover:bg-gray-700 transition-colors flex items-center gap-2"
+              >
+                <UserPlus size={20} />
+                Manage Friends
+              </button>
+            ) : (
+              <div className="flex items-center gap-2 text-spotify-lightgray">
+                <span className="w-2 h-2 rounded-full bg-spotify-green animate-pulse"></span>
+                Live
+              </div>
+            )}
+            {user && !filters.friends && (
+              <button
+                onClick={jumpToMyPosition}
+                disabled={myRankLoading}
+                className="bg-spotify-darkgray cursor-pointer font-bold py-2 px-6 rounded-full hover:bg-gray-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                <LocateFixed size={20} />
+                Jump to My Position
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* My Position */}
+        {myRank === null && (
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center mb-6 text-spotify-lightgray">
+            You don't have a score on this board yet.
+          </div>
+        )}
+        {myRankError && (
+          <div className="bg-red-600/20 border border-red-600 p-4 rounded-lg text-center mb-6 text-red-400">
+            Couldn't find your position. Please try again.
+          </div>
+        )}
+        {myRank && (
+          <div className="bg-spotify-darkgray p-4 rounded-lg mb-6">
+            <h3 className="text-xl font-bold mb-4 text-center">
+              You're #{myRank.rank} of {myRank.total}
+            </h3>
+            <div className="space-y-3">
+              {myRank.above.map((entry, index) =>
+                renderEntry(entry, myRank.rank - myRank.above.length + index)
+              )}
+              {renderEntry(myRank.entry, myRank.rank)}
+              {myRank.below.map((entry, index) =>
+                renderEntry(entry, myRank.rank + index + 1)
+              )}
+            </div>
+          </div>
+        )}
 
         {/* Leaderboard */}
-        {leaderboard.length === 0 ? (
+        {rated ? null : leaderboard.length === 0 && filters.friends ? (
+          <div className="bg-spotify-darkgray p-8 rounded-lg text-center">
+            <Users size={48} className="mx-auto text-spotify-lightgray mb-4" />
+            <h2 className="text-2xl font-bold mb-4">No Friends' Scores Yet</h2>
+            <p className="text-spotify-lightgray mb-6">
+              Add friends with an invite code or find players you follow on
+              Spotify.
+            </p>
+            <button
+              onClick={() => navigate("/friends")}
+              className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+            >
+              Find Friends
+            </button>
+          </div>
+        ) : leaderboard.length === 0 ? (
           <div className="bg-spotify-darkgray p-8 rounded-lg text-center">
             <div className="text-spotify-lightgray text-6xl mb-4">🎵</div>
             <h2 className="text-2xl font-bold mb-4">No Scores Yet</h2>
             <p className="text-spotify-lightgray mb-6">
-              Be the first to play Gotify and set a score!
+              Be the first to play {gameLabels[filters.game]} and set a score!
             </p>
             <button
-              onClick={() => (window.location.href = "/gotify")}
+              onClick={() => (window.location.href = `/${filters.game}`)}
               className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
             >
-              Play Gotify Now
+              Play {gameLabels[filters.game]} Now
             </button>
           </div>
         ) : (
           <div className="space-y-3">
-            {leaderboard.map((entry, index) => {
-              const rank = index + 1;
-              return (
-                <div
-                  key={`${entry.id}-${entry.created_at}-${index}`}
-                  className={`flex items-center p-4 rounded-lg transition-all ${getRankStyle(
-                    rank
-                  )}`}
-                >
-                  {/* Rank */}
-                  <div className="flex items-center justify-center w-12 h-12 mr-4">
-                    {getRankIcon(rank)}
-                  </div>{" "}
-                  {/* Player Info */}
-                  <div className="flex-1">
-                    <div className="font-bold text-lg">{entry.player_name}</div>
-                    <div
-                      className={`text-sm flex items-center gap-1 ${
-                        rank <= 3
-                          ? "text-black opacity-75"
-                          : "text-spotify-lightgray"
-                      }`}
-                    >
-                      <Calendar size={14} />
-                      {formatDate(entry.created_at)}
-                    </div>
-                  </div>
-                  {/* Score */}
-                  <div className="text-right">
-                    <div className="text-2xl font-bold">{entry.score}</div>
-                    <div
-                      className={`text-sm ${
-                        rank <= 3
-                          ? "text-black opacity-75"
-                          : "text-spotify-lightgray"
-                      }`}
-                    >
-                      points
-                    </div>
-                  </div>
-                  {/* Score Bar */}
-                  <div className="ml-4 w-24">
-                    <div
-                      className={`h-2 rounded-full ${
-                        rank <= 3 ? "bg-black bg-opacity-25" : "bg-gray-600"
-                      }`}
-                    >
-                      <div
-                        className={`h-full rounded-full ${
-                          rank === 1
-                            ? "bg-white"
-                            : rank === 2
-                            ? "bg-black"
-                            : rank === 3
-                            ? "bg-white"
-                            : "bg-spotify-green"
-                        }`}
-                        style={{
-                          width: `${
-                            stats ? (entry.score / stats.maxScore) * 100 : 100
-                          }%`,
-                        }}
-                      ></div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
+            {leaderboard.map((entry, index) =>
+              renderEntry(entry, index + 1, true)
+            )}
+            {/* Reaching this loads the next page */}
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-spotify-green mx-auto"></div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Calendar,
+  ChevronDown,
+  Gamepad2,
+  Target,
+  TrendingUp,
+  User,
+} from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { firestoreApi } from "../services/firestore";
+import type {
+  FirestoreLeaderboardEntry,
+  GameSession,
+  PlayerProfile as Profile,
+} from "../services/firestore";
+import { gameLabels } from "../services/leaderboardFilters";
+import {
+  accuracyTrend,
+  breakdownBy,
+  gameModeLabel,
+  scoreSeries,
+  summarizeScores,
+} from "../services/playerStats";
+import type { StatBreakdown } from "../services/playerStats";
+import { isProvisional, ratingTier } from "../services/rating";
+import { GameReview } from "./GameReview";
+import { StatChart } from "./StatChart";
+
+const RECENT_GAMES = 10;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Daily challenges are played on medium but get their own row
+const difficultyKey = (entry: FirestoreLeaderboardEntry) =>
+  entry.daily_date ? "daily" : entry.difficulty;
+
+const BreakdownTable: React.FC<{
+  title: string;
+  rows: StatBreakdown[];
+  labelOf: (key: string) => string;
+}> = ({ title, rows, labelOf }) => (
+  <div className="bg-spotify-darkgray p-6 rounded-lg">
+    <h2 className="text-xl font-bold mb-4">{title}</h2>
+    <table className="w-full text-left">
+      <thead className="text-sm text-spotify-lightgray">
+        <tr>
+          <th className="pb-2 font-normal"></th>
+          <th className="pb-2 font-normal text-right">Games</th>
+          <th className="pb-2 font-normal text-right">Best</th>
+          <th className="pb-2 font-normal text-right">Average</th>
+          <th className="pb-2 font-normal text-right">Accuracy</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-t border-gray-700">
+            <td className="py-2 font-bold capitalize">{labelOf(row.key)}</td>
+            <td className="py-2 text-right">{row.games}</td>
+            <td className="py-2 text-right text-yellow-400">{row.bestScore}</td>
+            <td className="py-2 text-right">{row.averageScore}</td>
+            <td className="py-2 text-right">
+              {row.accuracy !== null ? `${row.accuracy}%` : "–"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const PlayerProfile: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [entries, setEntries] = useState<FirestoreLeaderboardEntry[]>([]);
+  const [sessions, setSessions] = useState<GameSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Charts can be narrowed to one difficulty, since scores differ a lot
+  const [chartDifficulty, setChartDifficulty] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    setChartDifficulty(null);
+    Promise.all([
+      firestoreApi.getPlayers([id]),
+      firestoreApi.getPlayerEntries(id),
+      firestoreApi.getGameSessions(id),
+    ]).then(([profiles, loadedEntries, loadedSessions]) => {
+      setProfile(profiles[id] ?? null);
+      setEntries(loadedEntries);
+      setSessions(loadedSessions.slice(0, RECENT_GAMES));
+      setLoading(false);
+    });
+  }, [id]);
+
+  const charted = useMemo(
+    () =>
+      chartDifficulty
+        ? entries.filter((entry) => difficultyKey(entry) === chartDifficulty)
+        : entries,
+    [entries, chartDifficulty]
+  );
+  const byDifficulty = useMemo(
+    () =>
+      breakdownBy(
+        entries.filter((entry) => entry.game_type === "gotify"),
+        difficultyKey
+      ),
+    [entries]
+  );
+  const byGameType = useMemo(
+    () => breakdownBy(entries, (entry) => entry.game_type),
+    [entries]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-spotify-black flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+          <p className="text-white">Loading player...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile && entries.length === 0) {
+    return (
+      <div className="min-h-screen bg-spotify-black text-white p-4">
+        <div className="max-w-4xl mx-auto bg-spotify-darkgray p-8 rounded-lg text-center">
+          <User size={48} className="mx-auto text-spotify-lightgray mb-4" />
+          <h2 className="text-2xl font-bold mb-4">Player Not Found</h2>
+          <button
+            onClick={() => navigate("/leaderboard")}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-3 px-8 rounded-full hover:scale-105 transition-transform"
+          >
+            Back to Leaderboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = summarizeScores(entries);
+  const name =
+    profile?.display_name ?? entries[entries.length - 1]?.player_name ?? id;
+  const difficultyLabel = (key: string) =>
+    key === "daily" ? "Daily challenge" : key.replace("_", " ");
+
+  return (
+    <div className="min-h-screen bg-spotify-black text-white p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Player */}
+        <div className="bg-spotify-darkgray p-6 rounded-lg flex items-center gap-4">
+          {profile?.avatar_url ? (
+            <img
+              src={profile.avatar_url}
+              alt=""
+              className="w-20 h-20 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-20 h-20 rounded-full bg-gray-600 flex items-center justify-center">
+              <User size={40} />
+            </div>
+          )}
+          <div>
+            <h2 className="text-3xl font-bold">{name}</h2>
+            {user?.id === id && (
+              <p className="text-spotify-green text-sm">This is you</p>
+            )}
+          </div>
+          {profile?.rating !== undefined && (
+            <div className="ml-auto text-right">
+              <span
+                className={`px-3 py-1 rounded-full text-sm font-bold ${
+                  ratingTier(profile.rating).className
+                }`}
+              >
+                {ratingTier(profile.rating).name}
+              </span>
+              <div className="text-3xl font-bold mt-2">{profile.rating}</div>
+              <div className="text-sm text-spotify-lightgray">
+                {isProvisional(profile.rating_deviation ?? 350)
+                  ? "Provisional rating"
+                  : "Rating"}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Stats Overview */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-yellow-400">
+              {summary.bestScore}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Best Score</div>
+          </div>
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-purple-400">
+              {summary.bestStreak}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Best Streak</div>
+          </div>
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-spotify-green">
+              {summary.totalGames}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Games Played</div>
+          </div>
+          <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+            <div className="text-2xl font-bold text-blue-400">
+              {summary.averageScore}
+            </div>
+            <div className="text-sm text-spotify-lightgray">Average Score</div>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="bg-spotify-darkgray p-6 rounded-lg space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {[null, ...byDifficulty.map((row) => row.key)].map((key) => (
+              <button
+                key={key ?? "all"}
+                onClick={() => setChartDifficulty(key)}
+                className={`px-3 py-1 rounded-full text-sm cursor-pointer capitalize ${
+                  chartDifficulty === key
+                    ? "bg-spotify-green text-black font-bold"
+                    : "bg-gray-700 hover:bg-gray-600"
+                }`}
+              >
+                {key ? difficultyLabel(key) : "All games"}
+              </button>
+            ))}
+          </div>
+          <div>
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+              <TrendingUp size={20} />
+              Score Over Time
+            </h2>
+            <StatChart points={scoreSeries(charted)} label="Score" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+              <Target size={20} />
+              Accuracy Trend
+            </h2>
+            <StatChart
+              points={accuracyTrend(charted)}
+              label="Accuracy, last 5 games"
+              color="#60a5fa"
+              max={100}
+              formatValue={(value) => `${value}%`}
+            />
+          </div>
+        </div>
+
+        {/* Breakdowns */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <BreakdownTable
+            title="By Difficulty"
+            rows={byDifficulty}
+            labelOf={difficultyLabel}
+          />
+          <BreakdownTable
+            title="By Game"
+            rows={byGameType}
+            labelOf={(key) => gameLabels[key as keyof typeof gameLabels] ?? key}
+          />
+        </div>
+
+        {/* Recent Games */}
+        <div className="space-y-3">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Gamepad2 size={20} />
+            Recent Games
+          </h2>
+          {sessions.length === 0 && (
+            <div className="bg-spotify-darkgray p-6 rounded-lg text-center text-spotify-lightgray">
+              No games recorded yet.
+            </div>
+          )}
+          {sessions.map((session) => {
+            const expanded = expandedId === session.id;
+            const correct = session.turns.filter(
+              (turn) => turn.result === "correct"
+            ).length;
+
+            return (
+              <div key={session.id} className="bg-spotify-darkgray rounded-lg">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : session.id!)}
+                  className="w-full flex items-center gap-4 p-4 cursor-pointer text-left hover:bg-gray-700/50 rounded-lg transition-colors"
+                >
+                  <div className="flex-1">
+                    <div className="font-bold capitalize">
+                      {gameModeLabel(session)}
+                    </div>
+                    <div className="text-sm text-spotify-lightgray flex items-center gap-1">
+                      <Calendar size={14} />
+                      {formatDate(session.created_at as string)}
+                    </div>
+                  </div>
+                  <div className="text-sm text-spotify-lightgray text-right hidden sm:block">
+                    {correct}/{session.turns.length} correct
+                  </div>
+                  <div className="text-2xl font-bold text-spotify-green w-16 text-right">
+                    {session.score}
+                  </div>
+                  <ChevronDown
+                    size={20}
+                    className={`text-spotify-lightgray transition-transform ${
+                      expanded ? "rotate-180" : ""
+                    }`}
+                  />
+                </button>
+
+                {expanded && (
+                  <div className="p-4 pt-0">
+                    <GameReview
+                      tracks={session.tracks}
+                      turns={session.turns}
+                      timeLimit={session.time_limit}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,369 @@
+import React, { useMemo, useState } from "react";
+import { ArrowRight, History, Music, User } from "lucide-react";
+import type { TimeRange } from "../types";
+import type { SnapshotRanking, TopItemsSnapshot } from "../services/firestore";
+import { compareRankings } from "../services/trendStats";
+import { RankingTrends } from "./TrendComparison";
+import type { RankedItem, Subject } from "./TrendComparison";
+
+interface SnapshotTimelineProps {
+  snapshots: TopItemsSnapshot[];
+  timeRangeOptions: { value: TimeRange; label: string }[];
+}
+
+const LINE_COLORS = [
+  "#1db954",
+  "#60a5fa",
+  "#facc15",
+  "#c084fc",
+  "#f87171",
+  "#2dd4bf",
+];
+const MAX_SELECTED = LINE_COLORS.length;
+// Items offered for charting, taken from the latest snapshot
+const PICKER_SIZE = 20;
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+
+const toRankedItems = (
+  ranking: SnapshotRanking,
+  subject: Subject
+): RankedItem[] =>
+  subject === "tracks"
+    ? ranking.tracks.map((track) => ({
+        id: track.id,
+        name: track.name,
+        subtitle: track.artist,
+        imageUrl: track.image_url ?? undefined,
+      }))
+    : ranking.artists.map((artist) => ({
+        id: artist.id,
+        name: artist.name,
+        subtitle: "",
+        imageUrl: artist.image_url ?? undefined,
+      }));
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+export const SnapshotTimeline: React.FC<SnapshotTimelineProps> = ({
+  snapshots,
+  timeRangeOptions,
+}) => {
+  const [range, setRange] = useState<TimeRange>("short_term");
+  const [subject, setSubject] = useState<Subject>("tracks");
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [diffFrom, setDiffFrom] = useState(snapshots[0]?.date ?? "");
+  const [diffTo, setDiffTo] = useState(
+    snapshots[snapshots.length - 1]?.date ?? ""
+  );
+
+  // Ranked items for the current range and subject, one list per snapshot
+  const rankings = useMemo(
+    () =>
+      snapshots.map((snapshot) => ({
+        date: snapshot.date,
+        items: toRankedItems(
+          snapshot.rankings[range] ?? { tracks: [], artists: [] },
+          subject
+        ),
+      })),
+    [snapshots, range, subject]
+  );
+
+  const latestItems = useMemo(
+    () => rankings[rankings.length - 1]?.items ?? [],
+    [rankings]
+  );
+  // Until the user picks, chart the current top few
+  const chartedIds = useMemo(
+    () =>
+      selectedIds ??
+      latestItems.slice(0, MAX_SELECTED - 1).map((item) => item.id),
+    [selectedIds, latestItems]
+  );
+
+  const toggleItem = (id: string) => {
+    if (chartedIds.includes(id)) {
+      setSelectedIds(chartedIds.filter((chartedId) => chartedId !== id));
+    } else if (chartedIds.length < MAX_SELECTED) {
+      setSelectedIds([...chartedIds, id]);
+    }
+  };
+
+  const chart = useMemo(() => {
+    const times = rankings.map((ranking) => Date.parse(ranking.date));
+    const firstTime = Math.min(...times);
+    const span = Math.max(...times) - firstTime || 1;
+    const maxRank = Math.max(
+      10,
+      ...rankings.flatMap((ranking) =>
+        ranking.items
+          .map((item, index) => (chartedIds.includes(item.id) ? index + 1 : 0))
+          .filter(Boolean)
+      )
+    );
+
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (time: number) =>
+      PADDING.left +
+      (rankings.length > 1 ? ((time - firstTime) / span) * plotWidth : 0);
+    const y = (rank: number) =>
+      PADDING.top + ((rank - 1) / Math.max(maxRank - 1, 1)) * plotHeight;
+
+    const lines = chartedIds.map((id, lineIndex) => {
+      const points = rankings.map((ranking, i) => {
+        const index = ranking.items.findIndex((item) => item.id === id);
+        return index >= 0
+          ? {
+              x: x(times[i]),
+              y: y(index + 1),
+              rank: index + 1,
+              date: ranking.date,
+            }
+          : null;
+      });
+      // Break the line wherever the item fell out of the ranking
+      const path = points
+        .map((point, i) =>
+          point ? `${points[i - 1] ? "L" : "M"}${point.x},${point.y}` : ""
+        )
+        .join(" ");
+      const item =
+        rankings
+          .flatMap((ranking) => ranking.items)
+          .find((rankedItem) => rankedItem.id === id) ?? null;
+
+      return {
+        id,
+        name: item?.name ?? id,
+        color: LINE_COLORS[lineIndex % LINE_COLORS.length],
+        path,
+        points,
+      };
+    });
+
+    const rankTicks = [
+      1,
+      ...[5, 10, 20, 30, 40, 50].filter((r) => r <= maxRank),
+    ];
+    const dateTicks = rankings.map((ranking, i) => ({
+      x: x(times[i]),
+      label: formatDate(ranking.date),
+    }));
+
+    return { lines, rankTicks, dateTicks, y };
+  }, [rankings, chartedIds]);
+
+  const diff = useMemo(() => {
+    const from = rankings.find((ranking) => ranking.date === diffFrom);
+    const to = rankings.find((ranking) => ranking.date === diffTo);
+    if (!from || !to) return null;
+    return compareRankings(from.items, to.items, (item) => item.id);
+  }, [rankings, diffFrom, diffTo]);
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="bg-spotify-darkgray p-6 rounded-lg text-center text-spotify-lightgray">
+        No history yet. A snapshot of your top tracks is saved once a day when
+        you visit.
+      </div>
+    );
+  }
+
+  // Label each date tick only when there is room for it
+  const labelEvery = Math.ceil(chart.dateTicks.length / 8);
+
+  return (
+    <div className="space-y-8">
+      {/* Controls */}
+      <div className="bg-spotify-darkgray p-6 rounded-lg">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <h2 className="text-2xl font-bold flex items-center gap-2 mr-auto">
+            <History size={24} />
+            Rank History
+          </h2>
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value as TimeRange)}
+            className="bg-gray-700 rounded-lg px-3 py-2 cursor-pointer"
+          >
+            {timeRangeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {(["tracks", "artists"] as Subject[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => {
+                setSubject(value);
+                setSelectedIds(null);
+              }}
+              className={`px-4 py-2 rounded-lg cursor-pointer flex items-center gap-2 capitalize ${
+                subject === value
+                  ? "bg-spotify-green text-black"
+                  : "bg-gray-700 hover:bg-gray-600"
+              }`}
+            >
+              {value === "tracks" ? <Music size={16} /> : <User size={16} />}
+              {value}
+            </button>
+          ))}
+        </div>
+
+        {snapshots.length < 2 && (
+          <p className="text-sm text-spotify-lightgray mb-4">
+            Only one snapshot so far. Come back on another day to see your ranks
+            move.
+          </p>
+        )}
+
+        {/* Chart: rank 1 at the top */}
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={`Rank history of your top ${subject}`}
+        >
+          {chart.rankTicks.map((rank) => (
+            <g key={rank}>
+              <line
+                x1={PADDING.left}
+                x2={CHART_WIDTH - PADDING.right}
+                y1={chart.y(rank)}
+                y2={chart.y(rank)}
+                stroke="#374151"
+                strokeDasharray="4 4"
+              />
+              <text
+                x={PADDING.left - 8}
+                y={chart.y(rank) + 4}
+                textAnchor="end"
+                fontSize="11"
+                fill="#9ca3af"
+              >
+                #{rank}
+              </text>
+            </g>
+          ))}
+          {chart.dateTicks.map(
+            (tick, i) =>
+              i % labelEvery === 0 && (
+                <text
+                  key={`${tick.label}-${i}`}
+                  x={tick.x}
+                  y={CHART_HEIGHT - 8}
+                  textAnchor="middle"
+                  fontSize="11"
+                  fill="#9ca3af"
+                >
+                  {tick.label}
+                </text>
+              )
+          )}
+          {chart.lines.map((line) => (
+            <g key={line.id}>
+              <path
+                d={line.path}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={2.5}
+                strokeLinejoin="round"
+              />
+              {line.points.map(
+                (point) =>
+                  point && (
+                    <circle
+                      key={point.date}
+                      cx={point.x}
+                      cy={point.y}
+                      r={3.5}
+                      fill={line.color}
+                    >
+                      <title>
+                        {`${line.name}: #${point.rank} on ${formatDate(
+                          point.date
+                        )}`}
+                      </title>
+                    </circle>
+                  )
+              )}
+            </g>
+          ))}
+        </svg>
+
+        {/* Item picker */}
+        <div className="flex flex-wrap gap-2 mt-4">
+          {latestItems.slice(0, PICKER_SIZE).map((item) => {
+            const lineIndex = chartedIds.indexOf(item.id);
+            const charted = lineIndex >= 0;
+            return (
+              <button
+                key={item.id}
+                onClick={() => toggleItem(item.id)}
+                disabled={!charted && chartedIds.length >= MAX_SELECTED}
+                className={`px-3 py-1 rounded-full text-sm cursor-pointer flex items-center gap-2 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  charted ? "bg-gray-600" : "bg-gray-700/50 hover:bg-gray-700"
+                }`}
+              >
+                {charted && (
+                  <span
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: chart.lines[lineIndex].color }}
+                  />
+                )}
+                <span className="truncate max-w-40">{item.name}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Diff between two snapshots */}
+      <div className="bg-spotify-darkgray p-6 rounded-lg">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <h2 className="text-2xl font-bold mr-auto">Compare Snapshots</h2>
+          <select
+            value={diffFrom}
+            onChange={(e) => setDiffFrom(e.target.value)}
+            className="bg-gray-700 rounded-lg px-3 py-2 cursor-pointer"
+          >
+            {snapshots.map((snapshot) => (
+              <option key={snapshot.date} value={snapshot.date}>
+                {formatDate(snapshot.date)}
+              </option>
+            ))}
+          </select>
+          <ArrowRight size={20} className="text-spotify-lightgray" />
+          <select
+            value={diffTo}
+            onChange={(e) => setDiffTo(e.target.value)}
+            className="bg-gray-700 rounded-lg px-3 py-2 cursor-pointer"
+          >
+            {snapshots.map((snapshot) => (
+              <option key={snapshot.date} value={snapshot.date}>
+                {formatDate(snapshot.date)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {!diff || diffFrom === diffTo ? (
+          <p className="text-spotify-lightgray text-center py-8">
+            Pick two different days to see what changed between them.
+          </p>
+        ) : (
+          <RankingTrends comparison={diff} subject={subject} />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from "react";
+import { RefreshCw, LogIn, ExternalLink } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import type { SpotifyApiError } from "../services/spotifyErrors";
+
+interface SpotifyErrorNoticeProps {
+  error: SpotifyApiError;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const errorCopy: Record<
+  SpotifyApiError["kind"],
+  { title: string; description: string }
+> = {
+  unauthorized: {
+    title: "Your Spotify session ended",
+    description: "Reconnect your Spotify account to keep going.",
+  },
+  insufficient_scope: {
+    title: "Missing Spotify permission",
+    description:
+      "Hubify needs an extra permission for this. Reconnect Spotify and approve the requested access.",
+  },
+  premium_required: {
+    title: "Spotify Premium required",
+    description:
+      "Spotify only allows this for Premium accounts. You can still listen in the Spotify app.",
+  },
+  deprecated_endpoint: {
+    title: "Feature no longer available",
+    description:
+      "Spotify has retired the data this feature relies on, so it can't be loaded right now.",
+  },
+  not_found: {
+    title: "Not found",
+    description: "Spotify couldn't find what we asked for.",
+  },
+  rate_limited: {
+    title: "Spotify is busy",
+    description: "We've hit Spotify's rate limit. Wait a moment and retry.",
+  },
+  server_error: {
+    title: "Spotify is having trouble",
+    description:
+      "Spotify returned a server error. Try again in a little while.",
+  },
+  network: {
+    title: "You're offline",
+    description: "We couldn't reach Spotify. Check your connection and retry.",
+  },
+  unknown: {
+    title: "Something went wrong",
+    description: "An unexpected error occurred while talking to Spotify.",
+  },
+};
+
+export const SpotifyErrorNotice: React.FC<SpotifyErrorNoticeProps> = ({
+  error,
+  onRetry,
+  className = "",
+}) => {
+  const { login } = useAuth();
+  const copy = errorCopy[error.kind];
+  const needsReconnect =
+    error.kind === "unauthorized" || error.kind === "insufficient_scope";
+
+  return (
+    <div
+      className={`bg-red-600/20 border border-red-600 rounded-lg p-6 text-center ${className}`}
+    >
+      <h3 className="text-xl font-bold text-red-400 mb-2">{copy.title}</h3>
+      <p className="text-spotify-lightgray mb-1">{copy.description}</p>
+      {error.spotifyMessage && (
+        <p className="text-xs text-gray-400 mb-4">
+          Spotify said: "{error.spotifyMessage}"
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3 justify-center mt-4">
+        {needsReconnect && (
+          <button
+            onClick={login}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2"
+          >
+            <LogIn size={18} />
+            Reconnect Spotify
+          </button>
+        )}
+        {error.kind === "premium_required" && (
+          <button
+            onClick={() => window.open("https://open.spotify.com", "_blank")}
+            className="bg-spotify-green cursor-pointer text-black font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2"
+          >
+            <ExternalLink size={18} />
+            Open Spotify
+          </button>
+        )}
+        {(error.retryable || error.kind === "unknown") && onRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-gray-600 cursor-pointer text-white font-bold py-2 px-6 rounded-full hover:scale-105 transition-transform flex items-center gap-2"
+          >
+            <RefreshCw size={18} />
+            Try Again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
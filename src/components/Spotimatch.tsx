@@ -10,6 +10,8 @@ import {
 } from "lucide-react";
 import type { SpotifyTrack, SpotifyArtist } from "../types";
 import { spotifyApi, previewUrlApi } from "../services/api";
+import { SpotifyApiError, toSpotifyApiError } from "../services/spotifyErrors";
+import { SpotifyErrorNotice } from "./SpotifyErrorNotice";
 import { useAuth } from "../contexts/AuthContext";
 
 interface TrackWithArtist extends SpotifyTrack {
@@ -45,6 +47,9 @@ export const Spotimatch: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [playlistCreated, setPlaylistCreated] = useState(false);
   const [enhancingPreviews, setEnhancingPreviews] = useState(false);
+  const [error, setError] = useState<SpotifyApiError | null>(null);
+  // What "Try Again" repeats: loading recommendations or saving the playlist
+  const [failedAction, setFailedAction] = useState<"load" | "playlist">("load");
 
   useEffect(() => {
     loadTopTrackAndRecommendations();
@@ -74,11 +79,15 @@ export const Spotimatch: React.FC = () => {
   const loadTopTrackAndRecommendations = async () => {
     try {
       setLoading(true);
+      setError(null);
 
       // Get user's top track
       const topTracks = await spotifyApi.getTopTracks("medium_term", 1);
+      // Not an error: the empty state below explains it
       if (topTracks.items.length === 0) {
-        throw new Error("No top tracks found");
+        setTopTrack(null);
+        setRecommendations([]);
+        return;
       }
 
       const track = topTracks.items[0];
@@ -176,6 +185,8 @@ export const Spotimatch: React.FC = () => {
       setCurrentIndex(0);
     } catch (error) {
       console.error("Error loading track and recommendations:", error);
+      setError(toSpotifyApiError(error, "Failed to load your recommendations"));
+      setFailedAction("load");
     } finally {
       setLoading(false);
     }
@@ -382,6 +393,7 @@ export const Spotimatch: React.FC = () => {
   const createPlaylist = async () => {
     if (likedTracks.length === 0 || !user) return;
 
+    setError(null);
     try {
       const playlistName = `Spotimatch - ${new Date().toLocaleDateString()}`;
       const playlist = await spotifyApi.createPlaylist(
@@ -394,6 +406,8 @@ export const Spotimatch: React.FC = () => {
       setPlaylistCreated(true);
     } catch (error) {
       console.error("Error creating playlist:", error);
+      setError(toSpotifyApiError(error, "Failed to create playlist"));
+      setFailedAction("playlist");
     }
   };
 
@@ -416,6 +430,18 @@ export const Spotimatch: React.FC = () => {
     );
   }
 
+  if (error && (!topTrack || recommendations.length === 0)) {
+    return (
+      <div className="min-h-screen bg-spotify-black flex items-center justify-center p-4">
+        <SpotifyErrorNotice
+          error={error}
+          onRetry={refreshRecommendations}
+          className="max-w-lg"
+        />
+      </div>
+    );
+  }
+
   if (!topTrack) {
     return (
       <div className="min-h-screen bg-spotify-black flex items-center justify-center">
@@ -441,6 +467,18 @@ export const Spotimatch: React.FC = () => {
   return (
     <div className="min-h-screen bg-spotify-black text-white p-4">
       <div className="max-w-4xl mx-auto">
+        {error && (
+          <SpotifyErrorNotice
+            error={error}
+            onRetry={
+              failedAction === "playlist"
+                ? createPlaylist
+                : refreshRecommendations
+            }
+            className="mb-8"
+          />
+        )}
+
         {/* Top Track Section */}
         <div className="bg-spotify-darkgray p-6 rounded-lg mb-8">
           <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,134 @@
+import React, { useMemo } from "react";
+import type { StatPoint } from "../services/playerStats";
+
+interface StatChartProps {
+  points: StatPoint[];
+  label: string; // For screen readers and tooltips
+  color?: string;
+  // Fixed top of the scale, e.g. 100 for percentages
+  max?: number;
+  formatValue?: (value: number) => string;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+const DATE_LABELS = 6;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+// One value over time, drawn the same way as the snapshot rank history
+export const StatChart: React.FC<StatChartProps> = ({
+  points,
+  label,
+  color = "#1db954",
+  max,
+  formatValue = String,
+}) => {
+  const chart = useMemo(() => {
+    const times = points.map((point) => Date.parse(point.date));
+    const firstTime = Math.min(...times);
+    const span = Math.max(...times) - firstTime || 1;
+    const top = max ?? Math.max(10, ...points.map((point) => point.value));
+
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (time: number) =>
+      PADDING.left +
+      (points.length > 1 ? ((time - firstTime) / span) * plotWidth : 0);
+    const y = (value: number) =>
+      PADDING.top + plotHeight - (Math.max(0, value) / top) * plotHeight;
+
+    const dots = points.map((point, i) => ({
+      ...point,
+      x: x(times[i]),
+      y: y(point.value),
+    }));
+    const path = dots
+      .map((dot, i) => `${i === 0 ? "M" : "L"}${dot.x},${dot.y}`)
+      .join(" ");
+    const valueTicks = [0, 0.25, 0.5, 0.75, 1].map((share) =>
+      Math.round(top * share)
+    );
+    // Spread a handful of date labels over the games
+    const labelEvery = Math.max(1, Math.ceil(dots.length / DATE_LABELS));
+    const dateTicks = dots.filter((_, i) => i % labelEvery === 0);
+
+    return { dots, path, valueTicks, dateTicks, y };
+  }, [points, max]);
+
+  if (points.length === 0) {
+    return (
+      <div className="text-center text-spotify-lightgray py-8">
+        Not enough games yet.
+      </div>
+    );
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={label}
+    >
+      {chart.valueTicks.map((value) => (
+        <g key={value}>
+          <line
+            x1={PADDING.left}
+            x2={CHART_WIDTH - PADDING.right}
+            y1={chart.y(value)}
+            y2={chart.y(value)}
+            stroke="#374151"
+            strokeDasharray="4 4"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={chart.y(value) + 4}
+            textAnchor="end"
+            fontSize="11"
+            fill="#9ca3af"
+          >
+            {formatValue(value)}
+          </text>
+        </g>
+      ))}
+      {chart.dateTicks.map((dot, i) => (
+        <text
+          key={`${dot.date}-${i}`}
+          x={dot.x}
+          y={CHART_HEIGHT - 8}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#9ca3af"
+        >
+          {formatDate(dot.date)}
+        </text>
+      ))}
+      <path
+        d={chart.path}
+        fill="none"
+        stroke={color}
+        strokeWidth={2.5}
+        strokeLinejoin="round"
+      />
+      {chart.dots.map((dot, i) => (
+        <circle
+          key={`${dot.date}-${i}`}
+          cx={dot.x}
+          cy={dot.y}
+          r={3.5}
+          fill={color}
+        >
+          <title>
+            {`${label}: ${formatValue(dot.value)} on ${formatDate(dot.date)}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
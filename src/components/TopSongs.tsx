@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useCallback, useState, useEffect } from "react";
 import {
   Calendar,
   TrendingUp,
@@ -8,24 +8,167 @@ import {
   Pause,
   RefreshCw,
   ExternalLink,
+  Tags,
+  GitCompare,
+  History,
 } from "lucide-react";
-import type { SpotifyTrack, TimeRange } from "../types";
-import { previewUrlApi, spotifyApi } from "../services/api";
-
-interface TopSongsStats {
-  totalTracks: number;
-  uniqueArtists: number;
-  topGenres: string[];
-  averagePopularity: number;
-  mostPopularTrack: SpotifyTrack | null;
-  leastPopularTrack: SpotifyTrack | null;
-}
+import type {
+  GenreWeight,
+  SpotifyTrack,
+  TimeRange,
+  TopSongsStats,
+} from "../types";
+import { collectItems, previewUrlApi, spotifyApi } from "../services/api";
+import { SpotifyApiError, toSpotifyApiError } from "../services/spotifyErrors";
+import { aggregateGenres } from "../services/genreStats";
+import { firestoreApi } from "../services/firestore";
+import type { SnapshotRanking, TopItemsSnapshot } from "../services/firestore";
+import { useAuth } from "../contexts/AuthContext";
+import { SpotifyErrorNotice } from "./SpotifyErrorNotice";
+import { TrendComparison } from "./TrendComparison";
+import type { RangeSnapshot } from "./TrendComparison";
+import { SnapshotTimeline } from "./SnapshotTimeline";
+
+// Upper bound on tracks pulled across pages for one time range
+const MAX_TOP_TRACKS = 200;
+const MAX_TOP_ARTISTS = 50;
+const GENRES_SHOWN = 8;
+// Entries per list kept in each daily Firestore snapshot
+const SNAPSHOT_SIZE = 50;
+
+type ViewMode = "single" | "compare" | "history";
+
+const toSnapshotRanking = ({
+  tracks,
+  artists,
+}: RangeSnapshot): SnapshotRanking => ({
+  tracks: tracks.slice(0, SNAPSHOT_SIZE).map((track) => ({
+    id: track.id,
+    name: track.name,
+    artist: track.artists.map((a) => a.name).join(", "),
+    image_url: track.album.images[track.album.images.length - 1]?.url ?? null,
+  })),
+  artists: artists.slice(0, SNAPSHOT_SIZE).map((artist) => ({
+    id: artist.id,
+    name: artist.name,
+    image_url: artist.images?.[artist.images.length - 1]?.url ?? null,
+  })),
+});
+
+const timeRangeOptions: {
+  value: TimeRange;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "short_term",
+    label: "Last 4 Weeks",
+    description: "Your recent favorites",
+  },
+  {
+    value: "medium_term",
+    label: "Last 6 Months",
+    description: "Your current taste",
+  },
+  {
+    value: "long_term",
+    label: "All Time",
+    description: "Your overall favorites",
+  },
+];
+
+// Follow pagination past the 50-per-request cap. Top artists only
+// feed the genre breakdown, so a failure there is not fatal.
+const fetchRangeData = async (range: TimeRange) => {
+  const [rangeTracks, rangeArtists] = await Promise.all([
+    collectItems(spotifyApi.iterateTopTracks(range), MAX_TOP_TRACKS),
+    collectItems(spotifyApi.iterateTopArtists(range), MAX_TOP_ARTISTS).catch(
+      (error) => {
+        console.error("Error loading top artists:", error);
+        return [];
+      }
+    ),
+  ]);
+  return { tracks: rangeTracks, artists: rangeArtists };
+};
+
+const calculateStats = (
+  tracks: SpotifyTrack[],
+  genres: GenreWeight[]
+): TopSongsStats => {
+  if (tracks.length === 0) {
+    return {
+      totalTracks: 0,
+      uniqueArtists: 0,
+      topGenres: [],
+      averagePopularity: 0,
+      mostPopularTrack: null,
+      leastPopularTrack: null,
+    };
+  }
+
+  // Get unique artists
+  const artistSet = new Set(tracks.map((track) => track.artists[0].id));
+  const uniqueArtists = artistSet.size;
+
+  // Calculate average popularity
+  const totalPopularity = tracks.reduce(
+    (sum, track) => sum + track.popularity,
+    0
+  );
+  const averagePopularity = Math.round(totalPopularity / tracks.length);
+
+  // Find most and least popular tracks
+  const sortedByPopularity = [...tracks].sort(
+    (a, b) => b.popularity - a.popularity
+  );
+  const mostPopularTrack = sortedByPopularity[0];
+  const leastPopularTrack = sortedByPopularity[sortedByPopularity.length - 1];
+
+  // Genres come from the ranked top artists, not the tracks
+  const topGenres = genres.slice(0, 5).map((entry) => entry.genre);
+
+  return {
+    totalTracks: tracks.length,
+    uniqueArtists,
+    topGenres,
+    averagePopularity,
+    mostPopularTrack,
+    leastPopularTrack,
+  };
+};
+
+// Every time range at once, for the comparison view and daily snapshots
+const fetchAllRanges = async (): Promise<Record<TimeRange, RangeSnapshot>> => {
+  const entries = await Promise.all(
+    timeRangeOptions.map(async (option) => {
+      const data = await fetchRangeData(option.value);
+      const snapshot: RangeSnapshot = {
+        ...data,
+        stats: calculateStats(data.tracks, aggregateGenres(data.artists)),
+      };
+      return [option.value, snapshot] as const;
+    })
+  );
+  return Object.fromEntries(entries) as Record<TimeRange, RangeSnapshot>;
+};
 
 export const TopSongs: React.FC = () => {
+  const { user } = useAuth();
   const [timeRange, setTimeRange] = useState<TimeRange>("medium_term");
   const [tracks, setTracks] = useState<SpotifyTrack[]>([]);
   const [stats, setStats] = useState<TopSongsStats | null>(null);
+  const [genreBreakdown, setGenreBreakdown] = useState<GenreWeight[]>([]);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  const [comparisonLoading, setComparisonLoading] = useState(false);
+  const [rangeSnapshots, setRangeSnapshots] = useState<Record<
+    TimeRange,
+    RangeSnapshot
+  > | null>(null);
+  const [history, setHistory] = useState<TopItemsSnapshot[] | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<SpotifyApiError | null>(null);
   const [enhancingPreviews, setEnhancingPreviews] = useState(false);
   const [enhancementProgress, setEnhancementProgress] = useState({
     processed: 0,
@@ -43,28 +186,6 @@ export const TopSongs: React.FC = () => {
     };
   }>({});
 
-  const timeRangeOptions: {
-    value: TimeRange;
-    label: string;
-    description: string;
-  }[] = [
-    {
-      value: "short_term",
-      label: "Last 4 Weeks",
-      description: "Your recent favorites",
-    },
-    {
-      value: "medium_term",
-      label: "Last 6 Months",
-      description: "Your current taste",
-    },
-    {
-      value: "long_term",
-      label: "All Time",
-      description: "Your overall favorites",
-    },
-  ];
-
   useEffect(() => {
     loadTopSongs();
   }, [timeRange]);
@@ -79,68 +200,95 @@ export const TopSongs: React.FC = () => {
     };
   }, [audio]);
 
+  // Load every time range for the comparison view
+  const loadComparison = async () => {
+    try {
+      setComparisonLoading(true);
+      setError(null);
+      setRangeSnapshots(await fetchAllRanges());
+    } catch (error) {
+      console.error("Error loading comparison:", error);
+      setError(toSpotifyApiError(error, "Failed to compare time periods"));
+    } finally {
+      setComparisonLoading(false);
+    }
+  };
+
+  const userId = user?.id;
+  const loadHistory = useCallback(async () => {
+    if (!userId) return;
+    setHistoryLoading(true);
+    setHistory(await firestoreApi.getSnapshots(userId));
+    setHistoryLoading(false);
+  }, [userId]);
+
+  // Spotify only exposes rolling windows, so keep our own daily record
+  const recordDailySnapshot = useCallback(async () => {
+    if (!userId) return;
+    try {
+      if (await firestoreApi.hasSnapshotForToday(userId)) return;
+
+      const allRanges = await fetchAllRanges();
+      setRangeSnapshots(allRanges);
+
+      const rankings = Object.fromEntries(
+        Object.entries(allRanges).map(([range, data]) => [
+          range,
+          toSnapshotRanking(data),
+        ])
+      ) as Record<TimeRange, SnapshotRanking>;
+      await firestoreApi.saveDailySnapshot(userId, rankings);
+      // Reload the timeline to include today
+      setHistory(null);
+    } catch (error) {
+      console.error("Error recording daily snapshot:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    recordDailySnapshot();
+  }, [recordDailySnapshot]);
+
+  useEffect(() => {
+    if (viewMode === "history" && history === null && !historyLoading) {
+      loadHistory();
+    }
+  }, [viewMode, history, historyLoading, loadHistory]);
+
+  const switchView = (mode: ViewMode) => {
+    const nextMode = viewMode === mode ? "single" : mode;
+    if (nextMode === "compare" && !rangeSnapshots && !comparisonLoading) {
+      loadComparison();
+    }
+    setViewMode(nextMode);
+  };
+
   const loadTopSongs = async () => {
     try {
       setLoading(true);
-      const topTracks = await spotifyApi.getTopTracks(timeRange, 50);
-      setTracks(topTracks.items);
+      setError(null);
+      const { tracks: topTracks, artists: topArtists } = await fetchRangeData(
+        timeRange
+      );
+      setTracks(topTracks);
+
+      const genres = aggregateGenres(topArtists);
+      setGenreBreakdown(genres);
 
       // Calculate stats
-      const calculatedStats = calculateStats(topTracks.items);
+      const calculatedStats = calculateStats(topTracks, genres);
       setStats(calculatedStats);
 
       // Fetch artist images immediately (no delay)
       fetchArtistImages();
     } catch (error) {
       console.error("Error loading top songs:", error);
+      setError(toSpotifyApiError(error, "Failed to load top songs"));
     } finally {
       setLoading(false);
     }
   };
 
-  const calculateStats = (tracks: SpotifyTrack[]): TopSongsStats => {
-    if (tracks.length === 0) {
-      return {
-        totalTracks: 0,
-        uniqueArtists: 0,
-        topGenres: [],
-        averagePopularity: 0,
-        mostPopularTrack: null,
-        leastPopularTrack: null,
-      };
-    }
-
-    // Get unique artists
-    const artistSet = new Set(tracks.map((track) => track.artists[0].id));
-    const uniqueArtists = artistSet.size;
-
-    // Calculate average popularity
-    const totalPopularity = tracks.reduce(
-      (sum, track) => sum + track.popularity,
-      0
-    );
-    const averagePopularity = Math.round(totalPopularity / tracks.length);
-
-    // Find most and least popular tracks
-    const sortedByPopularity = [...tracks].sort(
-      (a, b) => b.popularity - a.popularity
-    );
-    const mostPopularTrack = sortedByPopularity[0];
-    const leastPopularTrack = sortedByPopularity[sortedByPopularity.length - 1];
-
-    // For genres, we'd need artist details - simplified for now
-    const topGenres: string[] = []; // Would require additional API calls
-
-    return {
-      totalTracks: tracks.length,
-      uniqueArtists,
-      topGenres,
-      averagePopularity,
-      mostPopularTrack,
-      leastPopularTrack,
-    };
-  };
-
   const playTrack = async (track: SpotifyTrack) => {
     // Stop current audio if playing
     if (audio) {
@@ -224,51 +372,50 @@ export const TopSongs: React.FC = () => {
         `🔍 Finding preview URLs for ${tracksNeedingPreview.length} tracks...`
       );
 
-      // Process tracks sequentially to avoid overwhelming the APIs
-      const DELAY_BETWEEN_REQUESTS = 600; // Delay between individual requests
+      // The preview client caps concurrency and backs off on 429s for us
+      let processed = 0;
 
-      for (let i = 0; i < tracksNeedingPreview.length; i++) {
-        const { track } = tracksNeedingPreview[i];
-
-        try {
-          console.log(
-            `🎵 Searching for: ${track.name} by ${track.artists[0].name}`
-          );
-
-          const previewUrl = await previewUrlApi.findPreviewUrlDeezer(
-            track.artists[0].name,
-            track.name
-          );
+      await Promise.all(
+        tracksNeedingPreview.map(async ({ track }) => {
+          try {
+            console.log(
+              `🎵 Searching for: ${track.name} by ${track.artists[0].name}`
+            );
 
-          if (previewUrl) {
-            // Update tracks state immediately when a preview is found
-            setTracks((prevTracks) =>
-              prevTracks.map((t) =>
-                t.id === track.id ? { ...t, preview_url: previewUrl } : t
-              )
+            const previewUrl = await previewUrlApi.findPreviewUrlDeezer(
+              track.artists[0].name,
+              track.name
             );
 
-            console.log(`✅ Found preview for: ${track.name} - NOW PLAYABLE!`);
-          } else {
-            console.log(`❌ No preview found for: ${track.name}`);
+            if (previewUrl) {
+              // Update tracks state immediately when a preview is found
+              setTracks((prevTracks) =>
+                prevTracks.map((t) =>
+                  t.id === track.id ? { ...t, preview_url: previewUrl } : t
+                )
+              );
+
+              console.log(
+                `✅ Found preview for: ${track.name} - NOW PLAYABLE!`
+              );
+            } else {
+              console.log(`❌ No preview found for: ${track.name}`);
+            }
+          } catch (error) {
+            console.error(
+              `❌ Failed to find preview for ${track.name}:`,
+              error
+            );
+          } finally {
+            // Update progress after each track
+            processed++;
+            setEnhancementProgress({
+              processed,
+              total: tracksNeedingPreview.length,
+            });
           }
-
-          // Update progress after each track
-          setEnhancementProgress({
-            processed: i + 1,
-            total: tracksNeedingPreview.length,
-          });
-        } catch (error) {
-          console.error(`❌ Failed to find preview for ${track.name}:`, error);
-        }
-
-        // Add delay between requests to avoid rate limiting
-        if (i < tracksNeedingPreview.length - 1) {
-          await new Promise((resolve) =>
-            setTimeout(resolve, DELAY_BETWEEN_REQUESTS)
-          );
-        }
-      }
+        })
+      );
 
       // Final summary
       const finalTracksWithPreviews = tracks.filter(
@@ -333,37 +480,37 @@ export const TopSongs: React.FC = () => {
         `🎨 Fetching images for ${artistsNeedingImages.length} artists...`
       );
 
-      // Fetch images for artists that need them - with real-time updates
-      for (const artist of artistsNeedingImages) {
-        try {
-          // Find the artist ID from tracks
-          const track = currentTracks.find(
-            (track) => track.artists[0].name === artist.name
-          );
-          if (track) {
-            const artistId = track.artists[0].id;
-            console.log(`🖼️ Fetching image for artist: ${artist.name}`);
+      // Fetch images for artists that need them - with real-time updates.
+      // Requests run concurrently; the Spotify client handles rate limits.
+      await Promise.all(
+        artistsNeedingImages.map(async (artist) => {
+          try {
+            // Find the artist ID from tracks
+            const track = currentTracks.find(
+              (track) => track.artists[0].name === artist.name
+            );
+            if (track) {
+              const artistId = track.artists[0].id;
+              console.log(`🖼️ Fetching image for artist: ${artist.name}`);
 
-            const artistData = await spotifyApi.getArtist(artistId);
+              const artistData = await spotifyApi.getArtist(artistId);
 
-            updatedArtists[artistId] = {
-              ...artist,
-              imageUrl:
-                artistData.images?.[0]?.url || artistData.images?.[1]?.url,
-            };
+              updatedArtists[artistId] = {
+                ...artist,
+                imageUrl:
+                  artistData.images?.[0]?.url || artistData.images?.[1]?.url,
+              };
 
-            // Update state immediately when each image is found
-            setArtistsWithImages({ ...updatedArtists });
+              // Update state immediately when each image is found
+              setArtistsWithImages({ ...updatedArtists });
 
-            console.log(`✅ Found image for: ${artist.name}`);
+              console.log(`✅ Found image for: ${artist.name}`);
+            }
+          } catch (error) {
+            console.error(`Failed to fetch image for ${artist.name}:`, error);
           }
-
-          // Small delay to avoid hitting rate limits
-          await new Promise((resolve) => setTimeout(resolve, 200));
-        } catch (error) {
-          console.error(`Failed to fetch image for ${artist.name}:`, error);
-        }
-      }
+        })
+      );
 
       console.log(`🎉 Artist image fetching complete!`);
     } catch (error) {
@@ -427,562 +574,687 @@ export const TopSongs: React.FC = () => {
               Time Period
             </h2>
 
-            {/* Preview Enhancement Button */}
-            <button
-              onClick={enhanceAllPreviews}
-              disabled={enhancingPreviews}
-              className="px-4 py-2 cursor-pointer bg-spotify-green text-black rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              <RefreshCw
-                className={`h-4 w-4 ${enhancingPreviews ? "animate-spin" : ""}`}
-              />
-              {enhancingPreviews
-                ? `Finding Previews... (${enhancementProgress.processed}/${enhancementProgress.total})`
-                : "Find Missing Previews"}
-            </button>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {timeRangeOptions.map((option) => (
+            <div className="flex gap-2">
               <button
-                key={option.value}
-                onClick={() => setTimeRange(option.value)}
-                className={`p-4 rounded-lg cursor-pointer text-left transition-all ${
-                  timeRange === option.value
-                    ? "bg-spotify-green text-black"
+                onClick={() => switchView("compare")}
+                className={`px-4 py-2 cursor-pointer rounded-lg transition-colors flex items-center gap-2 ${
+                  viewMode === "compare"
+                    ? "bg-spotify-green text-black hover:bg-green-600"
                     : "bg-gray-700 hover:bg-gray-600"
                 }`}
               >
-                <div className="font-bold">{option.label}</div>
-                <div className="text-sm opacity-75">{option.description}</div>
+                <GitCompare className="h-4 w-4" />
+                Compare Periods
               </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Stats Overview */}
-        {stats && (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-            <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
-              <div className="text-2xl font-bold text-spotify-green">
-                {stats.totalTracks}
-              </div>
-              <div className="text-sm text-spotify-lightgray">Total Tracks</div>
-            </div>
-            <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
-              <div className="text-2xl font-bold text-blue-400">
-                {stats.uniqueArtists}
-              </div>
-              <div className="text-sm text-spotify-lightgray">
-                Unique Artists
-              </div>
-            </div>
-            <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
-              <div className="text-2xl font-bold text-yellow-400">
-                {stats.averagePopularity}%
-              </div>
-              <div className="text-sm text-spotify-lightgray">
-                Avg Popularity
-              </div>
-            </div>
-            <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
-              <div className="text-2xl font-bold text-purple-400">
-                {Math.round((stats.uniqueArtists / stats.totalTracks) * 100)}%
-              </div>
-              <div className="text-sm text-spotify-lightgray">Diversity</div>
-            </div>
-          </div>
-        )}
-
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Enhanced Top Tracks List */}
-          <div className="bg-spotify-darkgray p-6 rounded-lg">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-2xl font-bold flex items-center gap-2">
-                <TrendingUp size={24} />
-                Your Top Tracks
-                <span className="text-sm text-spotify-lightgray font-normal">
-                  ({tracks.filter((t) => t.preview_url).length}/{tracks.length}{" "}
-                  with previews)
-                </span>
-              </h2>
-
-              {/* Toggle button for showing all tracks */}
               <button
-                onClick={() => setShowAllTracks(!showAllTracks)}
-                className="px-3 py-1 cursor-pointer text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+                onClick={() => switchView("history")}
+                className={`px-4 py-2 cursor-pointer rounded-lg transition-colors flex items-center gap-2 ${
+                  viewMode === "history"
+                    ? "bg-spotify-green text-black hover:bg-green-600"
+                    : "bg-gray-700 hover:bg-gray-600"
+                }`}
               >
-                <Music size={16} />
-                {showAllTracks ? `Show Top 20` : `Show All ${tracks.length}`}
+                <History className="h-4 w-4" />
+                History
               </button>
-            </div>
 
-            <div className="space-y-3 max-h-96 overflow-y-auto">
-              {tracks
-                .slice(0, showAllTracks ? tracks.length : 20)
-                .map((track, index) => (
-                  <div
-                    key={track.id}
-                    className="flex items-center gap-3 p-2 rounded hover:bg-gray-700 transition-colors"
-                  >
-                    <div className="text-spotify-green font-bold w-6 text-center">
-                      {index + 1}
-                    </div>
-                    <div className="relative">
-                      <img
-                        src={
-                          track.album.images[2]?.url ||
-                          track.album.images[0]?.url
-                        }
-                        alt={track.album.name}
-                        className="w-12 h-12 rounded"
-                      />
-                      {/* Preview indicator */}
-                      {track.preview_url && (
-                        <div className="absolute -top-1 -right-1 w-3 h-3 bg-spotify-green rounded-full"></div>
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="font-medium truncate">{track.name}</div>
-                      <div className="text-sm text-spotify-lightgray truncate">
-                        {track.artists[0].name}
-                      </div>
-                    </div>
-                    <div className="text-xs text-gray-400">
-                      {track.popularity}%
-                    </div>
-
-                    {/* Enhanced control buttons */}
-                    <div className="flex gap-1">
-                      <button
-                        onClick={() =>
-                          playingTrack === track.id
-                            ? pauseTrack()
-                            : playTrack(track)
-                        }
-                        className="p-2 cursor-pointer rounded-full hover:bg-spotify-green hover:text-black transition-colors"
-                        title={
-                          track.preview_url
-                            ? "Play preview"
-                            : "Find & play preview or open in Spotify"
-                        }
-                      >
-                        {playingTrack === track.id ? (
-                          <Pause size={16} />
-                        ) : (
-                          <Play size={16} />
-                        )}
-                      </button>
-
-                      <button
-                        onClick={() =>
-                          window.open(track.external_urls.spotify, "_blank")
-                        }
-                        className="p-2 rounded-full cursor-pointer hover:bg-spotify-green hover:text-black transition-colors"
-                        title="Open in Spotify"
-                      >
-                        <ExternalLink size={16} />
-                      </button>
-                    </div>
-                  </div>
-                ))}
+              {/* Preview Enhancement Button */}
+              {viewMode === "single" && (
+                <button
+                  onClick={enhanceAllPreviews}
+                  disabled={enhancingPreviews}
+                  className="px-4 py-2 cursor-pointer bg-spotify-green text-black rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                  <RefreshCw
+                    className={`h-4 w-4 ${
+                      enhancingPreviews ? "animate-spin" : ""
+                    }`}
+                  />
+                  {enhancingPreviews
+                    ? `Finding Previews... (${enhancementProgress.processed}/${enhancementProgress.total})`
+                    : "Find Missing Previews"}
+                </button>
+              )}
             </div>
+          </div>
 
-            {/* Show count indicator at bottom */}
-            <div className="mt-4 text-center text-sm text-spotify-lightgray">
-              Showing{" "}
-              {showAllTracks ? tracks.length : Math.min(20, tracks.length)} of{" "}
-              {tracks.length} tracks
+          {viewMode === "single" && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {timeRangeOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setTimeRange(option.value)}
+                  className={`p-4 rounded-lg cursor-pointer text-left transition-all ${
+                    timeRange === option.value
+                      ? "bg-spotify-green text-black"
+                      : "bg-gray-700 hover:bg-gray-600"
+                  }`}
+                >
+                  <div className="font-bold">{option.label}</div>
+                  <div className="text-sm opacity-75">{option.description}</div>
+                </button>
+              ))}
             </div>
-          </div>
+          )}
+        </div>
 
-          {/* Artist Frequency with Enhanced Podium */}
-          <div className="bg-spotify-darkgray p-6 rounded-lg">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold flex items-center gap-2">
-                <User size={24} />
-                Most Played Artists
-              </h2>
+        {error && (
+          <SpotifyErrorNotice
+            error={error}
+            onRetry={viewMode === "compare" ? loadComparison : loadTopSongs}
+            className="mb-8"
+          />
+        )}
 
-              {/* Button to manually fetch artist images */}
-              <button
-                onClick={handleManualImageRefresh}
-                className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
-              >
-                <RefreshCw size={16} />
-                Refresh Images
-              </button>
+        {viewMode === "history" ? (
+          history === null ? (
+            <div className="text-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+              <p className="text-white">Loading your listening history...</p>
+            </div>
+          ) : (
+            <SnapshotTimeline
+              snapshots={history}
+              timeRangeOptions={timeRangeOptions}
+            />
+          )
+        ) : viewMode === "compare" ? (
+          comparisonLoading ? (
+            <div className="text-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-spotify-green mx-auto mb-4"></div>
+              <p className="text-white">Comparing your listening periods...</p>
             </div>
+          ) : (
+            rangeSnapshots && (
+              <TrendComparison
+                snapshots={rangeSnapshots}
+                timeRangeOptions={timeRangeOptions}
+              />
+            )
+          )
+        ) : (
+          <>
+            {/* Stats Overview */}
+            {stats && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-spotify-green">
+                    {stats.totalTracks}
+                  </div>
+                  <div className="text-sm text-spotify-lightgray">
+                    Total Tracks
+                  </div>
+                </div>
+                <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-blue-400">
+                    {stats.uniqueArtists}
+                  </div>
+                  <div className="text-sm text-spotify-lightgray">
+                    Unique Artists
+                  </div>
+                </div>
+                <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-yellow-400">
+                    {stats.averagePopularity}%
+                  </div>
+                  <div className="text-sm text-spotify-lightgray">
+                    Avg Popularity
+                  </div>
+                </div>
+                <div className="bg-spotify-darkgray p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-purple-400">
+                    {Math.round(
+                      (stats.uniqueArtists / stats.totalTracks) * 100
+                    )}
+                    %
+                  </div>
+                  <div className="text-sm text-spotify-lightgray">
+                    Diversity
+                  </div>
+                </div>
+              </div>
+            )}
 
-            {/* Top 3 Artists Podium */}
-            <div className="mb-8">
-              <div className="flex items-end justify-center gap-6 mb-4">
-                {getArtistFrequency()
-                  .slice(0, 3)
-                  .map((_artist, index) => {
-                    // Fix the positions and heights mapping
-                    // index 0 = 1st place, index 1 = 2nd place, index 2 = 3rd place
-                    // But we want to display them as: 2nd, 1st, 3rd (left to right)
-                    const displayOrder = [1, 0, 2]; // 2nd place, 1st place, 3rd place
-                    const heights = ["h-24", "h-32", "h-20"]; // Medium, Tallest, Shortest
-                    const widths = ["w-20", "w-24", "w-18"]; // Medium, Widest, Narrowest
-                    const colors = [
-                      "bg-gray-400", // Silver for 2nd place
-                      "bg-gradient-to-t from-yellow-500 to-yellow-300", // Gold for 1st place
-                      "bg-gradient-to-t from-orange-500 to-orange-300", // Bronze for 3rd place
-                    ];
-                    const textColors = [
-                      "text-gray-300", // Silver text
-                      "text-yellow-300", // Gold text
-                      "text-orange-300", // Bronze text
-                    ];
-                    const borderColors = [
-                      "border-gray-400", // Silver border
-                      "border-yellow-400", // Gold border
-                      "border-orange-400", // Bronze border
-                    ];
-                    const trophyIcons = ["🥈", "🥇", "🥉"];
-
-                    // Get the actual artist for this display position
-                    const actualArtistIndex = displayOrder[index];
-                    const actualArtist =
-                      getArtistFrequency()[actualArtistIndex];
-
-                    if (!actualArtist) return null;
-
-                    // Find artist ID and get cached image
-                    const track = tracks.find(
-                      (track) => track.artists[0].name === actualArtist.name
+            {/* Genre Breakdown */}
+            {genreBreakdown.length > 0 && (
+              <div className="bg-spotify-darkgray p-6 rounded-lg mb-8">
+                <h2 className="text-2xl font-bold flex items-center gap-2 mb-4">
+                  <Tags size={24} />
+                  Top Genres
+                </h2>
+                <div className="space-y-3">
+                  {genreBreakdown.slice(0, GENRES_SHOWN).map((entry) => {
+                    // Bars are scaled against the leading genre
+                    const width =
+                      (entry.weight / genreBreakdown[0].weight) * 100;
+                    return (
+                      <div key={entry.genre}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-medium capitalize">
+                            {entry.genre}
+                          </span>
+                          <span className="text-spotify-lightgray">
+                            {Math.round(entry.share * 100)}%
+                          </span>
+                        </div>
+                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-spotify-green rounded-full"
+                            style={{ width: `${width}%` }}
+                          />
+                        </div>
+                        <div className="text-xs text-spotify-lightgray mt-1 truncate">
+                          {entry.artists.slice(0, 3).join(", ")}
+                          {entry.artists.length > 3 &&
+                            ` +${entry.artists.length - 3} more`}
+                        </div>
+                      </div>
                     );
-                    const artistId = track?.artists[0].id;
-                    const artistImage = artistId
-                      ? artistsWithImages[artistId]?.imageUrl
-                      : null;
-                    const isImageLoading =
-                      artistId && !artistsWithImages[artistId]?.imageUrl;
+                  })}
+                </div>
+              </div>
+            )}
 
-                    return (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Enhanced Top Tracks List */}
+              <div className="bg-spotify-darkgray p-6 rounded-lg">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-2xl font-bold flex items-center gap-2">
+                    <TrendingUp size={24} />
+                    Your Top Tracks
+                    <span className="text-sm text-spotify-lightgray font-normal">
+                      ({tracks.filter((t) => t.preview_url).length}/
+                      {tracks.length} with previews)
+                    </span>
+                  </h2>
+
+                  {/* Toggle button for showing all tracks */}
+                  <button
+                    onClick={() => setShowAllTracks(!showAllTracks)}
+                    className="px-3 py-1 cursor-pointer text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    <Music size={16} />
+                    {showAllTracks
+                      ? `Show Top 20`
+                      : `Show All ${tracks.length}`}
+                  </button>
+                </div>
+
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                  {tracks
+                    .slice(0, showAllTracks ? tracks.length : 20)
+                    .map((track, index) => (
                       <div
-                        key={actualArtist.name}
-                        className="flex flex-col items-center"
+                        key={track.id}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-gray-700 transition-colors"
                       >
-                        {/* Artist Image (circular) with loading state */}
-                        <div className="relative mb-3">
-                          <div
-                            className={`w-20 h-20 bg-gradient-to-br from-gray-600 to-gray-700 rounded-full flex items-center justify-center overflow-hidden border-4 ${
-                              borderColors[index]
-                            } shadow-lg ${
-                              isImageLoading ? "animate-pulse" : ""
-                            }`}
-                          >
-                            {artistImage ? (
-                              <img
-                                src={artistImage}
-                                alt={actualArtist.name}
-                                className="w-full h-full object-cover"
-                                onError={(e) => {
-                                  e.currentTarget.style.display = "none";
-                                  if (e.currentTarget.nextElementSibling) {
-                                    (
-                                      e.currentTarget
-                                        .nextElementSibling as HTMLElement
-                                    ).style.display = "flex";
-                                  }
-                                }}
-                              />
-                            ) : (
-                              <div className="flex flex-col items-center">
-                                <User size={36} className="text-gray-300" />
-                                {isImageLoading && (
-                                  <div className="text-xs text-gray-400 mt-1">
-                                    Loading...
-                                  </div>
-                                )}
-                              </div>
-                            )}
-                            {artistImage && (
-                              <User
-                                size={36}
-                                className="text-gray-300 hidden"
-                              />
-                            )}
-                          </div>
-                          {/* Trophy Badge */}
-                          <div className="absolute -top-1 -right-1 text-2xl">
-                            {trophyIcons[index]}
-                          </div>
+                        <div className="text-spotify-green font-bold w-6 text-center">
+                          {index + 1}
                         </div>
-
-                        {/* Podium */}
-                        <div
-                          className={`${heights[index]} ${widths[index]} ${colors[index]} rounded-t-xl flex flex-col items-center justify-end pb-3 shadow-lg relative`}
-                        >
-                          {/* Rank number */}
-                          {/* <div className="absolute top-2 text-black font-bold text-lg">
-                            {actualArtistIndex + 1}
-                          </div> */}
-                          {/* Track count */}
-                          <div className="text-black font-bold text-lg">
-                            {actualArtist.count}
+                        <div className="relative">
+                          <img
+                            src={
+                              track.album.images[2]?.url ||
+                              track.album.images[0]?.url
+                            }
+                            alt={track.album.name}
+                            className="w-12 h-12 rounded"
+                          />
+                          {/* Preview indicator */}
+                          {track.preview_url && (
+                            <div className="absolute -top-1 -right-1 w-3 h-3 bg-spotify-green rounded-full"></div>
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium truncate">
+                            {track.name}
                           </div>
-                          <div className="text-black text-xs opacity-80">
-                            tracks
+                          <div className="text-sm text-spotify-lightgray truncate">
+                            {track.artists[0].name}
                           </div>
                         </div>
+                        <div className="text-xs text-gray-400">
+                          {track.popularity}%
+                        </div>
 
-                        {/* Artist Info */}
-                        <div className="text-center mt-3 max-w-24">
-                          <div
-                            className={`font-bold ${textColors[index]} truncate`}
+                        {/* Enhanced control buttons */}
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() =>
+                              playingTrack === track.id
+                                ? pauseTrack()
+                                : playTrack(track)
+                            }
+                            className="p-2 cursor-pointer rounded-full hover:bg-spotify-green hover:text-black transition-colors"
+                            title={
+                              track.preview_url
+                                ? "Play preview"
+                                : "Find & play preview or open in Spotify"
+                            }
                           >
-                            {actualArtist.name}
-                          </div>
-                          <div className="text-xs text-spotify-lightgray mt-1">
-                            {Math.round(
-                              (actualArtist.count / tracks.length) * 100
+                            {playingTrack === track.id ? (
+                              <Pause size={16} />
+                            ) : (
+                              <Play size={16} />
                             )}
-                            % of top tracks
-                          </div>
+                          </button>
+
+                          <button
+                            onClick={() =>
+                              window.open(track.external_urls.spotify, "_blank")
+                            }
+                            className="p-2 rounded-full cursor-pointer hover:bg-spotify-green hover:text-black transition-colors"
+                            title="Open in Spotify"
+                          >
+                            <ExternalLink size={16} />
+                          </button>
                         </div>
                       </div>
-                    );
-                  })}
-              </div>
+                    ))}
+                </div>
 
-              {/* Podium Base */}
-              <div className="h-4 bg-gradient-to-r from-gray-600 via-gray-500 to-gray-600 rounded-lg mx-8"></div>
-            </div>
+                {/* Show count indicator at bottom */}
+                <div className="mt-4 text-center text-sm text-spotify-lightgray">
+                  Showing{" "}
+                  {showAllTracks ? tracks.length : Math.min(20, tracks.length)}{" "}
+                  of {tracks.length} tracks
+                </div>
+              </div>
 
-            {/* Rest of Artists List */}
-            {getArtistFrequency().length > 3 && (
-              <div>
-                <div className="flex items-center gap-2 mb-4">
-                  <div className="h-px bg-gray-600 flex-1"></div>
-                  <span className="text-sm text-spotify-lightgray px-3">
-                    Other Artists
-                  </span>
-                  <div className="h-px bg-gray-600 flex-1"></div>
+              {/* Artist Frequency with Enhanced Podium */}
+              <div className="bg-spotify-darkgray p-6 rounded-lg">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl font-bold flex items-center gap-2">
+                    <User size={24} />
+                    Most Played Artists
+                  </h2>
+
+                  {/* Button to manually fetch artist images */}
+                  <button
+                    onClick={handleManualImageRefresh}
+                    className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+                  >
+                    <RefreshCw size={16} />
+                    Refresh Images
+                  </button>
                 </div>
 
-                <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {getArtistFrequency()
-                    .slice(3)
-                    .map((artist, index) => {
-                      // Find artist ID and get cached image
-                      const track = tracks.find(
-                        (track) => track.artists[0].name === artist.name
-                      );
-                      const artistId = track?.artists[0].id;
-                      const artistImage = artistId
-                        ? artistsWithImages[artistId]?.imageUrl
-                        : null;
-                      const isImageLoading =
-                        artistId && !artistsWithImages[artistId]?.imageUrl;
-
-                      return (
-                        <div
-                          key={artist.name}
-                          className="flex items-center justify-between p-3 bg-gray-700/20 hover:bg-gray-700/40 rounded-lg transition-colors"
-                        >
-                          <div className="flex items-center gap-3">
-                            {/* Rank circle */}
-                            <div className="w-8 h-8 bg-gray-600 rounded-full flex items-center justify-center text-xs font-bold">
-                              {index + 4}
+                {/* Top 3 Artists Podium */}
+                <div className="mb-8">
+                  <div className="flex items-end justify-center gap-6 mb-4">
+                    {getArtistFrequency()
+                      .slice(0, 3)
+                      .map((_artist, index) => {
+                        // Fix the positions and heights mapping
+                        // index 0 = 1st place, index 1 = 2nd place, index 2 = 3rd place
+                        // But we want to display them as: 2nd, 1st, 3rd (left to right)
+                        const displayOrder = [1, 0, 2]; // 2nd place, 1st place, 3rd place
+                        const heights = ["h-24", "h-32", "h-20"]; // Medium, Tallest, Shortest
+                        const widths = ["w-20", "w-24", "w-18"]; // Medium, Widest, Narrowest
+                        const colors = [
+                          "bg-gray-400", // Silver for 2nd place
+                          "bg-gradient-to-t from-yellow-500 to-yellow-300", // Gold for 1st place
+                          "bg-gradient-to-t from-orange-500 to-orange-300", // Bronze for 3rd place
+                        ];
+                        const textColors = [
+                          "text-gray-300", // Silver text
+                          "text-yellow-300", // Gold text
+                          "text-orange-300", // Bronze text
+                        ];
+                        const borderColors = [
+                          "border-gray-400", // Silver border
+                          "border-yellow-400", // Gold border
+                          "border-orange-400", // Bronze border
+                        ];
+                        const trophyIcons = ["🥈", "🥇", "🥉"];
+
+                        // Get the actual artist for this display position
+                        const actualArtistIndex = displayOrder[index];
+                        const actualArtist =
+                          getArtistFrequency()[actualArtistIndex];
+
+                        if (!actualArtist) return null;
+
+                        // Find artist ID and get cached image
+                        const track = tracks.find(
+                          (track) => track.artists[0].name === actualArtist.name
+                        );
+                        const artistId = track?.artists[0].id;
+                        const artistImage = artistId
+                          ? artistsWithImages[artistId]?.imageUrl
+                          : null;
+                        const isImageLoading =
+                          artistId && !artistsWithImages[artistId]?.imageUrl;
+
+                        return (
+                          <div
+                            key={actualArtist.name}
+                            className="flex flex-col items-center"
+                          >
+                            {/* Artist Image (circular) with loading state */}
+                            <div className="relative mb-3">
+                              <div
+                                className={`w-20 h-20 bg-gradient-to-br from-gray-600 to-gray-700 rounded-full flex items-center justify-center overflow-hidden border-4 ${
+                                  borderColors[index]
+                                } shadow-lg ${
+                                  isImageLoading ? "animate-pulse" : ""
+                                }`}
+                              >
+                                {artistImage ? (
+                                  <img
+                                    src={artistImage}
+                                    alt={actualArtist.name}
+                                    className="w-full h-full object-cover"
+                                    onError={(e) => {
+                                      e.currentTarget.style.display = "none";
+                                      if (e.currentTarget.nextElementSibling) {
+                                        (
+                                          e.currentTarget
+                                            .nextElementSibling as HTMLElement
+                                        ).style.display = "flex";
+                                      }
+                                    }}
+                                  />
+                                ) : (
+                                  <div className="flex flex-col items-center">
+                                    <User size={36} className="text-gray-300" />
+                                    {isImageLoading && (
+                                      <div className="text-xs text-gray-400 mt-1">
+                                        Loading...
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+                                {artistImage && (
+                                  <User
+                                    size={36}
+                                    className="text-gray-300 hidden"
+                                  />
+                                )}
+                              </div>
+                              {/* Trophy Badge */}
+                              <div className="absolute -top-1 -right-1 text-2xl">
+                                {trophyIcons[index]}
+                              </div>
                             </div>
-                            {/* Artist avatar with real image and loading state */}
+
+                            {/* Podium */}
                             <div
-                              className={`w-10 h-10 bg-gradient-to-br from-gray-600 to-gray-700 rounded-full flex items-center justify-center border-2 border-gray-500 overflow-hidden ${
-                                isImageLoading ? "animate-pulse" : ""
-                              }`}
+                              className={`${heights[index]} ${widths[index]} ${colors[index]} rounded-t-xl flex flex-col items-center justify-end pb-3 shadow-lg relative`}
                             >
-                              {artistImage ? (
-                                <img
-                                  src={artistImage}
-                                  alt={artist.name}
-                                  className="w-full h-full object-cover"
-                                  onError={(e) => {
-                                    e.currentTarget.style.display = "none";
-                                    if (e.currentTarget.nextElementSibling) {
-                                      (
-                                        e.currentTarget
-                                          .nextElementSibling as HTMLElement
-                                      ).style.display = "flex";
-                                    }
-                                  }}
-                                />
-                              ) : (
-                                <User size={20} className="text-gray-300" />
-                              )}
-                              {artistImage && (
-                                <User
-                                  size={20}
-                                  className="text-gray-300 hidden"
-                                />
-                              )}
+                              {/* Rank number */}
+                              {/* <div className="absolute top-2 text-black font-bold text-lg">
+                            {actualArtistIndex + 1}
+                          </div> */}
+                              {/* Track count */}
+                              <div className="text-black font-bold text-lg">
+                                {actualArtist.count}
+                              </div>
+                              <div className="text-black text-xs opacity-80">
+                                tracks
+                              </div>
                             </div>
-                            <div>
-                              <div className="font-medium">{artist.name}</div>
-                              <div className="text-sm text-spotify-lightgray">
-                                {artist.count} track
-                                {artist.count > 1 ? "s" : ""} •{" "}
+
+                            {/* Artist Info */}
+                            <div className="text-center mt-3 max-w-24">
+                              <div
+                                className={`font-bold ${textColors[index]} truncate`}
+                              >
+                                {actualArtist.name}
+                              </div>
+                              <div className="text-xs text-spotify-lightgray mt-1">
                                 {Math.round(
-                                  (artist.count / tracks.length) * 100
-                                )}
-                                %
-                                {isImageLoading && (
-                                  <span className="text-xs text-blue-400 ml-2">
-                                    Loading image...
-                                  </span>
+                                  (actualArtist.count / tracks.length) * 100
                                 )}
+                                % of top tracks
                               </div>
                             </div>
                           </div>
-                          <div className="text-right">
-                            <div className="w-20 h-2 bg-gray-600 rounded-full mb-1">
-                              <div
-                                className="h-full bg-gradient-to-r from-spotify-green to-green-400 rounded-full"
-                                style={{
-                                  width: `${
+                        );
+                      })}
+                  </div>
+
+                  {/* Podium Base */}
+                  <div className="h-4 bg-gradient-to-r from-gray-600 via-gray-500 to-gray-600 rounded-lg mx-8"></div>
+                </div>
+
+                {/* Rest of Artists List */}
+                {getArtistFrequency().length > 3 && (
+                  <div>
+                    <div className="flex items-center gap-2 mb-4">
+                      <div className="h-px bg-gray-600 flex-1"></div>
+                      <span className="text-sm text-spotify-lightgray px-3">
+                        Other Artists
+                      </span>
+                      <div className="h-px bg-gray-600 flex-1"></div>
+                    </div>
+
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {getArtistFrequency()
+                        .slice(3)
+                        .map((artist, index) => {
+                          // Find artist ID and get cached image
+                          const track = tracks.find(
+                            (track) => track.artists[0].name === artist.name
+                          );
+                          const artistId = track?.artists[0].id;
+                          const artistImage = artistId
+                            ? artistsWithImages[artistId]?.imageUrl
+                            : null;
+                          const isImageLoading =
+                            artistId && !artistsWithImages[artistId]?.imageUrl;
+
+                          return (
+                            <div
+                              key={artist.name}
+                              className="flex items-center justify-between p-3 bg-gray-700/20 hover:bg-gray-700/40 rounded-lg transition-colors"
+                            >
+                              <div className="flex items-center gap-3">
+                                {/* Rank circle */}
+                                <div className="w-8 h-8 bg-gray-600 rounded-full flex items-center justify-center text-xs font-bold">
+                                  {index + 4}
+                                </div>
+                                {/* Artist avatar with real image and loading state */}
+                                <div
+                                  className={`w-10 h-10 bg-gradient-to-br from-gray-600 to-gray-700 rounded-full flex items-center justify-center border-2 border-gray-500 overflow-hidden ${
+                                    isImageLoading ? "animate-pulse" : ""
+                                  }`}
+                                >
+                                  {artistImage ? (
+                                    <img
+                                      src={artistImage}
+                                      alt={artist.name}
+                                      className="w-full h-full object-cover"
+                                      onError={(e) => {
+                                        e.currentTarget.style.display = "none";
+                                        if (
+                                          e.currentTarget.nextElementSibling
+                                        ) {
+                                          (
+                                            e.currentTarget
+                                              .nextElementSibling as HTMLElement
+                                          ).style.display = "flex";
+                                        }
+                                      }}
+                                    />
+                                  ) : (
+                                    <User size={20} className="text-gray-300" />
+                                  )}
+                                  {artistImage && (
+                                    <User
+                                      size={20}
+                                      className="text-gray-300 hidden"
+                                    />
+                                  )}
+                                </div>
+                                <div>
+                                  <div className="font-medium">
+                                    {artist.name}
+                                  </div>
+                                  <div className="text-sm text-spotify-lightgray">
+                                    {artist.count} track
+                                    {artist.count > 1 ? "s" : ""} •{" "}
+                                    {Math.round(
+                                      (artist.count / tracks.length) * 100
+                                    )}
+                                    %
+                                    {isImageLoading && (
+                                      <span className="text-xs text-blue-400 ml-2">
+                                        Loading image...
+                                      </span>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <div className="w-20 h-2 bg-gray-600 rounded-full mb-1">
+                                  <div
+                                    className="h-full bg-gradient-to-r from-spotify-green to-green-400 rounded-full"
+                                    style={{
+                                      width: `${
+                                        (artist.count /
+                                          getArtistFrequency()[0].count) *
+                                        100
+                                      }%`,
+                                    }}
+                                  ></div>
+                                </div>
+                                <div className="text-xs text-gray-400">
+                                  vs #1:{" "}
+                                  {Math.round(
                                     (artist.count /
                                       getArtistFrequency()[0].count) *
-                                    100
-                                  }%`,
-                                }}
-                              ></div>
-                            </div>
-                            <div className="text-xs text-gray-400">
-                              vs #1:{" "}
-                              {Math.round(
-                                (artist.count / getArtistFrequency()[0].count) *
-                                  100
-                              )}
-                              %
+                                      100
+                                  )}
+                                  %
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                        </div>
-                      );
-                    })}
-                </div>
+                          );
+                        })}
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        {/* Popularity Analysis */}
-        {stats && stats.mostPopularTrack && stats.leastPopularTrack && (
-          <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div className="bg-spotify-darkgray p-6 rounded-lg">
-              <h2 className="text-xl font-bold mb-4 text-yellow-400">
-                Most Popular Track
-              </h2>
-              <div className="flex items-center gap-4">
-                <img
-                  src={
-                    stats.mostPopularTrack.album.images[1]?.url ||
-                    stats.mostPopularTrack.album.images[0]?.url
-                  }
-                  alt={stats.mostPopularTrack.album.name}
-                  className="w-20 h-20 rounded-lg"
-                />
-                <div className="flex-1">
-                  <h3 className="font-bold text-lg">
-                    {stats.mostPopularTrack.name}
-                  </h3>
-                  <p className="text-spotify-lightgray">
-                    {stats.mostPopularTrack.artists[0].name}
-                  </p>
-                  <div className="mt-2">
-                    <div className="text-sm text-spotify-lightgray">
-                      Popularity
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-32 h-2 bg-gray-600 rounded-full">
-                        <div
-                          className="h-full bg-yellow-400 rounded-full"
-                          style={{
-                            width: `${stats.mostPopularTrack.popularity}%`,
-                          }}
-                        ></div>
+            {/* Popularity Analysis */}
+            {stats && stats.mostPopularTrack && stats.leastPopularTrack && (
+              <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div className="bg-spotify-darkgray p-6 rounded-lg">
+                  <h2 className="text-xl font-bold mb-4 text-yellow-400">
+                    Most Popular Track
+                  </h2>
+                  <div className="flex items-center gap-4">
+                    <img
+                      src={
+                        stats.mostPopularTrack.album.images[1]?.url ||
+                        stats.mostPopularTrack.album.images[0]?.url
+                      }
+                      alt={stats.mostPopularTrack.album.name}
+                      className="w-20 h-20 rounded-lg"
+                    />
+                    <div className="flex-1">
+                      <h3 className="font-bold text-lg">
+                        {stats.mostPopularTrack.name}
+                      </h3>
+                      <p className="text-spotify-lightgray">
+                        {stats.mostPopularTrack.artists[0].name}
+                      </p>
+                      <div className="mt-2">
+                        <div className="text-sm text-spotify-lightgray">
+                          Popularity
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <div className="w-32 h-2 bg-gray-600 rounded-full">
+                            <div
+                              className="h-full bg-yellow-400 rounded-full"
+                              style={{
+                                width: `${stats.mostPopularTrack.popularity}%`,
+                              }}
+                            ></div>
+                          </div>
+                          <span className="text-sm font-bold">
+                            {stats.mostPopularTrack.popularity}%
+                          </span>
+                        </div>
                       </div>
-                      <span className="text-sm font-bold">
-                        {stats.mostPopularTrack.popularity}%
-                      </span>
                     </div>
+                    <button
+                      onClick={() =>
+                        playingTrack === stats.mostPopularTrack!.id
+                          ? pauseTrack()
+                          : playTrack(stats.mostPopularTrack!)
+                      }
+                      className="p-3 cursor-pointer rounded-full bg-yellow-400 text-black hover:scale-110 transition-transform"
+                    >
+                      {playingTrack === stats.mostPopularTrack.id ? (
+                        <Pause size={20} />
+                      ) : (
+                        <Play size={20} />
+                      )}
+                    </button>
                   </div>
                 </div>
-                <button
-                  onClick={() =>
-                    playingTrack === stats.mostPopularTrack!.id
-                      ? pauseTrack()
-                      : playTrack(stats.mostPopularTrack!)
-                  }
-                  className="p-3 cursor-pointer rounded-full bg-yellow-400 text-black hover:scale-110 transition-transform"
-                >
-                  {playingTrack === stats.mostPopularTrack.id ? (
-                    <Pause size={20} />
-                  ) : (
-                    <Play size={20} />
-                  )}
-                </button>
-              </div>
-            </div>
 
-            <div className="bg-spotify-darkgray p-6 rounded-lg">
-              <h2 className="text-xl font-bold mb-4 text-purple-400">
-                Hidden Gem
-              </h2>
-              <div className="flex items-center gap-4">
-                <img
-                  src={
-                    stats.leastPopularTrack.album.images[1]?.url ||
-                    stats.leastPopularTrack.album.images[0]?.url
-                  }
-                  alt={stats.leastPopularTrack.album.name}
-                  className="w-20 h-20 rounded-lg"
-                />
-                <div className="flex-1">
-                  <h3 className="font-bold text-lg">
-                    {stats.leastPopularTrack.name}
-                  </h3>
-                  <p className="text-spotify-lightgray">
-                    {stats.leastPopularTrack.artists[0].name}
-                  </p>
-                  <div className="mt-2">
-                    <div className="text-sm text-spotify-lightgray">
-                      Popularity
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <div className="w-32 h-2 bg-gray-600 rounded-full">
-                        <div
-                          className="h-full bg-purple-400 rounded-full"
-                          style={{
-                            width: `${stats.leastPopularTrack.popularity}%`,
-                          }}
-                        ></div>
+                <div className="bg-spotify-darkgray p-6 rounded-lg">
+                  <h2 className="text-xl font-bold mb-4 text-purple-400">
+                    Hidden Gem
+                  </h2>
+                  <div className="flex items-center gap-4">
+                    <img
+                      src={
+                        stats.leastPopularTrack.album.images[1]?.url ||
+                        stats.leastPopularTrack.album.images[0]?.url
+                      }
+                      alt={stats.leastPopularTrack.album.name}
+                      className="w-20 h-20 rounded-lg"
+                    />
+                    <div className="flex-1">
+                      <h3 className="font-bold text-lg">
+                        {stats.leastPopularTrack.name}
+                      </h3>
+                      <p className="text-spotify-lightgray">
+                        {stats.leastPopularTrack.artists[0].name}
+                      </p>
+                      <div className="mt-2">
+                        <div className="text-sm text-spotify-lightgray">
+                          Popularity
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <div className="w-32 h-2 bg-gray-600 rounded-full">
+                            <div
+                              className="h-full bg-purple-400 rounded-full"
+                              style={{
+                                width: `${stats.leastPopularTrack.popularity}%`,
+                              }}
+                            ></div>
+                          </div>
+                          <span className="text-sm font-bold">
+                            {stats.leastPopularTrack.popularity}%
+                          </span>
+                        </div>
                       </div>
-                      <span className="text-sm font-bold">
-                        {stats.leastPopularTrack.popularity}%
-                      </span>
                     </div>
+                    <button
+                      onClick={() =>
+                        playingTrack === stats.leastPopularTrack!.id
+                          ? pauseTrack()
+                          : playTrack(stats.leastPopularTrack!)
+                      }
+                      className="p-3 rounded-full cursor-pointer bg-purple-400 text-black hover:scale-110 transition-transform"
+                    >
+                      {playingTrack === stats.leastPopularTrack.id ? (
+                        <Pause size={20} />
+                      ) : (
+                        <Play size={20} />
+                      )}
+                    </button>
                   </div>
                 </div>
-                <button
-                  onClick={() =>
-                    playingTrack === stats.leastPopularTrack!.id
-                      ? pauseTrack()
-                      : playTrack(stats.leastPopularTrack!)
-                  }
-                  className="p-3 rounded-full cursor-pointer bg-purple-400 text-black hover:scale-110 transition-transform"
-                >
-                  {playingTrack === stats.leastPopularTrack.id ? (
-                    <Pause size={20} />
-                  ) : (
-                    <Play size={20} />
-                  )}
-                </button>
               </div>
-            </div>
-          </div>
+            )}
+          </>
         )}
       </div>
     </div>
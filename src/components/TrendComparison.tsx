@@ -0,0 +1,311 @@
+import React, { useMemo, useState } from "react";
+import {
+  ArrowRight,
+  TrendingUp,
+  TrendingDown,
+  Sparkles,
+  LogOut,
+  Music,
+  User,
+} from "lucide-react";
+import type {
+  RankChange,
+  RankingComparison,
+  SpotifyArtist,
+  SpotifyTrack,
+  TimeRange,
+  TopSongsStats,
+} from "../types";
+import { compareRankings } from "../services/trendStats";
+
+export interface RangeSnapshot {
+  tracks: SpotifyTrack[];
+  artists: SpotifyArtist[];
+  stats: TopSongsStats;
+}
+
+interface TrendComparisonProps {
+  snapshots: Record<TimeRange, RangeSnapshot>;
+  timeRangeOptions: { value: TimeRange; label: string }[];
+}
+
+// How many entries each trend column lists
+const ENTRIES_SHOWN = 10;
+
+export type Subject = "tracks" | "artists";
+
+// Common shape for anything shown in a trend column
+export interface RankedItem {
+  id: string;
+  name: string;
+  subtitle: string;
+  imageUrl?: string;
+}
+
+const toRankedTrack = (track: SpotifyTrack): RankedItem => ({
+  id: track.id,
+  name: track.name,
+  subtitle: track.artists.map((a) => a.name).join(", "),
+  imageUrl: track.album.images[track.album.images.length - 1]?.url,
+});
+
+const toRankedArtist = (artist: SpotifyArtist): RankedItem => ({
+  id: artist.id,
+  name: artist.name,
+  subtitle: artist.genres?.slice(0, 2).join(", ") ?? "",
+  imageUrl: artist.images?.[artist.images.length - 1]?.url,
+});
+
+const DeltaBadge: React.FC<{ change: RankChange<RankedItem> }> = ({
+  change,
+}) => {
+  if (change.previousRank === null) {
+    return (
+      <span className="text-xs font-bold text-purple-400">
+        NEW #{change.currentRank}
+      </span>
+    );
+  }
+  if (change.currentRank === null) {
+    return (
+      <span className="text-xs font-bold text-gray-400">
+        was #{change.previousRank}
+      </span>
+    );
+  }
+  return (
+    <span
+      className={`text-xs font-bold ${
+        change.delta > 0 ? "text-spotify-green" : "text-red-400"
+      }`}
+      title={`#${change.previousRank} → #${change.currentRank}`}
+    >
+      {change.delta > 0 ? "▲" : "▼"} {Math.abs(change.delta)}
+    </span>
+  );
+};
+
+const TrendColumn: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  changes: RankChange<RankedItem>[];
+  emptyText: string;
+}> = ({ title, icon, changes, emptyText }) => (
+  <div className="bg-gray-700/30 rounded-lg p-4">
+    <h4 className="font-bold flex items-center gap-2 mb-3">
+      {icon}
+      {title}
+      <span className="text-xs text-spotify-lightgray font-normal">
+        ({changes.length})
+      </span>
+    </h4>
+    {changes.length === 0 ? (
+      <p className="text-sm text-spotify-lightgray">{emptyText}</p>
+    ) : (
+      <div className="space-y-2">
+        {changes.slice(0, ENTRIES_SHOWN).map((change) => (
+          <div key={change.item.id} className="flex items-center gap-3">
+            {change.item.imageUrl ? (
+              <img
+                src={change.item.imageUrl}
+                alt={change.item.name}
+                className="w-8 h-8 rounded object-cover"
+              />
+            ) : (
+              <div className="w-8 h-8 rounded bg-gray-600 flex items-center justify-center">
+                <Music size={14} className="text-gray-400" />
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">
+                {change.item.name}
+              </div>
+              <div className="text-xs text-spotify-lightgray truncate">
+                {change.item.subtitle}
+              </div>
+            </div>
+            <DeltaBadge change={change} />
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+// Rising / falling / new / dropped columns for one comparison
+export const RankingTrends: React.FC<{
+  comparison: RankingComparison<RankedItem>;
+  subject: Subject;
+}> = ({ comparison, subject }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <TrendColumn
+      title="Rising"
+      icon={<TrendingUp size={18} className="text-spotify-green" />}
+      changes={comparison.rising}
+      emptyText={`No ${subject} climbed.`}
+    />
+    <TrendColumn
+      title="Falling"
+      icon={<TrendingDown size={18} className="text-red-400" />}
+      changes={comparison.falling}
+      emptyText={`No ${subject} slipped.`}
+    />
+    <TrendColumn
+      title="New Entries"
+      icon={<Sparkles size={18} className="text-purple-400" />}
+      changes={comparison.newEntries}
+      emptyText={`No new ${subject}.`}
+    />
+    <TrendColumn
+      title="Dropped Out"
+      icon={<LogOut size={18} className="text-gray-400" />}
+      changes={comparison.dropped}
+      emptyText={`No ${subject} dropped out.`}
+    />
+  </div>
+);
+
+export const TrendComparison: React.FC<TrendComparisonProps> = ({
+  snapshots,
+  timeRangeOptions,
+}) => {
+  // Default to the widest gap: all-time favourites vs the last 4 weeks
+  const [fromRange, setFromRange] = useState<TimeRange>("long_term");
+  const [toRange, setToRange] = useState<TimeRange>("short_term");
+  const [subject, setSubject] = useState<Subject>("tracks");
+
+  const labelFor = (range: TimeRange) =>
+    timeRangeOptions.find((option) => option.value === range)?.label ?? range;
+
+  const comparison = useMemo(() => {
+    const from = snapshots[fromRange];
+    const to = snapshots[toRange];
+    return subject === "tracks"
+      ? compareRankings(
+          from.tracks.map(toRankedTrack),
+          to.tracks.map(toRankedTrack),
+          (item) => item.id
+        )
+      : compareRankings(
+          from.artists.map(toRankedArtist),
+          to.artists.map(toRankedArtist),
+          (item) => item.id
+        );
+  }, [snapshots, fromRange, toRange, subject]);
+
+  return (
+    <div className="space-y-8">
+      {/* Per-period summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {timeRangeOptions.map((option) => {
+          const { stats, artists } = snapshots[option.value];
+          return (
+            <div
+              key={option.value}
+              className="bg-spotify-darkgray p-4 rounded-lg"
+            >
+              <div className="font-bold mb-3">{option.label}</div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <div className="text-lg font-bold text-blue-400">
+                    {stats.uniqueArtists}
+                  </div>
+                  <div className="text-xs text-spotify-lightgray">Artists</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-yellow-400">
+                    {stats.averagePopularity}%
+                  </div>
+                  <div className="text-xs text-spotify-lightgray">
+                    Popularity
+                  </div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-purple-400">
+                    {stats.totalTracks > 0
+                      ? Math.round(
+                          (stats.uniqueArtists / stats.totalTracks) * 100
+                        )
+                      : 0}
+                    %
+                  </div>
+                  <div className="text-xs text-spotify-lightgray">
+                    Diversity
+                  </div>
+                </div>
+              </div>
+              <div className="mt-3 text-sm text-spotify-lightgray truncate">
+                Top artist:{" "}
+                <span className="text-white">{artists[0]?.name ?? "—"}</span>
+              </div>
+              <div className="text-sm text-spotify-lightgray truncate capitalize">
+                Top genre:{" "}
+                <span className="text-white">{stats.topGenres[0] ?? "—"}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Trends between two periods */}
+      <div className="bg-spotify-darkgray p-6 rounded-lg">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <select
+            value={fromRange}
+            onChange={(e) => setFromRange(e.target.value as TimeRange)}
+            className="bg-gray-700 rounded-lg px-3 py-2 cursor-pointer"
+          >
+            {timeRangeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <ArrowRight size={20} className="text-spotify-lightgray" />
+          <select
+            value={toRange}
+            onChange={(e) => setToRange(e.target.value as TimeRange)}
+            className="bg-gray-700 rounded-lg px-3 py-2 cursor-pointer"
+          >
+            {timeRangeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex gap-2 ml-auto">
+            {(["tracks", "artists"] as Subject[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setSubject(value)}
+                className={`px-4 py-2 rounded-lg cursor-pointer flex items-center gap-2 capitalize ${
+                  subject === value
+                    ? "bg-spotify-green text-black"
+                    : "bg-gray-700 hover:bg-gray-600"
+                }`}
+              >
+                {value === "tracks" ? <Music size={16} /> : <User size={16} />}
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {fromRange === toRange ? (
+          <p className="text-spotify-lightgray text-center py-8">
+            Pick two different periods to see how your taste changed.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-spotify-lightgray mb-4">
+              How your top {subject} moved from {labelFor(fromRange)} to{" "}
+              {labelFor(toRange)}. {comparison.unchanged} held their rank.
+            </p>
+            <RankingTrends comparison={comparison} subject={subject} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
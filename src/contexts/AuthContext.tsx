@@ -1,7 +1,18 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
-import { spotifyApi, setSpotifyToken, spotifyAuth } from "../services/api";
+import {
+  spotifyApi,
+  setSpotifyToken,
+  spotifyAuth,
+  setTokenRefreshHandler,
+  refreshSpotifyToken,
+} from "../services/api";
+import type { SpotifyTokenResponse } from "../services/api";
+import { spotifyCache } from "../services/spotifyCache";
 import type { SpotifyUser, AuthContextType } from "../types";
 
+// How long before expiry the access token is renewed
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -19,6 +30,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [user, setUser] = useState<SpotifyUser | null>(null);
   const [loading, setLoading] = useState(true); // Add loading state
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
 
   const setToken = (token: string) => {
     console.log("Setting token:", token); // Debug log
@@ -28,66 +41,87 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setIsAuthenticated(true);
   };
 
-  const login = () => {
-    window.location.href = spotifyAuth.getAuthUrl();
+  const login = async () => {
+    window.location.href = await spotifyAuth.getAuthUrl();
   };
 
   const logout = () => {
     console.log("Logging out"); // Debug log
     setAccessToken(null);
     setUser(null);
+    setScopes([]);
+    setTokenExpiresAt(null);
     setIsAuthenticated(false);
     localStorage.removeItem("spotify_access_token");
     localStorage.removeItem("spotify_token_expires");
+    localStorage.removeItem("spotify_refresh_token");
+    localStorage.removeItem("spotify_granted_scopes");
+    spotifyCache.reset();
   };
 
-  const handleCallback = async () => {
+  // Persist a token response from either the code exchange or a refresh
+  const storeTokenResponse = (tokenResponse: SpotifyTokenResponse) => {
+    const expiresAt = Date.now() + tokenResponse.expires_in * 1000;
+    const grantedScopes = tokenResponse.scope
+      .split(" ")
+      .filter((scope) => scope.length > 0);
+
+    localStorage.setItem("spotify_token_expires", expiresAt.toString());
+    localStorage.setItem("spotify_granted_scopes", grantedScopes.join(" "));
+    // Spotify may rotate the refresh token; keep the old one otherwise
+    if (tokenResponse.refresh_token) {
+      localStorage.setItem(
+        "spotify_refresh_token",
+        tokenResponse.refresh_token
+      );
+    }
+
+    setScopes(grantedScopes);
+    setTokenExpiresAt(expiresAt);
+    setToken(tokenResponse.access_token);
+  };
+
+  const refreshSession = async (): Promise<string> => {
+    const refreshToken = localStorage.getItem("spotify_refresh_token");
+    if (!refreshToken) {
+      logout();
+      throw new Error("No refresh token available");
+    }
+
     try {
-      console.log("Handling callback..."); // Debug log
-
-      // First, try to get token from URL hash (implicit flow)
-      const tokenData = spotifyAuth.getTokenFromUrl();
-      if (tokenData) {
-        console.log("Found token in URL hash"); // Debug log
-        const expiresAt = Date.now() + tokenData.expires_in * 1000;
-        localStorage.setItem("spotify_token_expires", expiresAt.toString());
-        setToken(tokenData.access_token);
-
-        // Clear the hash from URL
-        window.history.replaceState(
-          {},
-          document.title,
-          window.location.pathname
-        );
-        return;
-      }
+      console.log("Refreshing access token..."); // Debug log
+      const tokenResponse = await spotifyAuth.refreshAccessToken(refreshToken);
+      storeTokenResponse(tokenResponse);
+      return tokenResponse.access_token;
+    } catch (error) {
+      console.error("Failed to refresh access token:", error);
+      logout();
+      throw error;
+    }
+  };
 
-      // Fallback: try authorization code flow
-      const code = spotifyAuth.getCodeFromUrl();
-      if (code) {
-        console.log("Found authorization code"); // Debug log
-        try {
-          const tokenResponse = await spotifyAuth.exchangeCodeForToken(code);
-          setToken(tokenResponse.access_token);
-
-          // Clear the code from URL
-          window.history.replaceState(
-            {},
-            document.title,
-            window.location.pathname
-          );
-        } catch (error) {
-          console.error("Authorization code flow failed:", error);
-          // Redirect back to login
-          window.location.href = "/";
-        }
-      }
+  const handleCallback = async (code: string, state: string | null) => {
+    console.log("Handling callback..."); // Debug log
+
+    try {
+      const tokenResponse = await spotifyAuth.exchangeCodeForToken(code, state);
+      storeTokenResponse(tokenResponse);
+
+      // Clear the code and state from URL
+      window.history.replaceState({}, document.title, window.location.pathname);
     } catch (error) {
-      console.error("Authentication error:", error);
+      console.error("Authorization code flow failed:", error);
       logout();
+      throw error;
     }
   };
 
+  // Let the Spotify client renew the session when a request comes back 401
+  useEffect(() => {
+    setTokenRefreshHandler(refreshSession);
+    return () => setTokenRefreshHandler(null);
+  }, []);
+
   useEffect(() => {
     const initializeAuth = async () => {
       console.log("Initializing auth..."); // Debug log
@@ -95,34 +129,49 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
       // Check for existing token
       const token = localStorage.getItem("spotify_access_token");
       const expiresAt = localStorage.getItem("spotify_token_expires");
+      const refreshToken = localStorage.getItem("spotify_refresh_token");
 
       console.log("Stored token:", token ? "exists" : "none"); // Debug log
       console.log("Token expires at:", expiresAt); // Debug log
 
       if (token && expiresAt && Date.now() < parseInt(expiresAt)) {
         console.log("Using stored token"); // Debug log
+        setScopes(
+          (localStorage.getItem("spotify_granted_scopes") || "")
+            .split(" ")
+            .filter((scope) => scope.length > 0)
+        );
+        setTokenExpiresAt(parseInt(expiresAt));
         setToken(token);
+      } else if (token && refreshToken) {
+        console.log("Token expired, refreshing"); // Debug log
+        await refreshSpotifyToken().catch(() => undefined);
       } else if (token) {
         console.log("Token expired, logging out"); // Debug log
         logout();
       }
 
-      // Handle callback if we're on the callback page
-      if (
-        window.location.pathname === "/auth/callback" ||
-        window.location.hash.includes("access_token") ||
-        window.location.search.includes("code=")
-      ) {
-        console.log("Detected callback URL"); // Debug log
-        await handleCallback();
-      }
-
+      // The code exchange itself is driven by AuthCallback on /auth/callback
       setLoading(false); // Set loading to false after initialization
     };
 
     initializeAuth();
   }, []);
 
+  // Renew the access token shortly before it expires
+  useEffect(() => {
+    if (tokenExpiresAt === null) return;
+
+    const delay = Math.max(0, tokenExpiresAt - Date.now() - REFRESH_MARGIN_MS);
+    const timer = setTimeout(() => {
+      refreshSpotifyToken().catch((error) => {
+        console.error("Scheduled token refresh failed:", error);
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [tokenExpiresAt]);
+
   useEffect(() => {
     if (isAuthenticated && accessToken && !user) {
       console.log("Fetching user data..."); // Debug log
@@ -130,6 +179,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         .getCurrentUser()
         .then((userData) => {
           console.log("User data fetched:", userData); // Debug log
+          // Drops cached Spotify data left over from another account
+          spotifyCache.setAccount(userData.id);
           setUser(userData);
         })
         .catch((error) => {
@@ -150,6 +201,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         isAuthenticated,
         accessToken,
         user,
+        scopes,
         login,
         logout,
         setToken,
@@ -1,5 +1,6 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectFunctionsEmulator, getFunctions } from "firebase/functions";
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -15,4 +16,21 @@ const app = initializeApp(firebaseConfig);
 
 const db = getFirestore(app);
 
-export { db };
+// Offline development: talk to a local emulator, e.g. "localhost:8080"
+const emulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(":");
+  connectFirestoreEmulator(db, host, Number(port) || 8080);
+}
+
+// Callable functions live next to the HTTP preview functions
+const functions = getFunctions(app, "us-central1");
+
+// e.g. "localhost:5001", from `npm run emulators` in functions/
+const functionsEmulatorHost = import.meta.env.VITE_FUNCTIONS_EMULATOR_HOST;
+if (functionsEmulatorHost) {
+  const [host, port] = functionsEmulatorHost.split(":");
+  connectFunctionsEmulator(functions, host, Number(port) || 5001);
+}
+
+export { db, functions };
@@ -0,0 +1,202 @@
+import type {
+  SpotifyArtist,
+  SpotifyPlaylist,
+  SpotifyTrack,
+  SpotifyUser,
+} from "../types";
+
+// Fixture data for offline development. Everything is generated locally,
+// including artwork (SVG data URLs) and previews (WAV data URLs), so the
+// app renders without touching the network.
+
+const palette = [
+  "#1db954",
+  "#e91e63",
+  "#3f51b5",
+  "#ff9800",
+  "#9c27b0",
+  "#00bcd4",
+  "#f44336",
+  "#8bc34a",
+  "#795548",
+  "#607d8b",
+];
+
+const artworkUrl = (label: string, index: number): string => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300"><rect width="300" height="300" fill="${
+    palette[index % palette.length]
+  }"/><text x="150" y="165" font-size="28" font-family="sans-serif" fill="#fff" text-anchor="middle">${label
+    .slice(0, 16)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const images = (label: string, index: number) => [
+  { url: artworkUrl(label, index), width: 640, height: 640 },
+  { url: artworkUrl(label, index), width: 300, height: 300 },
+  { url: artworkUrl(label, index), width: 64, height: 64 },
+];
+
+// A short sine tone as a WAV data URL, pitched differently per track
+export const previewToneUrl = (seed: number): string => {
+  const sampleRate = 8000;
+  const seconds = 3;
+  const frequency = 220 + (seed % 12) * 40;
+  const samples = sampleRate * seconds;
+  const buffer = new DataView(new ArrayBuffer(44 + samples));
+
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) =>
+      buffer.setUint8(offset + i, char.charCodeAt(0))
+    );
+
+  writeString(0, "RIFF");
+  buffer.setUint32(4, 36 + samples, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  buffer.setUint32(16, 16, true);
+  buffer.setUint16(20, 1, true); // PCM
+  buffer.setUint16(22, 1, true); // Mono
+  buffer.setUint32(24, sampleRate, true);
+  buffer.setUint32(28, sampleRate, true);
+  buffer.setUint16(32, 1, true);
+  buffer.setUint16(34, 8, true); // 8-bit
+  writeString(36, "data");
+  buffer.setUint32(40, samples, true);
+  for (let i = 0; i < samples; i++) {
+    const sample = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    buffer.setUint8(44 + i, Math.round(128 + sample * 60));
+  }
+
+  let binary = "";
+  new Uint8Array(buffer.buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:audio/wav;base64,${btoa(binary)}`;
+};
+
+const artistSeeds: [string, string[], number][] = [
+  ["Aurora Lane", ["indie pop", "dream pop"], 72],
+  ["The Midnight Owls", ["indie rock", "alternative rock"], 65],
+  ["周杰倫", ["mandopop", "taiwan pop"], 83],
+  ["DJ Kitsune", ["j-pop", "anime"], 61],
+  ["Beyoncé Fan Club", ["r&b", "pop"], 58],
+  ["Los Relámpagos", ["latin pop", "reggaeton"], 77],
+  ["아이유", ["k-pop", "k-ballad"], 80],
+  ["Glass Harbor", ["synthwave", "electronic"], 54],
+  ["Old Oak Trio", ["folk", "americana"], 47],
+  ["Bassline Theory", ["drum and bass", "electronic"], 59],
+];
+
+export const mockArtists: SpotifyArtist[] = artistSeeds.map(
+  ([name, genres, popularity], index) => ({
+    id: `mock-artist-${index + 1}`,
+    name,
+    genres,
+    popularity,
+    images: images(name, index),
+    followers: { href: "", total: popularity * 12345 },
+  })
+);
+
+// [track name, artist index, album name, release date, popularity, has preview]
+const trackSeeds: [string, number, string, string, number, boolean][] = [
+  ["Northern Lights", 0, "Skyward", "2021-03-12", 74, true],
+  ["Paper Moons", 0, "Skyward", "2021-03-12", 63, false],
+  ["Runaway Static", 1, "Night Shift", "2019-09-20", 68, true],
+  ["Coffee at 3AM", 1, "Night Shift", "2019-09-20", 55, true],
+  ["晴天", 2, "葉惠美", "2003-07-31", 85, true],
+  ["稻香", 2, "魔杰座", "2008-10-15", 80, false],
+  ["夜に駆ける (Remastered 2020)", 3, "Neon Drift", "2020-01-10", 70, true],
+  ["Sakura Circuit", 3, "Neon Drift", "2020-01-10", 52, false],
+  ["Crown Me (feat. Aurora Lane)", 4, "Royalty", "2016-04-23", 66, true],
+  ["Golden Hour", 4, "Royalty", "2016-04-23", 60, true],
+  ["Corazón Eléctrico", 5, "Tormenta", "2022-06-01", 79, true],
+  ["Bailando Sola - Remix", 5, "Tormenta", "2022-06-01", 71, false],
+  ["좋은 날", 6, "Real", "2010-12-09", 82, true],
+  ["Blueming", 6, "Love poem", "2019-11-18", 78, true],
+  ["Miami 1986", 7, "Retrograde", "2018-08-08", 50, true],
+  ["Chrome Horizon", 7, "Retrograde", "2018-08-08", 45, false],
+  ["Riverbend", 8, "Timber", "2012-05-05", 41, true],
+  ["Lantern Song", 8, "Timber", "2012-05-05", 38, true],
+  ["Amen Break Dawn", 9, "Low End", "2015-02-14", 57, true],
+  ["Sub Pressure - Radio Edit", 9, "Low End", "2015-02-14", 53, false],
+  ["Starlight Avenue", 0, "Afterglow", "2023-10-27", 69, true],
+  ["Highway Hymns", 1, "Dashboard Lights", "2024-02-02", 62, true],
+  ["告白氣球", 2, "周杰倫的床邊故事", "2016-06-24", 84, true],
+  ["Pixel Heart", 3, "Arcade", "2023-07-07", 58, true],
+  ["Velvet Rope", 4, "Encore", "2024-05-17", 64, false],
+  ["Fuego Lento", 5, "Brasas", "2024-09-13", 75, true],
+  ["밤편지", 6, "Palette", "2017-03-24", 81, true],
+  ["Vaporwave Sunset", 7, "Afterimage", "2021-11-11", 49, true],
+  ["Porch Light", 8, "Homestead", "2020-04-04", 44, false],
+  ["Jungle Clock", 9, "Tempo Shift", "2022-12-12", 60, true],
+];
+
+export const mockTracks: SpotifyTrack[] = trackSeeds.map(
+  ([name, artistIndex, albumName, releaseDate, popularity, hasPreview], i) => {
+    const artist = mockArtists[artistIndex];
+    return {
+      id: `mock-track-${i + 1}`,
+      name,
+      artists: [{ id: artist.id, name: artist.name }],
+      album: {
+        id: `mock-album-${albumName.toLowerCase().replace(/\W+/g, "-")}`,
+        name: albumName,
+        images: images(albumName, artistIndex),
+        release_date: releaseDate,
+      },
+      // Some tracks lack previews so the preview-finder paths get exercised
+      preview_url: hasPreview ? previewToneUrl(i) : null,
+      popularity,
+      external_urls: { spotify: `https://open.spotify.com/track/mock-${i}` },
+    };
+  }
+);
+
+export const mockUser: SpotifyUser = {
+  id: "mock-user",
+  display_name: "Offline Listener",
+  email: "offline@example.com",
+  images: images("Offline Listener", 0),
+};
+
+// Each time range sees the library in a different order
+export const mockTopTracksByRange: Record<string, SpotifyTrack[]> = {
+  short_term: [...mockTracks].reverse(),
+  medium_term: mockTracks,
+  long_term: [...mockTracks].sort((a, b) => b.popularity - a.popularity),
+};
+
+export const mockPlaylists: SpotifyPlaylist[] = [
+  {
+    id: "mock-playlist-1",
+    name: "Late Night Drive",
+    description: "Synths and static",
+    public: false,
+    owner: { id: mockUser.id, display_name: mockUser.display_name },
+    tracks: { total: 10 },
+  },
+  {
+    id: "mock-playlist-2",
+    name: "Asia Top Picks",
+    description: "",
+    public: true,
+    owner: { id: mockUser.id, display_name: mockUser.display_name },
+    tracks: { total: 8 },
+  },
+];
+
+export const mockPlaylistTracks: Record<string, SpotifyTrack[]> = {
+  "mock-playlist-1": mockTracks.filter((_, i) => i % 3 === 0),
+  "mock-playlist-2": mockTracks.filter((track) =>
+    ["mock-artist-3", "mock-artist-4", "mock-artist-7"].includes(
+      track.artists[0].id
+    )
+  ),
+};
+
+export const mockGenreSeeds = Array.from(
+  new Set(mockArtists.flatMap((artist) => artist.genres ?? []))
+);
@@ -0,0 +1,314 @@
+import { AxiosError } from "axios";
+import type {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import {
+  mockArtists,
+  mockGenreSeeds,
+  mockPlaylists,
+  mockPlaylistTracks,
+  mockTopTracksByRange,
+  mockTracks,
+  mockUser,
+  previewToneUrl,
+} from "./fixtures";
+
+// Axios adapters that answer Spotify, Spotify Accounts and preview Cloud
+// Function requests from fixtures. Enabled with VITE_USE_MOCK_SPOTIFY=true.
+
+const SPOTIFY_BASE = "https://api.spotify.com/v1";
+
+const respond = <T>(
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: T
+): Promise<AxiosResponse<T>> => {
+  const response: AxiosResponse<T> = {
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+  };
+
+  if (status >= 400) {
+    return Promise.reject(
+      new AxiosError(
+        `Mock request failed with status code ${status}`,
+        status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response
+      )
+    );
+  }
+  return Promise.resolve(response);
+};
+
+const notFound = (config: InternalAxiosRequestConfig) =>
+  respond(config, 404, {
+    error: { status: 404, message: "Mock endpoint not found" },
+  });
+
+// Resolve baseURL + url + params into a path and merged query
+const parseRequest = (config: InternalAxiosRequestConfig) => {
+  const rawUrl = config.url ?? "";
+  const url = new URL(
+    /^https?:/.test(rawUrl) ? rawUrl : `${config.baseURL ?? ""}${rawUrl}`
+  );
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  });
+  return url;
+};
+
+const parseBody = (config: InternalAxiosRequestConfig) => {
+  if (typeof config.data !== "string") return config.data ?? {};
+  try {
+    return JSON.parse(config.data);
+  } catch {
+    return Object.fromEntries(new URLSearchParams(config.data));
+  }
+};
+
+// Build an offset page whose `next` link points back at the mock
+const page = <T>(url: URL, items: T[], maxLimit: number = 50) => {
+  const limit = Math.min(Number(url.searchParams.get("limit") ?? 20), maxLimit);
+  const offset = Number(url.searchParams.get("offset") ?? 0);
+  const nextUrl = new URL(url.toString());
+  nextUrl.searchParams.set("offset", String(offset + limit));
+
+  return {
+    href: url.toString(),
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    limit,
+    offset,
+    next: offset + limit < items.length ? nextUrl.toString() : null,
+    previous: null,
+  };
+};
+
+// Recently played: one play every 37 minutes going back from now,
+// paged with `before` cursors like the real endpoint
+const recentlyPlayed = (url: URL) => {
+  const limit = Math.min(Number(url.searchParams.get("limit") ?? 20), 50);
+  const before = Number(url.searchParams.get("before") ?? Date.now());
+  const plays = mockTracks
+    .map((track, i) => ({
+      track,
+      played_at: new Date(Date.now() - (i + 1) * 37 * 60 * 1000).toISOString(),
+    }))
+    .filter((play) => Date.parse(play.played_at) < before)
+    .slice(0, limit);
+
+  const oldest = plays[plays.length - 1];
+  const nextUrl = new URL(`${SPOTIFY_BASE}/me/player/recently-played`);
+  nextUrl.searchParams.set("limit", String(limit));
+  if (oldest) {
+    nextUrl.searchParams.set("before", String(Date.parse(oldest.played_at)));
+  }
+
+  return {
+    href: url.toString(),
+    items: plays,
+    limit,
+    next: plays.length === limit && oldest ? nextUrl.toString() : null,
+    cursors: oldest
+      ? {
+          before: String(Date.parse(oldest.played_at)),
+          after: String(Date.parse(plays[0].played_at)),
+        }
+      : null,
+  };
+};
+
+// Artists ranked by their first appearance in the range's top tracks
+const topArtistsFor = (range: string) => {
+  const tracks = mockTopTracksByRange[range] ?? mockTracks;
+  const ids = Array.from(new Set(tracks.map((track) => track.artists[0].id)));
+  return ids
+    .map((id) => mockArtists.find((artist) => artist.id === id))
+    .filter((artist) => artist !== undefined);
+};
+
+const audioFeatures = (id: string) => {
+  const seed = [...id].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return {
+    id,
+    acousticness: (seed % 100) / 100,
+    danceability: ((seed * 7) % 100) / 100,
+    energy: ((seed * 13) % 100) / 100,
+    valence: ((seed * 17) % 100) / 100,
+    tempo: 80 + (seed % 100),
+  };
+};
+
+export const mockSpotifyAdapter: AxiosAdapter = async (config) => {
+  const url = parseRequest(config);
+  const path = url.pathname.replace(/^\/v1/, "");
+  const method = (config.method ?? "get").toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if (method === "get") {
+    if (path === "/me") return respond(config, 200, mockUser);
+
+    if (path === "/me/top/tracks") {
+      const range = url.searchParams.get("time_range") ?? "medium_term";
+      const tracks = mockTopTracksByRange[range] ?? mockTracks;
+      return respond(config, 200, page(url, tracks));
+    }
+
+    if (path === "/me/top/artists") {
+      const range = url.searchParams.get("time_range") ?? "medium_term";
+      return respond(config, 200, page(url, topArtistsFor(range)));
+    }
+
+    if (path === "/me/player/recently-played") {
+      return respond(config, 200, recentlyPlayed(url));
+    }
+
+    if (path === "/me/tracks") {
+      const saved = mockTracks.map((track, i) => ({
+        added_at: new Date(Date.now() - i * 86400000).toISOString(),
+        track,
+      }));
+      return respond(config, 200, page(url, saved));
+    }
+
+    if (path === "/me/playlists") {
+      return respond(config, 200, page(url, mockPlaylists));
+    }
+
+    if ((match = path.match(/^\/playlists\/([^/]+)\/tracks$/))) {
+      const tracks = mockPlaylistTracks[match[1]];
+      if (!tracks) return notFound(config);
+      const items = tracks.map((track) => ({
+        added_at: new Date().toISOString(),
+        track,
+      }));
+      return respond(config, 200, page(url, items, 100));
+    }
+
+    if ((match = path.match(/^\/artists\/([^/]+)$/))) {
+      const artist = mockArtists.find((a) => a.id === match![1]);
+      return artist ? respond(config, 200, artist) : notFound(config);
+    }
+
+    if (path === "/recommendations/available-genre-seeds") {
+      return respond(config, 200, { genres: mockGenreSeeds });
+    }
+
+    if (path === "/recommendations") {
+      const seeds = (url.searchParams.get("seed_tracks") ?? "").split(",");
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      const tracks = mockTracks
+        .filter((track) => !seeds.includes(track.id))
+        .slice(0, limit);
+      return respond(config, 200, { tracks, seeds: [] });
+    }
+
+    if (path === "/audio-features") {
+      const ids = (url.searchParams.get("ids") ?? "").split(",");
+      return respond(config, 200, {
+        audio_features: ids.filter(Boolean).map(audioFeatures),
+      });
+    }
+  }
+
+  if (method === "post") {
+    if ((match = path.match(/^\/users\/([^/]+)\/playlists$/))) {
+      const body = parseBody(config);
+      const id = `mock-playlist-${Date.now()}`;
+      return respond(config, 201, {
+        id,
+        name: body.name,
+        external_urls: { spotify: `https://open.spotify.com/playlist/${id}` },
+      });
+    }
+
+    if (path.match(/^\/playlists\/([^/]+)\/tracks$/)) {
+      return respond(config, 201, {
+        snapshot_id: `mock-snapshot-${Date.now()}`,
+      });
+    }
+  }
+
+  return notFound(config);
+};
+
+// Token endpoint: every code or refresh token is accepted
+export const mockAccountsAdapter: AxiosAdapter = async (config) => {
+  const body = parseBody(config);
+  return respond(config, 200, {
+    access_token: `mock-access-token-${Date.now()}`,
+    token_type: "Bearer",
+    scope: import.meta.env.VITE_SPOTIFY_SCOPES || "user-top-read",
+    expires_in: 3600,
+    refresh_token:
+      body.grant_type === "refresh_token"
+        ? body.refresh_token
+        : "mock-refresh-token",
+  });
+};
+
+// Fake Deezer search behind the preview Cloud Functions. Every track finds
+// a generated tone, keyed by its position in the fixtures when known.
+const findMockPreview = (artist: string, title: string): string => {
+  const index = mockTracks.findIndex(
+    (track) => track.name === title && track.artists[0].name === artist
+  );
+  const seed =
+    index >= 0
+      ? index
+      : [...`${artist}${title}`].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return previewToneUrl(seed);
+};
+
+export const createMockPreviewAdapter =
+  (urls: {
+    getPreviewUrl: string;
+    getBatchPreviewUrls: string;
+    keepWarm: string;
+  }): AxiosAdapter =>
+  async (config) => {
+    const url = parseRequest(config);
+    const endpoint = `${url.origin}${url.pathname}`.replace(/\/$/, "");
+    const matches = (target: string) => endpoint === target.replace(/\/$/, "");
+
+    if (matches(urls.getPreviewUrl)) {
+      return respond(config, 200, {
+        preview_url: findMockPreview(
+          url.searchParams.get("artist") ?? "",
+          url.searchParams.get("title") ?? ""
+        ),
+        source: "mock-deezer",
+      });
+    }
+
+    if (matches(urls.getBatchPreviewUrls)) {
+      const { tracks = [] } = parseBody(config) as {
+        tracks?: { artist: string; title: string }[];
+      };
+      return respond(config, 200, {
+        results: tracks.map(({ artist, title }) => ({
+          preview_url: findMockPreview(artist, title),
+        })),
+      });
+    }
+
+    if (matches(urls.keepWarm)) {
+      return respond(config, 200, {
+        status: "warm",
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return notFound(config);
+  };
@@ -0,0 +1,60 @@
+import { createRequire } from "node:module";
+import { describe, expect, it } from "vitest";
+import * as client from "./answerMatching";
+import corpus from "./answerMatching.corpus.json";
+
+// The copy submitGotifyGame uses to re-judge guesses
+const server = createRequire(import.meta.url)(
+  "../../functions/answerMatching.js"
+) as typeof client;
+
+// The same cutoffs Gotify scores guesses with
+const judge = (similarity: number) =>
+  similarity >= 0.8 ? "correct" : similarity >= 0.6 ? "partial" : "wrong";
+
+describe("answerSimilarity", () => {
+  it.each(corpus.similarity)(
+    "$guess vs $answer is $expected",
+    ({ guess, answer, aliases, expected }) => {
+      expect(judge(client.answerSimilarity(guess, answer, { aliases }))).toBe(
+        expected
+      );
+    }
+  );
+
+  it("doesn't accept a lone common word", () => {
+    expect(client.answerSimilarity("the", "The Weeknd")).toBeLessThan(0.6);
+  });
+});
+
+describe("stripVersionInfo", () => {
+  it.each(corpus.stripVersionInfo)("$title", ({ title, stripped }) => {
+    expect(client.stripVersionInfo(title)).toBe(stripped);
+  });
+});
+
+describe("romanize", () => {
+  it.each(corpus.romanize)("$text", ({ text, romanized }) => {
+    expect(client.romanize(text)).toBe(romanized);
+  });
+});
+
+// Any difference between the copies makes honest scores fail validation
+describe("server copy", () => {
+  it.each(corpus.similarity)(
+    "scores $guess vs $answer the same",
+    ({ guess, answer, aliases }) => {
+      expect(server.answerSimilarity(guess, answer, { aliases })).toBe(
+        client.answerSimilarity(guess, answer, { aliases })
+      );
+    }
+  );
+
+  it.each(corpus.stripVersionInfo)("strips $title the same", ({ title }) => {
+    expect(server.stripVersionInfo(title)).toBe(client.stripVersionInfo(title));
+  });
+
+  it.each(corpus.romanize)("romanizes $text the same", ({ text }) => {
+    expect(server.romanize(text)).toBe(client.romanize(text));
+  });
+});
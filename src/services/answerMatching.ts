@@ -0,0 +1,304 @@
+// Fuzzy matching of typed guesses against track titles and artist names.
+// Works on any script: nothing is thrown away just for not being ASCII,
+// typos are tolerated via edit distance, and version noise such as
+// "(feat. X)" or "- Remastered 2011" is ignored.
+
+export interface MatchOptions {
+  // Extra accepted spellings, e.g. a pinyin title for a Chinese song
+  aliases?: string[];
+}
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Words that mark a bracketed or dashed suffix as version info
+const VERSION_KEYWORDS =
+  /\b(feat|ft|featuring|with|remaster(ed)?|live|version|edit|mix|remix|mono|stereo|demo|acoustic|deluxe|bonus|instrumental|radio|extended|original|single|album|anniversary|from|prod|explicit|clean|re-?recorded|taylor'?s)\b|\d{4}/i;
+
+const BRACKETED = /\s*[([{（【［][^)\]}）】］]*[)\]}）】］]/g;
+
+/**
+ * Lowercase, fold compatibility forms (full-width letters, ligatures),
+ * drop accents from Latin/Greek/Cyrillic letters and turn punctuation into
+ * spaces. Letters and digits of every script are kept.
+ */
+export const normalizeAnswer = (value: string): string =>
+  value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .normalize("NFD")
+    // Only strip marks on alphabetic scripts; in kana they change the sound
+    .replace(
+      /([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu,
+      "$1"
+    )
+    .normalize("NFC")
+    .replace(/['’`]/g, "") // "don't" -> "dont", not "don t"
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/**
+ * Remove featuring credits and version suffixes:
+ * "Song (feat. X) - Remastered 2011" -> "Song".
+ * Returns the input unchanged if stripping would leave nothing.
+ */
+export const stripVersionInfo = (title: string): string => {
+  let stripped = title.replace(BRACKETED, (group) =>
+    VERSION_KEYWORDS.test(group) ? "" : group
+  );
+
+  // " - Radio Edit", " – Live at Wembley"
+  const dash = stripped.search(/\s[-–—]\s/);
+  if (dash > 0 && VERSION_KEYWORDS.test(stripped.slice(dash))) {
+    stripped = stripped.slice(0, dash);
+  }
+
+  // Unbracketed "Song feat. X"
+  stripped = stripped.replace(/\s+(feat\.?|ft\.|featuring)\s.*$/i, "");
+
+  stripped = stripped.trim();
+  return stripped.length > 0 ? stripped : title.trim();
+};
+
+// ---- Romanization ----
+
+// prettier-ignore
+const HANGUL_INITIALS = [
+  "g", "kk", "n", "d", "tt", "r", "m", "b", "pp", "s",
+  "ss", "", "j", "jj", "ch", "k", "t", "p", "h",
+];
+// prettier-ignore
+const HANGUL_VOWELS = [
+  "a", "ae", "ya", "yae", "eo", "e", "yeo", "ye", "o", "wa", "wae",
+  "oe", "yo", "u", "wo", "we", "wi", "yu", "eu", "ui", "i",
+];
+// prettier-ignore
+const HANGUL_FINALS = [
+  "", "k", "k", "k", "n", "n", "n", "t", "l", "k", "m", "l", "l", "l",
+  "p", "l", "m", "p", "p", "t", "t", "ng", "t", "t", "k", "t", "p", "t",
+];
+
+// Revised Romanization, syllable by syllable. Sound-change rules between
+// syllables are skipped; edit distance absorbs the difference.
+const romanizeHangul = (value: string): string =>
+  value.replace(/[가-힣]/g, (syllable) => {
+    const index = syllable.charCodeAt(0) - 0xac00;
+    const initial = Math.floor(index / (21 * 28));
+    const vowel = Math.floor((index % (21 * 28)) / 28);
+    const final = index % 28;
+    return (
+      HANGUL_INITIALS[initial] + HANGUL_VOWELS[vowel] + HANGUL_FINALS[final]
+    );
+  });
+
+const KANA_ROWS: [string, string[]][] = [
+  ["あいうえお", ["a", "i", "u", "e", "o"]],
+  ["かきくけこ", ["ka", "ki", "ku", "ke", "ko"]],
+  ["さしすせそ", ["sa", "shi", "su", "se", "so"]],
+  ["たちつてと", ["ta", "chi", "tsu", "te", "to"]],
+  ["なにぬねの", ["na", "ni", "nu", "ne", "no"]],
+  ["はひふへほ", ["ha", "hi", "fu", "he", "ho"]],
+  ["まみむめも", ["ma", "mi", "mu", "me", "mo"]],
+  ["やゆよ", ["ya", "yu", "yo"]],
+  ["らりるれろ", ["ra", "ri", "ru", "re", "ro"]],
+  ["わをん", ["wa", "o", "n"]],
+  ["がぎぐげご", ["ga", "gi", "gu", "ge", "go"]],
+  ["ざじずぜぞ", ["za", "ji", "zu", "ze", "zo"]],
+  ["だぢづでど", ["da", "ji", "zu", "de", "do"]],
+  ["ばびぶべぼ", ["ba", "bi", "bu", "be", "bo"]],
+  ["ぱぴぷぺぽ", ["pa", "pi", "pu", "pe", "po"]],
+  ["ぁぃぅぇぉ", ["a", "i", "u", "e", "o"]],
+  ["ゔ", ["vu"]],
+];
+
+const KANA = new Map<string, string>(
+  KANA_ROWS.flatMap(([kana, romaji]) =>
+    [...kana].map((char, i) => [char, romaji[i]] as [string, string])
+  )
+);
+
+const SMALL_Y: Record<string, string> = { ゃ: "a", ゅ: "u", ょ: "o" };
+
+// Hepburn romanization of hiragana and katakana
+const romanizeKana = (value: string): string => {
+  // Katakana sits 0x60 above the matching hiragana
+  const chars = [
+    ...value.replace(/[ァ-ヶ]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0x60)
+    ),
+  ];
+  let result = "";
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (char === "っ") {
+      // Geminate: double the next consonant
+      const following = next ? KANA.get(next) : undefined;
+      if (following) result += following[0];
+      continue;
+    }
+    if (char === "ー") {
+      // Long vowel mark repeats the previous vowel
+      result += result.slice(-1);
+      continue;
+    }
+
+    const romaji = KANA.get(char);
+    if (romaji === undefined) {
+      result += char;
+      continue;
+    }
+
+    // きゃ -> kya, しゃ -> sha, ちゃ -> cha
+    if (next && SMALL_Y[next] && romaji.endsWith("i") && romaji.length > 1) {
+      const stem = romaji.slice(0, -1);
+      result += /(sh|ch|j)$/.test(stem)
+        ? stem + SMALL_Y[next]
+        : `${stem}y${SMALL_Y[next]}`;
+      i++;
+      continue;
+    }
+
+    result += romaji;
+  }
+  return result;
+};
+
+/**
+ * Latin transliteration of Korean and Japanese kana, or null when the text
+ * has neither. Chinese characters have no rule-based reading, so songs
+ * with Han titles need explicit aliases.
+ */
+export const romanize = (value: string): string | null => {
+  if (
+    !/[\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(value)
+  ) {
+    return null;
+  }
+  return romanizeKana(romanizeHangul(value));
+};
+
+// ---- Similarity ----
+
+/** Edit distance between two strings, counted in code points. */
+export const levenshtein = (a: string, b: string): number => {
+  const left = [...a];
+  const right = [...b];
+  if (left.length === 0) return right.length;
+  if (right.length === 0) return left.length;
+
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[right.length];
+};
+
+// 1 for identical strings, 0 for nothing in common
+const editSimilarity = (a: string, b: string): number => {
+  const longest = Math.max([...a].length, [...b].length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+// Words too common to name a song or artist on their own
+// prettier-ignore
+const STOPWORDS = new Set([
+  "the", "a", "an", "and", "or", "of", "in", "on", "at", "to", "for",
+  "with", "my", "me", "you", "your", "i", "it", "is", "be", "we", "oh",
+  "la", "le", "les", "el", "los", "de", "der", "die", "das",
+]);
+
+// Single letters and lone common words like "the" must not
+// "contain-match" everything
+const isSubstantial = (value: string): boolean =>
+  [...value].length >= (UNSPACED_SCRIPT.test(value) ? 2 : 3) &&
+  value.split(" ").some((word) => !STOPWORDS.has(word));
+
+// Whole-word containment; unspaced scripts match anywhere
+const contains = (haystack: string, needle: string): boolean =>
+  UNSPACED_SCRIPT.test(needle)
+    ? haystack.includes(needle)
+    : ` ${haystack} `.includes(` ${needle} `);
+
+// Word-by-word match: each word of `a` scores its closest word in `b`
+// (typos allowed), averaged over the longer word list
+const wordOverlap = (a: string, b: string): number => {
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  const matched = wordsA.reduce((sum, word) => {
+    const closest = Math.max(
+      ...wordsB.map((other) => editSimilarity(word, other))
+    );
+    return closest >= 0.8 ? sum + closest : sum;
+  }, 0);
+  return matched / Math.max(wordsA.length, wordsB.length);
+};
+
+// Compare two already-normalized strings
+const compareNormalized = (guess: string, answer: string): number => {
+  if (!guess || !answer) return 0;
+  if (guess === answer) return 1;
+
+  // Spacing differs a lot in romanized and CJK text ("kimi no na wa")
+  const compactGuess = guess.replace(/ /g, "");
+  const compactAnswer = answer.replace(/ /g, "");
+  if (compactGuess === compactAnswer) return 1;
+
+  const scores = [
+    editSimilarity(compactGuess, compactAnswer),
+    wordOverlap(guess, answer),
+  ];
+
+  // Naming just the song when asked for "song artist" (and vice versa)
+  // has always counted as a strong match
+  const [shorter, longer] =
+    guess.length <= answer.length ? [guess, answer] : [answer, guess];
+  if (isSubstantial(shorter) && contains(longer, shorter)) {
+    scores.push(0.8);
+  }
+
+  return Math.max(...scores);
+};
+
+/**
+ * Similarity between a guess and an answer, from 0 to 1. The answer is
+ * tried as written, without version info, romanized, and via any aliases,
+ * and the best score wins.
+ */
+export const answerSimilarity = (
+  guess: string,
+  answer: string,
+  options: MatchOptions = {}
+): number => {
+  const normalizedGuess = normalizeAnswer(guess);
+  if (!normalizedGuess) return 0;
+
+  const variants = new Set<string>();
+  [answer, ...(options.aliases ?? [])].forEach((candidate) => {
+    [candidate, stripVersionInfo(candidate)].forEach((form) => {
+      variants.add(normalizeAnswer(form));
+      const romanized = romanize(form);
+      if (romanized) variants.add(normalizeAnswer(romanized));
+    });
+  });
+
+  let best = 0;
+  for (const variant of variants) {
+    best = Math.max(best, compareNormalized(normalizedGuess, variant));
+    if (best === 1) break;
+  }
+  return best;
+};
@@ -1,17 +1,66 @@
 import axios from "axios";
+import type {
+  AxiosAdapter,
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  InternalAxiosRequestConfig,
+} from "axios";
+import type { Unsubscribe } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
 import type {
   SpotifyUser,
   TopTracksResponse,
+  TopArtistsResponse,
   RecentlyPlayedResponse,
   LeaderboardEntry,
+  Friend,
+  RatedPlayer,
+  GameRating,
   SpotifyArtist,
   SpotifyTrack,
+  SpotifyPlaylist,
+  SpotifyPaging,
+  SpotifyCursorPaging,
+  RecentlyPlayedItem,
+  SavedTrackItem,
+  PlaylistTrackItem,
+  TimeRange,
+  AudioFeaturesResponse,
+  GotifyVariant,
 } from "../types";
+import { functions } from "../firebase";
+import { firestoreApi } from "./firestore";
+import type {
+  DailyChallenge,
+  FirestoreLeaderboardEntry,
+  LeaderboardCursor,
+  LeaderboardQuery,
+  PlayerProfile,
+  PoolTrack,
+  TurnResult,
+} from "./firestore";
+import { toSpotifyApiError } from "./spotifyErrors";
+import { getCacheRule, spotifyCache } from "./spotifyCache";
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
 const SPOTIFY_API_URL = "https://api.spotify.com/v1";
 
+// Offline development: answer Spotify, Accounts and preview requests from
+// local fixtures instead of the network (see src/mocks)
+const USE_MOCK_SPOTIFY = import.meta.env.VITE_USE_MOCK_SPOTIFY === "true";
+
+type MockAdapters = typeof import("../mocks/mockAdapters");
+
+// Loaded on first use so fixtures never ship in the normal bundle
+const lazyMockAdapter =
+  (pick: (mocks: MockAdapters) => AxiosAdapter): AxiosAdapter =>
+  async (config) => {
+    const mocks = await import("../mocks/mockAdapters");
+    return pick(mocks)(config);
+  };
+
 // Create axios instance for our Django backend
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
@@ -43,83 +92,400 @@ apiClient.interceptors.request.use(async (config) => {
   return config;
 });
 
+// Rate limiting shared by the Spotify and preview clients
+const MAX_CONCURRENT_SPOTIFY_REQUESTS = 4;
+const MAX_CONCURRENT_PREVIEW_REQUESTS = 3;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+type RateLimitedRequestConfig = InternalAxiosRequestConfig & {
+  _holdsSlot?: boolean;
+  _rateLimitRetries?: number;
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Honor Retry-After (seconds) when present, else back off exponentially,
+// with up to 30% jitter so queued requests don't retry in lockstep
+const getRetryDelay = (retryAfter: unknown, attempt: number): number => {
+  const retryAfterSeconds = Number(retryAfter);
+  const baseDelay =
+    Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+      ? retryAfterSeconds * 1000
+      : BASE_BACKOFF_MS * 2 ** (attempt - 1);
+  return Math.round(baseDelay * (1 + Math.random() * 0.3));
+};
+
+// Caps concurrent requests on a client and retries HTTP 429 responses.
+// A 429 pauses every request on the client until the Retry-After window ends.
+const applyRateLimiting = (client: AxiosInstance, maxConcurrent: number) => {
+  let activeRequests = 0;
+  let blockedUntil = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquireSlot = () =>
+    new Promise<void>((resolve) => {
+      if (activeRequests < maxConcurrent) {
+        activeRequests++;
+        resolve();
+      } else {
+        waiting.push(() => {
+          activeRequests++;
+          resolve();
+        });
+      }
+    });
+
+  const releaseSlot = (config?: RateLimitedRequestConfig) => {
+    if (!config?._holdsSlot) return;
+    config._holdsSlot = false;
+    activeRequests--;
+    waiting.shift()?.();
+  };
+
+  client.interceptors.request.use(async (config: RateLimitedRequestConfig) => {
+    await acquireSlot();
+    config._holdsSlot = true;
+
+    const pause = blockedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      releaseSlot(response.config);
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as RateLimitedRequestConfig | undefined;
+      releaseSlot(config);
+
+      const retries = config?._rateLimitRetries ?? 0;
+      if (
+        error.response?.status === 429 &&
+        config &&
+        retries < MAX_RATE_LIMIT_RETRIES
+      ) {
+        config._rateLimitRetries = retries + 1;
+        const delay = getRetryDelay(
+          error.response.headers["retry-after"],
+          config._rateLimitRetries
+        );
+        console.warn(`Rate limited on ${config.url}, retrying in ${delay}ms`);
+
+        blockedUntil = Math.max(blockedUntil, Date.now() + delay);
+        await sleep(delay);
+        return client(config);
+      }
+
+      return Promise.reject(error);
+    }
+  );
+};
+
 // Create axios instance for Spotify API
 const spotifyClient = axios.create({
   baseURL: SPOTIFY_API_URL,
 });
+applyRateLimiting(spotifyClient, MAX_CONCURRENT_SPOTIFY_REQUESTS);
+if (USE_MOCK_SPOTIFY) {
+  spotifyClient.defaults.adapter = lazyMockAdapter(
+    (mocks) => mocks.mockSpotifyAdapter
+  );
+}
+
+// Identical GETs already in flight share a single request
+const inFlightGets = new Map<string, Promise<unknown>>();
+
+const fetchAndCache = <T>(
+  key: string,
+  url: string,
+  config: AxiosRequestConfig | undefined,
+  cacheable: boolean
+): Promise<T> => {
+  const existing = inFlightGets.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const request = spotifyClient
+    .get<T>(url, config)
+    .then((response) => {
+      if (cacheable) {
+        spotifyCache.set(key, response.data);
+      }
+      return response.data;
+    })
+    .finally(() => {
+      inFlightGets.delete(key);
+    });
+  inFlightGets.set(key, request);
+  return request;
+};
+
+// GET a Spotify resource, answering from the persistent cache when the
+// endpoint has a cache rule. Stale entries are returned immediately while
+// a background request refreshes them (stale-while-revalidate).
+const spotifyGet = async <T>(
+  url: string,
+  config?: AxiosRequestConfig
+): Promise<T> => {
+  // Pagination `next` links are absolute; key everything by path
+  const path = url.startsWith(SPOTIFY_API_URL)
+    ? url.slice(SPOTIFY_API_URL.length)
+    : url;
+  const key = `${path}?${JSON.stringify(config?.params ?? {})}`;
+  const rule = getCacheRule(path);
+
+  if (rule) {
+    const cached = await spotifyCache.lookup<T>(key, rule);
+    if (cached.status === "fresh") {
+      return cached.data;
+    }
+    if (cached.status === "stale") {
+      fetchAndCache<T>(key, url, config, true).catch((error) => {
+        console.warn(`Background refresh of ${path} failed:`, error);
+      });
+      return cached.data;
+    }
+  }
+
+  return fetchAndCache<T>(key, url, config, rule !== null);
+};
+
+// Also sent to Cloud Functions that act on the player's behalf
+let spotifyAccessToken: string | null = null;
 
 // Add auth token to Spotify requests
 export const setSpotifyToken = (token: string) => {
+  spotifyAccessToken = token;
   spotifyClient.defaults.headers.common["Authorization"] = `Bearer ${token}`;
 };
 
+// Token refresh wiring - AuthProvider registers how to renew the session
+let tokenRefreshHandler: (() => Promise<string>) | null = null;
+let pendingRefresh: Promise<string> | null = null;
+
+export const setTokenRefreshHandler = (
+  handler: (() => Promise<string>) | null
+) => {
+  tokenRefreshHandler = handler;
+};
+
+// Renew the access token, sharing one in-flight refresh between all callers
+export const refreshSpotifyToken = (): Promise<string> => {
+  if (!tokenRefreshHandler) {
+    return Promise.reject(new Error("No token refresh handler registered"));
+  }
+
+  if (!pendingRefresh) {
+    pendingRefresh = tokenRefreshHandler().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+
+  return pendingRefresh;
+};
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retriedAfterRefresh?: boolean;
+};
+
 // Add error interceptor for Spotify API
 spotifyClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      console.error("Spotify token expired or invalid");
-      // Clear token and redirect to login
-      localStorage.removeItem("spotify_access_token");
-      window.location.href = "/";
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retriedAfterRefresh
+    ) {
+      // Wait for the shared refresh, then replay the request once
+      originalRequest._retriedAfterRefresh = true;
+      try {
+        const token = await refreshSpotifyToken();
+        originalRequest.headers.set("Authorization", `Bearer ${token}`);
+        return spotifyClient(originalRequest);
+      } catch (refreshError) {
+        console.error("Spotify token refresh failed:", refreshError);
+      }
     }
+
     return Promise.reject(error);
   }
 );
 
+// Largest page size most Spotify list endpoints accept
+const MAX_PAGE_SIZE = 50;
+
+// Walk a paged Spotify endpoint by following each page's `next` URL. This
+// covers both offset paging and before/after cursors, since Spotify bakes
+// the right offset or cursor into `next`.
+async function* paginate<T>(
+  path: string,
+  description: string,
+  params: Record<string, string | number | undefined>
+): AsyncGenerator<T> {
+  let url: string | null = path;
+  let pageParams: typeof params | undefined = params;
+
+  while (url) {
+    let page: SpotifyPaging<T> | SpotifyCursorPaging<T>;
+    try {
+      page = await spotifyGet<SpotifyPaging<T> | SpotifyCursorPaging<T>>(url, {
+        params: pageParams,
+      });
+    } catch (error) {
+      console.error(`Error fetching ${description}:`, error);
+      throw toSpotifyApiError(error, `Failed to fetch ${description}`);
+    }
+
+    yield* page.items;
+
+    // `next` is an absolute URL that already carries the query string
+    url = page.next;
+    pageParams = undefined;
+  }
+}
+
+// Drain a pagination helper into an array, stopping early at maxItems
+export const collectItems = async <T>(
+  items: AsyncIterable<T>,
+  maxItems: number = Infinity
+): Promise<T[]> => {
+  const collected: T[] = [];
+  if (maxItems <= 0) return collected;
+
+  for await (const item of items) {
+    collected.push(item);
+    if (collected.length >= maxItems) break;
+  }
+  return collected;
+};
+
 export const spotifyApi = {
   // Get current user profile
   getCurrentUser: async (): Promise<SpotifyUser> => {
     try {
-      const response = await spotifyClient.get("/me");
-      return response.data;
+      return await spotifyGet<SpotifyUser>("/me");
     } catch (error) {
       console.error("Error fetching current user:", error);
-      throw new Error("Failed to fetch user profile");
+      throw toSpotifyApiError(error, "Failed to fetch user profile");
     }
   },
 
   getArtist: async (artistId: string): Promise<SpotifyArtist> => {
     try {
-      const response = await spotifyClient.get(`/artists/${artistId}`);
-      return response.data;
+      return await spotifyGet<SpotifyArtist>(`/artists/${artistId}`);
     } catch (error) {
       console.error("Error fetching artist details:", error);
-      throw new Error("Failed to fetch artist details");
+      throw toSpotifyApiError(error, "Failed to fetch artist details");
     }
   },
 
   // Get user's top tracks
   getTopTracks: async (
     timeRange: "short_term" | "medium_term" | "long_term" = "medium_term",
-    limit: number = 10
+    limit: number = 10,
+    offset: number = 0
   ): Promise<TopTracksResponse> => {
     try {
-      const response = await spotifyClient.get("/me/top/tracks", {
-        params: { time_range: timeRange, limit },
+      return await spotifyGet<TopTracksResponse>("/me/top/tracks", {
+        params: { time_range: timeRange, limit, offset },
       });
-      return response.data;
     } catch (error) {
       console.error("Error fetching top tracks:", error);
-      throw new Error("Failed to fetch top tracks");
+      throw toSpotifyApiError(error, "Failed to fetch top tracks");
+    }
+  },
+
+  getTopArtists: async (
+    timeRange: TimeRange = "medium_term",
+    limit: number = 10,
+    offset: number = 0
+  ): Promise<TopArtistsResponse> => {
+    try {
+      return await spotifyGet<TopArtistsResponse>("/me/top/artists", {
+        params: { time_range: timeRange, limit, offset },
+      });
+    } catch (error) {
+      console.error("Error fetching top artists:", error);
+      throw toSpotifyApiError(error, "Failed to fetch top artists");
     }
   },
 
-  // Get recently played tracks
+  // Get recently played tracks, optionally before/after a unix ms cursor
   getRecentlyPlayed: async (
-    limit: number = 10
+    limit: number = 10,
+    cursor?: { before?: number; after?: number }
   ): Promise<RecentlyPlayedResponse> => {
     try {
-      const response = await spotifyClient.get("/me/player/recently-played", {
-        params: { limit },
-      });
-      return response.data;
+      return await spotifyGet<RecentlyPlayedResponse>(
+        "/me/player/recently-played",
+        {
+          params: { limit, ...cursor },
+        }
+      );
     } catch (error) {
       console.error("Error fetching recently played tracks:", error);
-      throw new Error("Failed to fetch recently played tracks");
+      throw toSpotifyApiError(error, "Failed to fetch recently played tracks");
     }
   },
 
+  // Pagination helpers - each walks every page of an endpoint lazily.
+  // Pair with collectItems() to gather results into an array.
+  iterateTopTracks: (
+    timeRange: TimeRange = "medium_term"
+  ): AsyncGenerator<SpotifyTrack> =>
+    paginate<SpotifyTrack>("/me/top/tracks", "top tracks", {
+      time_range: timeRange,
+      limit: MAX_PAGE_SIZE,
+    }),
+
+  iterateTopArtists: (
+    timeRange: TimeRange = "medium_term"
+  ): AsyncGenerator<SpotifyArtist> =>
+    paginate<SpotifyArtist>("/me/top/artists", "top artists", {
+      time_range: timeRange,
+      limit: MAX_PAGE_SIZE,
+    }),
+
+  iterateRecentlyPlayed: (cursor?: {
+    before?: number;
+    after?: number;
+  }): AsyncGenerator<RecentlyPlayedItem> =>
+    paginate<RecentlyPlayedItem>(
+      "/me/player/recently-played",
+      "recently played tracks",
+      { limit: MAX_PAGE_SIZE, ...cursor }
+    ),
+
+  iterateSavedTracks: (): AsyncGenerator<SavedTrackItem> =>
+    paginate<SavedTrackItem>("/me/tracks", "saved tracks", {
+      limit: MAX_PAGE_SIZE,
+    }),
+
+  iteratePlaylists: (): AsyncGenerator<SpotifyPlaylist> =>
+    paginate<SpotifyPlaylist>("/me/playlists", "playlists", {
+      limit: MAX_PAGE_SIZE,
+    }),
+
+  iteratePlaylistItems: (
+    playlistId: string
+  ): AsyncGenerator<PlaylistTrackItem> =>
+    paginate<PlaylistTrackItem>(
+      `/playlists/${playlistId}/tracks`,
+      "playlist items",
+      // The playlist items endpoint allows larger pages than the rest
+      { limit: 100 }
+    ),
+
   // Get recommendations based on seed tracks, artists, or genres
   getRecommendations: async (params: {
     seed_tracks?: string[];
@@ -133,7 +499,7 @@ export const spotifyApi = {
     target_valence?: number;
   }): Promise<{ tracks: SpotifyTrack[] }> => {
     try {
-      const response = await spotifyClient.get("/recommendations", {
+      return await spotifyGet<{ tracks: SpotifyTrack[] }>("/recommendations", {
         params: {
           ...params,
           seed_tracks: params.seed_tracks?.join(","),
@@ -141,10 +507,9 @@ export const spotifyApi = {
           seed_genres: params.seed_genres?.join(","),
         },
       });
-      return response.data;
     } catch (error) {
       console.error("Error fetching recommendations:", error);
-      throw new Error("Failed to fetch recommendations");
+      throw toSpotifyApiError(error, "Failed to fetch recommendations");
     }
   },
 
@@ -165,10 +530,11 @@ export const spotifyApi = {
         description,
         public: isPublic,
       });
+      spotifyCache.invalidate("/me/playlists");
       return response.data;
     } catch (error) {
       console.error("Error creating playlist:", error);
-      throw new Error("Failed to create playlist");
+      throw toSpotifyApiError(error, "Failed to create playlist");
     }
   },
 
@@ -185,109 +551,437 @@ export const spotifyApi = {
           uris: trackUris,
         }
       );
+      spotifyCache.invalidate(`/playlists/${playlistId}/`);
       return response.data;
     } catch (error) {
       console.error("Error adding tracks to playlist:", error);
-      throw new Error("Failed to add tracks to playlist");
+      throw toSpotifyApiError(error, "Failed to add tracks to playlist");
     }
   },
 
   // Get audio features for tracks (for better matching)
   getAudioFeatures: async (
     trackIds: string[]
-  ): Promise<{
-    audio_features: Array<{
-      id: string;
-      acousticness: number;
-      danceability: number;
-      energy: number;
-      valence: number;
-      tempo: number;
-    }>;
-  }> => {
+  ): Promise<AudioFeaturesResponse> => {
     try {
-      const response = await spotifyClient.get("/audio-features", {
+      return await spotifyGet<AudioFeaturesResponse>("/audio-features", {
         params: {
           ids: trackIds.join(","),
         },
       });
-      return response.data;
     } catch (error) {
       console.error("Error fetching audio features:", error);
-      throw new Error("Failed to fetch audio features");
+      throw toSpotifyApiError(error, "Failed to fetch audio features");
     }
   },
 
   // Get available genre seeds
   getAvailableGenreSeeds: async (): Promise<{ genres: string[] }> => {
     try {
-      const response = await spotifyClient.get(
+      return await spotifyGet<{ genres: string[] }>(
         "/recommendations/available-genre-seeds"
       );
-      return response.data;
     } catch (error) {
       console.error("Error fetching genre seeds:", error);
-      throw new Error("Failed to fetch genre seeds");
+      throw toSpotifyApiError(error, "Failed to fetch genre seeds");
     }
   },
 };
 
-import { firestoreApi } from "./firestore";
+// Gotify game validation, see functions/index.js
+const getDailyChallengeCallable = httpsCallable<
+  void,
+  { date: string; tracks: PoolTrack[]; created_at: string }
+>(functions, "getDailyChallenge");
+const startGotifyGameCallable = httpsCallable<
+  {
+    accessToken: string | null;
+    difficulty: string;
+    variant: GotifyVariant;
+    dailyDate: string | null;
+    challengeId: string | null;
+  },
+  { gameId: string }
+>(functions, "startGotifyGame");
+const serveGotifyTrackCallable = httpsCallable<
+  {
+    accessToken: string | null;
+    gameId: string;
+    trackId: string;
+    previewUrl: string | null;
+  },
+  { turn: number }
+>(functions, "serveGotifyTrack");
+const submitGotifyGameCallable = httpsCallable<
+  { accessToken: string | null; gameId: string; turns: TurnResult[] },
+  {
+    score: number;
+    turns: TurnResult[];
+    entryId: string;
+    rating: GameRating;
+  }
+>(functions, "submitGotifyGame");
+const createGotifyChallengeCallable = httpsCallable<
+  { accessToken: string | null; gameId: string },
+  { challengeId: string }
+>(functions, "createGotifyChallenge");
+
+// Friends, see functions/index.js
+const getFriendInviteCodeCallable = httpsCallable<
+  { accessToken: string | null },
+  { code: string }
+>(functions, "getFriendInviteCode");
+const addFriendByInviteCodeCallable = httpsCallable<
+  { accessToken: string | null; code: string },
+  { friendId: string }
+>(functions, "addFriendByInviteCode");
+const syncSpotifyFriendsCallable = httpsCallable<
+  { accessToken: string | null },
+  { followed: number }
+>(functions, "syncSpotifyFriends");
+const removeFriendCallable = httpsCallable<
+  { accessToken: string | null; friendId: string },
+  { friendId: string }
+>(functions, "removeFriend");
+
+// Convert FirestoreLeaderboardEntry to LeaderboardEntry, showing each
+// player's current name and avatar from their profile
+const toLeaderboardEntries = async (
+  entries: FirestoreLeaderboardEntry[]
+): Promise<LeaderboardEntry[]> => {
+  const profiles = await firestoreApi.getPlayers(
+    entries.flatMap((entry) => (entry.user_id ? [entry.user_id] : []))
+  );
+
+  return entries.map((entry) => {
+    const profile = entry.user_id ? profiles[entry.user_id] : undefined;
+    return {
+      id: entry.id || entry.player_name + "_" + Date.now(),
+      user_id: entry.user_id,
+      player_name: profile?.display_name ?? entry.player_name,
+      avatar_url: profile?.avatar_url ?? null,
+      score: entry.score,
+      created_at:
+        typeof entry.created_at === "string"
+          ? entry.created_at
+          : new Date().toISOString(),
+      difficulty: entry.difficulty,
+      variant: entry.variant,
+      streak: entry.streak,
+      daily_date: entry.daily_date,
+    };
+  });
+};
 
 // Backend API using Firestore
 export const backendApi = {
-  saveScore: async (
-    playerName: string,
-    score: number,
-    gameType: "gotify" | "spotimatch" = "gotify",
-    metadata?: {
-      difficulty?: string;
-      streak?: number;
-      turns_completed?: number;
-      accuracy?: number;
+  // Today's daily challenge, built server-side if nobody has asked yet
+  getDailyChallenge: async (): Promise<DailyChallenge | null> => {
+    try {
+      const { data } = await getDailyChallengeCallable();
+      return { id: data.date, ...data };
+    } catch (error) {
+      console.error("Error loading daily challenge:", error);
+      return null;
+    }
+  },
+
+  // Gotify scores are verified server-side: open a game, register each
+  // track as it is played, then submit the turn log to be replayed
+  startGotifyGame: async (options: {
+    difficulty: string;
+    variant: GotifyVariant;
+    dailyDate: string | null;
+    challengeId: string | null;
+  }): Promise<string | null> => {
+    try {
+      const { data } = await startGotifyGameCallable({
+        accessToken: spotifyAccessToken,
+        ...options,
+      });
+      console.log("Gotify game started:", data.gameId);
+      return data.gameId;
+    } catch (error) {
+      console.error("Error starting Gotify game:", error);
+      return null;
     }
+  },
+
+  // A track that fails to register makes the game unverifiable, so the
+  // reason is passed on for the player to see
+  serveGotifyTrack: async (
+    gameId: string,
+    track: SpotifyTrack
   ): Promise<{ success: boolean; message: string }> => {
-    return await firestoreApi.saveScore(playerName, score, gameType, metadata);
+    try {
+      await serveGotifyTrackCallable({
+        accessToken: spotifyAccessToken,
+        gameId,
+        trackId: track.id,
+        previewUrl: track.preview_url,
+      });
+      return { success: true, message: "Track registered" };
+    } catch (error) {
+      console.error("Error registering Gotify track:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to register track",
+      };
+    }
+  },
+
+  submitGotifyGame: async (
+    gameId: string,
+    turns: TurnResult[]
+  ): Promise<{
+    success: boolean;
+    message: string;
+    score?: number;
+    turns?: TurnResult[];
+    entryId?: string;
+    rating?: GameRating;
+  }> => {
+    try {
+      const { data } = await submitGotifyGameCallable({
+        accessToken: spotifyAccessToken,
+        gameId,
+        turns,
+      });
+      console.log("Gotify score verified:", data.score);
+      return { success: true, message: "Score saved successfully!", ...data };
+    } catch (error) {
+      console.error("Error submitting Gotify game:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to save score",
+      };
+    }
+  },
+
+  // Share a verified game as a challenge; the server copies its result
+  createGotifyChallenge: async (gameId: string): Promise<string | null> => {
+    try {
+      const { data } = await createGotifyChallengeCallable({
+        accessToken: spotifyAccessToken,
+        gameId,
+      });
+      console.log("Challenge created with ID:", data.challengeId);
+      return data.challengeId;
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      return null;
+    }
   },
 
   // Enhanced leaderboard with filtering and sorting using Firestore
   getLeaderboard: async (
-    gameType?: "gotify" | "spotimatch",
-    difficulty?: string,
-    limit: number = 50
+    filters: LeaderboardQuery = {},
+    limit: number = 50,
+    cursor?: LeaderboardCursor
   ): Promise<{
     leaderboard: LeaderboardEntry[];
     Items: LeaderboardEntry[];
     Count: number;
+    cursor?: LeaderboardCursor;
+    hasMore: boolean;
   }> => {
-    const result = await firestoreApi.getLeaderboard(
-      gameType,
-      difficulty,
-      limit
-    );
+    const result = await firestoreApi.getLeaderboard(filters, limit, cursor);
 
-    // Convert FirestoreLeaderboardEntry to LeaderboardEntry
-    const convertedLeaderboard = result.leaderboard.map((entry) => ({
-      id: entry.id || entry.player_name + "_" + Date.now(),
-      player_name: entry.player_name,
-      score: entry.score,
-      created_at:
-        typeof entry.created_at === "string"
-          ? entry.created_at
-          : new Date().toISOString(),
-      difficulty: entry.difficulty,
-      streak: entry.streak,
-    }));
+    const convertedLeaderboard = await toLeaderboardEntries(result.leaderboard);
 
     return {
       leaderboard: convertedLeaderboard,
       Items: convertedLeaderboard,
       Count: convertedLeaderboard.length,
+      cursor: result.cursor,
+      hasMore: result.hasMore,
+    };
+  },
+  // Live top of a board, with player profiles filled in
+  subscribeToLeaderboard: (
+    filters: LeaderboardQuery,
+    limit: number,
+    onChange: (update: {
+      entries: LeaderboardEntry[];
+      added: string[];
+    }) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe => {
+    let latest = 0;
+    return firestoreApi.subscribeToLeaderboard(
+      filters,
+      limit,
+      async (update) => {
+        const sequence = ++latest;
+        const entries = await toLeaderboardEntries(update.entries);
+        // A slow profile lookup must not overwrite a newer update
+        if (sequence === latest) onChange({ ...update, entries });
+      },
+      onError
+    );
+  },
+  countLeaderboard: (filters: LeaderboardQuery): Promise<number | null> =>
+    firestoreApi.countLeaderboard(filters),
+
+  // Where the player's best score stands on a board; throws if the lookup
+  // fails, so that isn't mistaken for having no score
+  getPlayerRank: async (
+    filters: LeaderboardQuery,
+    userId: string
+  ): Promise<{
+    rank: number;
+    total: number;
+    entry: LeaderboardEntry;
+    above: LeaderboardEntry[];
+    below: LeaderboardEntry[];
+  } | null> => {
+    const result = await firestoreApi.getPlayerRank(filters, userId);
+    if (!result) return null;
+
+    const [entry, ...around] = await toLeaderboardEntries([
+      result.entry,
+      ...result.above,
+      ...result.below,
+    ]);
+    return {
+      rank: result.rank,
+      total: result.total,
+      entry,
+      above: around.slice(0, result.above.length),
+      below: around.slice(result.above.length),
     };
   },
+  // Friends board: the best entry of the player and each of their friends
+  getFriendsLeaderboard: async (
+    filters: LeaderboardQuery,
+    userId: string
+  ): Promise<LeaderboardEntry[]> => {
+    const friends = await firestoreApi.getFriends(userId);
+    const entries = await firestoreApi.getBestEntries(filters, [
+      userId,
+      ...friends.map((friend) => friend.friend_id),
+    ]);
+    return toLeaderboardEntries(entries);
+  },
+  // Rated board, highest first; only the player and their friends when
+  // friendsOf is given
+  getRatedPlayers: async (
+    friendsOf?: string,
+    limit: number = 50
+  ): Promise<RatedPlayer[]> => {
+    let profiles: PlayerProfile[];
+    if (friendsOf) {
+      const friends = await firestoreApi.getFriends(friendsOf);
+      profiles = Object.values(
+        await firestoreApi.getPlayers([
+          friendsOf,
+          ...friends.map((friend) => friend.friend_id),
+        ])
+      ).sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0));
+    } else {
+      profiles = await firestoreApi.getRatedPlayers(limit);
+    }
+
+    return profiles.flatMap((profile) =>
+      profile.id && profile.rating !== undefined
+        ? [
+            {
+              id: profile.id,
+              display_name: profile.display_name,
+              avatar_url: profile.avatar_url,
+              rating: profile.rating,
+              rating_deviation: profile.rating_deviation ?? 350,
+              rated_games: profile.rated_games ?? 0,
+            },
+          ]
+        : []
+    );
+  },
+  getFriends: async (userId: string): Promise<Friend[]> => {
+    const friends = await firestoreApi.getFriends(userId);
+    const profiles = await firestoreApi.getPlayers(
+      friends.map((friend) => friend.friend_id)
+    );
+    return friends.map((friend) => ({
+      id: friend.friend_id,
+      display_name:
+        profiles[friend.friend_id]?.display_name ?? friend.friend_id,
+      avatar_url: profiles[friend.friend_id]?.avatar_url ?? null,
+      source: friend.source,
+    }));
+  },
+  getFriendInviteCode: async (): Promise<string | null> => {
+    try {
+      const { data } = await getFriendInviteCodeCallable({
+        accessToken: spotifyAccessToken,
+      });
+      return data.code;
+    } catch (error) {
+      console.error("Error getting invite code:", error);
+      return null;
+    }
+  },
+  addFriendByInviteCode: async (
+    code: string
+  ): Promise<{ success: boolean; message: string }> => {
+    try {
+      await addFriendByInviteCodeCallable({
+        accessToken: spotifyAccessToken,
+        code,
+      });
+      return { success: true, message: "Friend added!" };
+    } catch (error) {
+      console.error("Error adding friend:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to add friend",
+      };
+    }
+  },
+  // Check which players the user follows on Spotify
+  syncSpotifyFriends: async (): Promise<{
+    success: boolean;
+    message: string;
+  }> => {
+    try {
+      const { data } = await syncSpotifyFriendsCallable({
+        accessToken: spotifyAccessToken,
+      });
+      return {
+        success: true,
+        message: `You follow ${data.followed} player${
+          data.followed === 1 ? "" : "s"
+        } on Spotify`,
+      };
+    } catch (error) {
+      console.error("Error syncing Spotify follows:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to check Spotify follows",
+      };
+    }
+  },
+  removeFriend: async (friendId: string): Promise<boolean> => {
+    try {
+      await removeFriendCallable({
+        accessToken: spotifyAccessToken,
+        friendId,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error removing friend:", error);
+      return false;
+    }
+  },
   // Get user's personal best scores using Firestore
   getUserStats: async (
-    playerName: string,
+    userId: string,
     gameType?: "gotify" | "spotimatch"
   ): Promise<{
     bestScore: number;
@@ -295,7 +989,7 @@ export const backendApi = {
     totalGames: number;
     averageScore: number;
   }> => {
-    return await firestoreApi.getUserStats(playerName, gameType);
+    return await firestoreApi.getUserStats(userId, gameType);
   },
   // Check if user is registered (mock - always return true for now)
   checkUserRegistration: async (_email: string): Promise<boolean> => {
@@ -315,70 +1009,176 @@ export const backendApi = {
 };
 
 // Spotify Auth utilities
-export const spotifyAuth = {
-  // Generate auth URL for implicit grant flow
-  getAuthUrl: (): string => {
-    const clientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
-    const redirectUri =
-      import.meta.env.VITE_SPOTIFY_REDIRECT_URI ||
+const SPOTIFY_ACCOUNTS_URL = "https://accounts.spotify.com";
+
+const accountsClient = axios.create({
+  baseURL: SPOTIFY_ACCOUNTS_URL,
+  headers: { "Content-Type": "application/x-www-form-urlencoded" },
+});
+if (USE_MOCK_SPOTIFY) {
+  accountsClient.defaults.adapter = lazyMockAdapter(
+    (mocks) => mocks.mockAccountsAdapter
+  );
+}
+
+// localStorage keys used while the user is away on the Spotify consent screen
+const PKCE_VERIFIER_KEY = "spotify_pkce_verifier";
+const PKCE_STATE_KEY = "spotify_auth_state";
+
+export interface SpotifyTokenResponse {
+  access_token: string;
+  token_type: string;
+  scope: string;
+  expires_in: number;
+  refresh_token?: string;
+}
+
+const getSpotifyConfig = () => {
+  const clientId =
+    import.meta.env.VITE_SPOTIFY_CLIENT_ID ||
+    (USE_MOCK_SPOTIFY ? "mock-client-id" : undefined);
+  const redirectUri = USE_MOCK_SPOTIFY
+    ? `${window.location.origin}/auth/callback`
+    : import.meta.env.VITE_SPOTIFY_REDIRECT_URI ||
       "https://hubify-c2421.web.app/auth/callback";
-    const scopes = import.meta.env.VITE_SPOTIFY_SCOPES;
+  const scopes =
+    import.meta.env.VITE_SPOTIFY_SCOPES ||
+    (USE_MOCK_SPOTIFY ? "user-top-read user-read-recently-played" : undefined);
 
-    if (!clientId || !redirectUri || !scopes) {
-      throw new Error(
-        "Missing Spotify configuration. Check your environment variables."
-      );
-    }
+  if (!clientId || !redirectUri || !scopes) {
+    throw new Error(
+      "Missing Spotify configuration. Check your environment variables."
+    );
+  }
+
+  return { clientId, redirectUri, scopes };
+};
+
+// Random URL-safe string from 64 of the PKCE unreserved characters. 64
+// divides 256, so every character is equally likely from a random byte.
+const generateRandomString = (length: number): string => {
+  const possible =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+  const values = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(values, (x) => possible[x % possible.length]).join("");
+};
+
+const base64UrlEncode = (buffer: ArrayBuffer): string => {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/=/g, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+};
+
+// S256 code challenge derived from the verifier (RFC 7636)
+const generateCodeChallenge = async (verifier: string): Promise<string> => {
+  const data = new TextEncoder().encode(verifier);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return base64UrlEncode(digest);
+};
+
+// Authorization codes are single use, so concurrent callbacks for the same
+// code (e.g. StrictMode double effects) share one exchange
+const pendingExchanges = new Map<string, Promise<SpotifyTokenResponse>>();
+
+export const spotifyAuth = {
+  // Generate auth URL for the Authorization Code flow with PKCE
+  getAuthUrl: async (): Promise<string> => {
+    const { clientId, redirectUri, scopes } = getSpotifyConfig();
+
+    const codeVerifier = generateRandomString(64);
+    const codeChallenge = await generateCodeChallenge(codeVerifier);
+    const state = generateRandomString(16);
+
+    localStorage.setItem(PKCE_VERIFIER_KEY, codeVerifier);
+    localStorage.setItem(PKCE_STATE_KEY, state);
 
     const params = new URLSearchParams({
       client_id: clientId,
-      response_type: "token", // Changed from "code" to "token" for implicit flow
+      response_type: "code",
       redirect_uri: redirectUri,
       scope: scopes,
+      code_challenge_method: "S256",
+      code_challenge: codeChallenge,
+      state,
       show_dialog: "true", // Optional: force user to approve app again
     });
 
-    return `https://accounts.spotify.com/authorize?${params.toString()}`;
-  },
-
-  // Parse access token from URL hash (implicit flow)
-  getTokenFromUrl: (): { access_token: string; expires_in: number } | null => {
-    const hash = window.location.hash.substring(1);
-    const params = new URLSearchParams(hash);
-
-    const accessToken = params.get("access_token");
-    const expiresIn = params.get("expires_in");
-
-    if (accessToken && expiresIn) {
-      return {
-        access_token: accessToken,
-        expires_in: parseInt(expiresIn),
-      };
+    // The mock skips the consent screen and returns straight to the app
+    if (USE_MOCK_SPOTIFY) {
+      return `${redirectUri}?${new URLSearchParams({
+        code: "mock-code",
+        state,
+      })}`;
     }
 
-    return null;
+    return `${SPOTIFY_ACCOUNTS_URL}/authorize?${params.toString()}`;
   },
 
-  // Parse authorization code from URL (for authorization code flow)
-  getCodeFromUrl: (): string | null => {
+  // Parse authorization code and state from URL
+  getCodeFromUrl: (): { code: string; state: string | null } | null => {
     const urlParams = new URLSearchParams(window.location.search);
-    return urlParams.get("code");
+    const code = urlParams.get("code");
+    return code ? { code, state: urlParams.get("state") } : null;
   },
 
-  // Mock implementation for now - remove the error
-  exchangeCodeForToken: async (
-    _code: string
-  ): Promise<{ access_token: string; refresh_token?: string }> => {
-    // For now, let's check if we can get the token from the URL hash instead
-    const tokenData = spotifyAuth.getTokenFromUrl();
-    if (tokenData) {
-      return { access_token: tokenData.access_token };
+  // Exchange the authorization code for tokens using the stored PKCE verifier
+  exchangeCodeForToken: (
+    code: string,
+    state: string | null
+  ): Promise<SpotifyTokenResponse> => {
+    const pending = pendingExchanges.get(code);
+    if (pending) {
+      return pending;
     }
 
-    // If no token in URL, this means we need a backend
-    throw new Error(
-      "Token exchange requires a backend server. Please use implicit grant flow instead."
+    const exchange = (async () => {
+      const expectedState = localStorage.getItem(PKCE_STATE_KEY);
+      const codeVerifier = localStorage.getItem(PKCE_VERIFIER_KEY);
+      localStorage.removeItem(PKCE_STATE_KEY);
+      localStorage.removeItem(PKCE_VERIFIER_KEY);
+
+      if (!expectedState || state !== expectedState) {
+        throw new Error("Authorization state mismatch. Please log in again.");
+      }
+      if (!codeVerifier) {
+        throw new Error("Missing PKCE code verifier. Please log in again.");
+      }
+
+      const { clientId, redirectUri } = getSpotifyConfig();
+      const response = await accountsClient.post<SpotifyTokenResponse>(
+        "/api/token",
+        new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: clientId,
+          code_verifier: codeVerifier,
+        })
+      );
+
+      return response.data;
+    })();
+
+    pendingExchanges.set(code, exchange);
+    return exchange;
+  },
+
+  // Trade a refresh token for a new access token (PKCE clients need no secret)
+  refreshAccessToken: async (
+    refreshToken: string
+  ): Promise<SpotifyTokenResponse> => {
+    const { clientId } = getSpotifyConfig();
+    const response = await accountsClient.post<SpotifyTokenResponse>(
+      "/api/token",
+      new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+        client_id: clientId,
+      })
     );
+
+    return response.data;
   },
 };
 
@@ -395,6 +1195,15 @@ const CLOUD_FUNCTION_URLS = {
     "https://keepwarm-ntxx22kojq-uc.a.run.app",
 };
 
+// Preview lookups go through the same rate limiting as Spotify calls
+const previewClient = axios.create();
+applyRateLimiting(previewClient, MAX_CONCURRENT_PREVIEW_REQUESTS);
+if (USE_MOCK_SPOTIFY) {
+  previewClient.defaults.adapter = lazyMockAdapter((mocks) =>
+    mocks.createMockPreviewAdapter(CLOUD_FUNCTION_URLS)
+  );
+}
+
 // Add preview URL finding utilities
 export const previewUrlApi = {
   // Use Cloud Function to fetch preview URLs (handles CORS)
@@ -410,16 +1219,19 @@ export const previewUrlApi = {
       console.log(`Trying to find preview URL for: ${title} by ${artist}`);
 
       // Use Cloud Function for preview URL fetching (GET request with query params)
-      const response = await axios.get(CLOUD_FUNCTION_URLS.getPreviewUrl, {
-        params: {
-          artist: cleanArtist,
-          title: cleanTitle,
-        },
-        headers: {
-          Accept: "application/json",
-        },
-        timeout: 10000, // 10 second timeout
-      });
+      const response = await previewClient.get(
+        CLOUD_FUNCTION_URLS.getPreviewUrl,
+        {
+          params: {
+            artist: cleanArtist,
+            title: cleanTitle,
+          },
+          headers: {
+            Accept: "application/json",
+          },
+          timeout: 10000, // 10 second timeout
+        }
+      );
 
       console.log(`Cloud Function response for "${title}":`, response.data);
 
@@ -445,7 +1257,7 @@ export const previewUrlApi = {
     try {
       console.log(`Getting batch preview URLs for ${tracks.length} tracks`);
 
-      const response = await axios.post(
+      const response = await previewClient.post(
         CLOUD_FUNCTION_URLS.getBatchPreviewUrls,
         {
           tracks,
@@ -479,7 +1291,7 @@ export const previewUrlApi = {
   // Keep warm function to prevent cold starts
   keepWarm: async (): Promise<void> => {
     try {
-      await axios.get(CLOUD_FUNCTION_URLS.keepWarm, {
+      await previewClient.get(CLOUD_FUNCTION_URLS.keepWarm, {
         timeout: 5000,
       });
       console.log("Cloud Functions warmed up");
@@ -572,11 +1384,6 @@ export const previewUrlApi = {
           tracksNeedingPreview.length
         );
       }
-
-      // Small delay between batches to be respectful
-      if (i + BATCH_SIZE < tracksNeedingPreview.length) {
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
     }
 
     const foundCount = enhancedTracks.filter(
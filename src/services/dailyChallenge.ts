@@ -0,0 +1,59 @@
+import type { SpotifyTrack } from "../types";
+import { backendApi } from "./api";
+import { firestoreApi } from "./firestore";
+import type { DailyChallenge, PoolTrack } from "./firestore";
+
+// Same as DAILY_TURNS in functions/dailyChallenge.js
+export const DAILY_TURNS = 10;
+
+// UTC, so "today" rolls over at the same moment for everyone
+export const dailyDateKey = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 10);
+
+export const toPoolTrack = (track: SpotifyTrack): PoolTrack => ({
+  id: track.id,
+  name: track.name,
+  artists: track.artists.map((artist) => ({
+    id: artist.id,
+    name: artist.name,
+  })),
+  album: {
+    id: track.album.id,
+    name: track.album.name,
+    release_date: track.album.release_date,
+    image_url: track.album.images[0]?.url ?? null,
+  },
+  preview_url: track.preview_url ?? "",
+  popularity: track.popularity,
+});
+
+export const fromPoolTrack = (track: PoolTrack): SpotifyTrack => ({
+  id: track.id,
+  name: track.name,
+  artists: track.artists,
+  album: {
+    id: track.album.id,
+    name: track.album.name,
+    release_date: track.album.release_date,
+    images: track.album.image_url
+      ? [{ url: track.album.image_url, width: 640, height: 640 }]
+      : [],
+  },
+  preview_url: track.preview_url,
+  popularity: track.popularity,
+  external_urls: { spotify: `https://open.spotify.com/track/${track.id}` },
+});
+
+/**
+ * Load the challenge for a date. Challenges are built by the
+ * getDailyChallenge function from the shared pool on the first request of
+ * the day; the pool grows with the tracks of submitted games. Null if no
+ * challenge can be built.
+ */
+export const loadDailyChallenge = async (
+  date: string
+): Promise<DailyChallenge | null> => {
+  const existing = await firestoreApi.getDailyChallenge(date);
+  if (existing) return existing;
+  return backendApi.getDailyChallenge();
+};
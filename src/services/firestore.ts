@@ -1,101 +1,687 @@
 import {
   collection,
-  addDoc,
   getDocs,
   query,
   orderBy,
   limit,
   where,
   Timestamp,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  runTransaction,
+  deleteDoc,
+  onSnapshot,
+  getDocFromServer,
+  serverTimestamp,
+  documentId,
+  startAfter,
+  endBefore,
+  limitToLast,
+  getCountFromServer,
+} from "firebase/firestore";
+import type {
+  Query,
+  QueryDocumentSnapshot,
+  Unsubscribe,
 } from "firebase/firestore";
 import { db } from "../firebase";
+import type { GotifyVariant, TimeRange } from "../types";
+import { placementBonus } from "./gotifyScoring";
+import type { GuessResult } from "./gotifyScoring";
+import { summarizeScores } from "./playerStats";
+import type { ScoreSummary } from "./playerStats";
 
+// Written only by the submitGotifyGame function, after it has replayed
+// the game (see functions/index.js)
 export interface FirestoreLeaderboardEntry {
   id?: string;
+  // Spotify user id; missing on entries the migration couldn't resolve
+  user_id?: string;
+  // Display name when the score was set; players/{user_id} has the current one
   player_name: string;
   score: number;
   game_type: "gotify" | "spotimatch";
   difficulty: string;
+  variant?: GotifyVariant;
   streak: number;
   turns_completed: number;
   accuracy?: number;
+  // Set on daily challenge scores, which get their own leaderboard
+  daily_date?: string;
   created_at: Timestamp | string;
 }
 
-export const firestoreApi = {
-  // Save a new score to Firestore
-  saveScore: async (
-    playerName: string,
-    score: number,
-    gameType: "gotify" | "spotimatch" = "gotify",
-    metadata?: {
-      difficulty?: string;
-      streak?: number;
-      turns_completed?: number;
-      accuracy?: number;
-    }
-  ): Promise<{ success: boolean; message: string }> => {
-    try {
-      const newScore: Omit<FirestoreLeaderboardEntry, "id"> = {
-        player_name: playerName,
-        score,
-        game_type: gameType,
-        difficulty: metadata?.difficulty || "medium",
-        streak: metadata?.streak || 0,
-        turns_completed: metadata?.turns_completed || 0,
-        accuracy: metadata?.accuracy || 0,
-        created_at: Timestamp.now(),
-      };
+// Filters for getLeaderboard. Every combination used needs a composite
+// index in firestore.indexes.json.
+export interface LeaderboardQuery {
+  gameType?: "gotify" | "spotimatch";
+  difficulty?: string;
+  // Daily leaderboard: only scores from that day's challenge
+  dailyDate?: string;
+  since?: Date;
+}
 
-      const docRef = await addDoc(collection(db, "leaderboard"), newScore);
+// Opaque position in a leaderboard, for fetching the next page
+export type LeaderboardCursor = QueryDocumentSnapshot;
 
-      console.log("Score saved to Firestore with ID:", docRef.id);
-      return { success: true, message: "Score saved successfully!" };
-    } catch (error) {
-      console.error("Error saving score to Firestore:", error);
-      return { success: false, message: "Failed to save score" };
-    }
-  },
+export interface LeaderboardUpdate {
+  entries: FirestoreLeaderboardEntry[];
+  added: string[]; // Empty on the first update
+}
+
+export interface PlayerRank {
+  rank: number; // 1-based
+  total: number; // Entries on the board
+  entry: FirestoreLeaderboardEntry; // The player's best
+  above: FirestoreLeaderboardEntry[];
+  below: FirestoreLeaderboardEntry[];
+}
+
+// Public profile of a Spotify user, keyed by their user id. Written by the
+// functions whenever the player starts a Gotify game.
+export interface PlayerProfile {
+  id?: string;
+  display_name: string;
+  avatar_url: string | null;
+  updated_at: Timestamp | string;
+  // Gotify skill rating, set by submitGotifyGame once they have played
+  rating?: number;
+  rating_deviation?: number;
+  rated_games?: number;
+  rated_at?: Timestamp | string;
+}
+
+// friends/{userId}_{friendId}, written by the friend Cloud Functions.
+// "spotify" mirrors a Spotify follow, "invite" came from an invite code.
+export interface Friendship {
+  user_id: string;
+  friend_id: string;
+  source: "spotify" | "invite";
+  hidden?: boolean; // Removed by the player; kept so syncs skip it
+  created_at: Timestamp | string;
+}
+
+// Compact copies of Spotify items, small enough to keep a long history
+export interface SnapshotTrack {
+  id: string;
+  name: string;
+  artist: string;
+  image_url: string | null;
+}
+
+export interface SnapshotArtist {
+  id: string;
+  name: string;
+  image_url: string | null;
+}
+
+export interface SnapshotRanking {
+  tracks: SnapshotTrack[];
+  artists: SnapshotArtist[];
+}
+
+// One day's top tracks and artists for every time range. Stored with the
+// id `${user_id}_${date}` so there is at most one per user per day.
+export interface TopItemsSnapshot {
+  id?: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD, local time
+  rankings: Record<TimeRange, SnapshotRanking>;
+  created_at: Timestamp | string;
+}
+
+// A playable track as stored in the shared pool and daily challenges
+export interface PoolTrack {
+  id: string;
+  name: string;
+  artists: { id: string; name: string }[];
+  album: {
+    id: string;
+    name: string;
+    release_date: string;
+    image_url: string | null;
+  };
+  preview_url: string;
+  popularity: number;
+}
+
+// The fixed track list everyone plays on a given (UTC) date. Built by the
+// getDailyChallenge function and stored with the date as its id.
+export interface DailyChallenge {
+  id?: string;
+  date: string;
+  tracks: PoolTrack[];
+  created_at: Timestamp | string;
+}
+
+// Claimed by startGotifyGame when a player starts the daily challenge;
+// id `${user_id}_${date}`
+export interface DailyAttempt {
+  user_id: string;
+  date: string;
+  score: number | null; // null until the game is finished
+  started_at: Timestamp | string;
+}
+
+// One turn of a finished game, in play order
+export interface TurnResult {
+  track_id: string;
+  guess: string; // Empty when the player gave up or ran out of time
+  result: GuessResult;
+  points: number;
+  time_left: number; // Seconds left on the clock when the turn ended
+  hint_used: boolean;
+}
+
+// A finished Gotify game with its full turn log, as verified and saved by
+// submitGotifyGame. tracks and turns are parallel arrays in play order.
+export interface GameSession {
+  id?: string;
+  user_id: string;
+  player_name: string;
+  difficulty: string;
+  variant: GotifyVariant;
+  daily_date?: string;
+  challenge_id?: string;
+  time_limit: number; // Seconds per turn
+  score: number;
+  best_streak: number;
+  tracks: PoolTrack[];
+  turns: TurnResult[];
+  created_at: Timestamp | string;
+}
+
+// A finished game shared as a link: the same tracks, in the same order,
+// for a friend to play. The creator's own turns are kept for comparison.
+export interface GameChallenge {
+  id?: string;
+  creator_id: string;
+  creator_name: string;
+  difficulty: string;
+  variant: GotifyVariant;
+  tracks: PoolTrack[];
+  results: TurnResult[];
+  score: number;
+  created_at: Timestamp | string;
+}
+
+// challenges/{id}/responses/{user_id}, one attempt per player, written by
+// submitGotifyGame
+export interface ChallengeResponse {
+  user_id: string;
+  player_name: string;
+  score: number;
+  results: TurnResult[];
+  completed_at: Timestamp | string;
+}
+
+export type RoomStatus = "lobby" | "playing" | "finished";
+
+// A multiplayer Gotify room, stored with its join code as the id
+export interface GotifyRoom {
+  code: string;
+  host_id: string;
+  status: RoomStatus;
+  tracks: PoolTrack[];
+  turn: number; // Index into tracks
+  // Server-clock milliseconds at which the current preview starts
+  turn_starts_at: number | null;
+  time_limit: number; // Seconds per turn
+  created_at: Timestamp | string;
+}
+
+// rooms/{code}/players/{user_id}
+export interface RoomPlayer {
+  user_id: string;
+  display_name: string;
+  score: number;
+  streak: number;
+  last_turn: number | null; // The last turn guessed on
+  // Server time of the last join; null while the write is pending
+  last_seen: Timestamp | null;
+}
+
+// A streak only carries on from a guess on the turn before; skipping a
+// turn breaks it
+export const roomStreak = (player: RoomPlayer, turn: number): number =>
+  player.last_turn === turn - 1 ? player.streak : 0;
+
+// rooms/{code}/guesses/{turn}_{user_id}, one per player per turn
+export interface RoomGuess {
+  user_id: string;
+  display_name: string;
+  turn: number;
+  guess: string;
+  result: GuessResult;
+  points: number; // Including any placement bonus
+  order: number | null; // 1 for the turn's first correct answer
+  submitted_at: Timestamp | null;
+}
+
+// No 0/O or 1/I, so codes read unambiguously
+const ROOM_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 5;
+
+const generateRoomCode = (): string =>
+  Array.from(
+    { length: ROOM_CODE_LENGTH },
+    () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]
+  ).join("");
+
+export const toDateKey = (date: Date = new Date()): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Base leaderboard query for a set of filters, without ordering
+const leaderboardQuery = ({
+  gameType,
+  difficulty,
+  dailyDate,
+  since,
+}: LeaderboardQuery): Query => {
+  let q = query(collection(db, "leaderboard"));
+
+  // Filter by game type if specified
+  if (gameType) {
+    q = query(q, where("game_type", "==", gameType));
+  }
+
+  // Filter by difficulty if specified
+  if (difficulty) {
+    q = query(q, where("difficulty", "==", difficulty));
+  }
 
+  // Daily leaderboard: only scores from that day's challenge
+  if (dailyDate) {
+    q = query(q, where("daily_date", "==", dailyDate));
+  }
+
+  // Time window: only scores set since then
+  if (since) {
+    q = query(q, where("created_at", ">=", Timestamp.fromDate(since)));
+  }
+
+  return q;
+};
+
+// Same filters, applied to an entry already loaded
+const matchesLeaderboardQuery = (
+  entry: QueryDocumentSnapshot,
+  { gameType, difficulty, dailyDate, since }: LeaderboardQuery
+): boolean => {
+  const createdAt = entry.get("created_at");
+  return (
+    (!gameType || entry.get("game_type") === gameType) &&
+    (!difficulty || entry.get("difficulty") === difficulty) &&
+    (!dailyDate || entry.get("daily_date") === dailyDate) &&
+    (!since || (createdAt instanceof Timestamp && createdAt.toDate() >= since))
+  );
+};
+
+const toPlayerProfile = (profile: QueryDocumentSnapshot): PlayerProfile => {
+  const data = profile.data() as Omit<PlayerProfile, "id">;
+  return {
+    id: profile.id,
+    ...data,
+    updated_at:
+      data.updated_at instanceof Timestamp
+        ? data.updated_at.toDate().toISOString()
+        : data.updated_at,
+    ...(data.rated_at instanceof Timestamp
+      ? { rated_at: data.rated_at.toDate().toISOString() }
+      : {}),
+  };
+};
+
+const toLeaderboardEntry = (
+  entry: QueryDocumentSnapshot
+): FirestoreLeaderboardEntry => {
+  const data = entry.data() as Omit<FirestoreLeaderboardEntry, "id">;
+  return {
+    id: entry.id,
+    ...data,
+    // Convert Firestore Timestamp to ISO string for consistency
+    created_at:
+      data.created_at instanceof Timestamp
+        ? data.created_at.toDate().toISOString()
+        : data.created_at,
+  };
+};
+
+export const firestoreApi = {
   // Get leaderboard from Firestore
   getLeaderboard: async (
-    gameType?: "gotify" | "spotimatch",
-    difficulty?: string,
-    limitCount: number = 50
+    filters: LeaderboardQuery = {},
+    limitCount: number = 50,
+    // Last entry of the previous page
+    cursor?: LeaderboardCursor
   ): Promise<{
     leaderboard: FirestoreLeaderboardEntry[];
     Items: FirestoreLeaderboardEntry[];
     Count: number;
+    cursor?: LeaderboardCursor;
+    hasMore: boolean;
   }> => {
     try {
-      const leaderboardRef = collection(db, "leaderboard");
-      let q = query(leaderboardRef);
+      // Order by score descending, then by streak descending
+      let q = query(
+        leaderboardQuery(filters),
+        orderBy("score", "desc"),
+        orderBy("streak", "desc")
+      );
 
-      // Filter by game type if specified
-      if (gameType) {
-        q = query(q, where("game_type", "==", gameType));
+      // Continue after the previous page
+      if (cursor) {
+        q = query(q, startAfter(cursor));
       }
 
-      // Filter by difficulty if specified
-      if (difficulty) {
-        q = query(q, where("difficulty", "==", difficulty));
+      // Limit results
+      q = query(q, limit(limitCount));
+
+      const querySnapshot = await getDocs(q);
+      const leaderboard = querySnapshot.docs.map(toLeaderboardEntry);
+
+      console.log(`Fetched ${leaderboard.length} scores from Firestore`);
+
+      return {
+        leaderboard,
+        Items: leaderboard,
+        Count: leaderboard.length,
+        cursor: querySnapshot.docs[querySnapshot.docs.length - 1] ?? cursor,
+        // A short page means there is nothing after it
+        hasMore: querySnapshot.docs.length === limitCount,
+      };
+    } catch (error) {
+      console.error("Error fetching leaderboard from Firestore:", error);
+      return { leaderboard: [], Items: [], Count: 0, cursor, hasMore: false };
+    }
+  },
+
+  // Live top of a board. Later updates also list the ids that arrived
+  // since the previous one, so new scores can be highlighted.
+  subscribeToLeaderboard: (
+    filters: LeaderboardQuery,
+    limitCount: number,
+    onChange: (update: LeaderboardUpdate) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe => {
+    let initial = true;
+    return onSnapshot(
+      query(
+        leaderboardQuery(filters),
+        orderBy("score", "desc"),
+        orderBy("streak", "desc"),
+        limit(limitCount)
+      ),
+      (snapshot) => {
+        onChange({
+          entries: snapshot.docs.map(toLeaderboardEntry),
+          added: initial
+            ? []
+            : snapshot
+                .docChanges()
+                .filter((change) => change.type === "added")
+                .map((change) => change.doc.id),
+        });
+        initial = false;
+      },
+      (error) => {
+        console.error("Error listening to leaderboard:", error);
+        onError?.(error);
       }
+    );
+  },
 
-      // Order by score descending, then by streak descending
-      q = query(q, orderBy("score", "desc"), orderBy("streak", "desc"));
+  // Each player's best entry on a board, for a small set of players such as
+  // someone's friends. Best first, at most one entry per player.
+  getBestEntries: async (
+    filters: LeaderboardQuery,
+    userIds: string[]
+  ): Promise<FirestoreLeaderboardEntry[]> => {
+    const best = new Map<string, QueryDocumentSnapshot>();
+    const uniqueIds = [...new Set(userIds)];
 
-      // Limit results
-      q = query(q, limit(limitCount));
+    try {
+      // Filtered here like getPlayerRank does, so no extra indexes are
+      // needed; "in" queries take at most 30 values
+      for (let i = 0; i < uniqueIds.length; i += 30) {
+        const querySnapshot = await getDocs(
+          query(
+            collection(db, "leaderboard"),
+            where("user_id", "in", uniqueIds.slice(i, i + 30))
+          )
+        );
+        querySnapshot.docs
+          .filter((entry) => matchesLeaderboardQuery(entry, filters))
+          .forEach((entry) => {
+            const current = best.get(entry.get("user_id"));
+            if (
+              !current ||
+              entry.get("score") > current.get("score") ||
+              (entry.get("score") === current.get("score") &&
+                (entry.get("streak") ?? 0) > (current.get("streak") ?? 0))
+            ) {
+              best.set(entry.get("user_id"), entry);
+            }
+          });
+      }
+    } catch (error) {
+      console.error("Error fetching best entries from Firestore:", error);
+      return [];
+    }
+
+    return [...best.values()]
+      .map(toLeaderboardEntry)
+      .sort((a, b) => b.score - a.score || b.streak - a.streak);
+  },
+
+  // Number of scores on a board, counted server-side. null if the count
+  // failed.
+  countLeaderboard: async (
+    filters: LeaderboardQuery
+  ): Promise<number | null> => {
+    try {
+      const total = await getCountFromServer(leaderboardQuery(filters));
+      return total.data().count;
+    } catch (error) {
+      console.error("Error counting leaderboard entries:", error);
+      return null;
+    }
+  },
+
+  // Rank of a player's best score on a board, with the entries just above
+  // and below it. null if they have no score there; a failed lookup throws.
+  getPlayerRank: async (
+    filters: LeaderboardQuery,
+    userId: string,
+    neighbours: number = 2
+  ): Promise<PlayerRank | null> => {
+    try {
+      // A player has few entries, so their best is picked here rather than
+      // needing a composite index with user_id for every filter
+      const ownSnapshot = await getDocs(
+        query(collection(db, "leaderboard"), where("user_id", "==", userId))
+      );
+      const best = ownSnapshot.docs
+        .filter((entry) => matchesLeaderboardQuery(entry, filters))
+        .sort(
+          (a, b) =>
+            b.get("score") - a.get("score") ||
+            (b.get("streak") ?? 0) - (a.get("streak") ?? 0)
+        )[0];
+      if (!best) return null;
+
+      const score: number = best.get("score");
+      const streak: number = best.get("streak") ?? 0;
+      const board = leaderboardQuery(filters);
+      const ordered = query(
+        board,
+        orderBy("score", "desc"),
+        orderBy("streak", "desc")
+      );
 
+      // Rank = entries with a higher score, or the same score and a longer
+      // streak, counted server-side
+      const [higher, longerStreak, total, above, below] = await Promise.all([
+        getCountFromServer(query(board, where("score", ">", score))),
+        getCountFromServer(
+          query(
+            board,
+            where("score", "==", score),
+            where("streak", ">", streak)
+          )
+        ),
+        getCountFromServer(board),
+        getDocs(query(ordered, endBefore(best), limitToLast(neighbours))),
+        getDocs(query(ordered, startAfter(best), limit(neighbours))),
+      ]);
+
+      return {
+        rank: higher.data().count + longerStreak.data().count + 1,
+        total: total.data().count,
+        entry: toLeaderboardEntry(best),
+        above: above.docs.map(toLeaderboardEntry),
+        below: below.docs.map(toLeaderboardEntry),
+      };
+    } catch (error) {
+      console.error("Error fetching player rank from Firestore:", error);
+      throw error;
+    }
+  },
+
+  // Profiles for a set of Spotify user ids; unknown ids are left out
+  getPlayers: async (
+    userIds: string[]
+  ): Promise<Record<string, PlayerProfile>> => {
+    const profiles: Record<string, PlayerProfile> = {};
+    const uniqueIds = [...new Set(userIds)];
+
+    try {
+      // "in" queries take at most 30 values
+      for (let i = 0; i < uniqueIds.length; i += 30) {
+        const querySnapshot = await getDocs(
+          query(
+            collection(db, "players"),
+            where(documentId(), "in", uniqueIds.slice(i, i + 30))
+          )
+        );
+        querySnapshot.forEach((doc) => {
+          profiles[doc.id] = toPlayerProfile(doc);
+        });
+      }
+    } catch (error) {
+      console.error("Error fetching player profiles:", error);
+    }
+    return profiles;
+  },
+
+  // Friends on the player's board, leaving out the ones they removed
+  getFriends: async (userId: string): Promise<Friendship[]> => {
+    try {
+      const querySnapshot = await getDocs(
+        query(collection(db, "friends"), where("user_id", "==", userId))
+      );
+      return querySnapshot.docs.flatMap((doc) => {
+        const data = doc.data() as Friendship;
+        if (data.hidden) return [];
+        return {
+          ...data,
+          created_at:
+            data.created_at instanceof Timestamp
+              ? data.created_at.toDate().toISOString()
+              : data.created_at,
+        };
+      });
+    } catch (error) {
+      console.error("Error fetching friends from Firestore:", error);
+      return [];
+    }
+  },
+
+  // Highest rated players. Unrated players have no rating field, so
+  // ordering by it leaves them out.
+  getRatedPlayers: async (
+    limitCount: number = 50
+  ): Promise<PlayerProfile[]> => {
+    try {
+      const querySnapshot = await getDocs(
+        query(
+          collection(db, "players"),
+          orderBy("rating", "desc"),
+          limit(limitCount)
+        )
+      );
+      return querySnapshot.docs.map((doc) => toPlayerProfile(doc));
+    } catch (error) {
+      console.error("Error fetching rated players from Firestore:", error);
+      return [];
+    }
+  },
+
+  // Whether today's snapshot has already been recorded for this user
+  hasSnapshotForToday: async (userId: string): Promise<boolean> => {
+    try {
+      const snapshotDoc = await getDoc(
+        doc(db, "snapshots", `${userId}_${toDateKey()}`)
+      );
+      return snapshotDoc.exists();
+    } catch (error) {
+      console.error("Error checking today's snapshot:", error);
+      // Treat as recorded so a Firestore outage doesn't trigger refetches
+      return true;
+    }
+  },
+
+  // Record today's snapshot unless one already exists
+  saveDailySnapshot: async (
+    userId: string,
+    rankings: Record<TimeRange, SnapshotRanking>
+  ): Promise<{ success: boolean; message: string }> => {
+    try {
+      const date = toDateKey();
+      const snapshotRef = doc(db, "snapshots", `${userId}_${date}`);
+
+      if ((await getDoc(snapshotRef)).exists()) {
+        return { success: true, message: "Snapshot already recorded today" };
+      }
+
+      const snapshot: Omit<TopItemsSnapshot, "id"> = {
+        user_id: userId,
+        date,
+        rankings,
+        created_at: Timestamp.now(),
+      };
+      await setDoc(snapshotRef, snapshot);
+
+      console.log(`Saved top items snapshot for ${date}`);
+      return { success: true, message: "Snapshot saved" };
+    } catch (error) {
+      console.error("Error saving snapshot to Firestore:", error);
+      return { success: false, message: "Failed to save snapshot" };
+    }
+  },
+
+  // Get a user's snapshots, oldest first
+  getSnapshots: async (userId: string): Promise<TopItemsSnapshot[]> => {
+    try {
+      // Sorted client-side so the query needs no composite index
+      const q = query(
+        collection(db, "snapshots"),
+        where("user_id", "==", userId)
+      );
       const querySnapshot = await getDocs(q);
-      const leaderboard: FirestoreLeaderboardEntry[] = [];
+      const snapshots: TopItemsSnapshot[] = [];
 
       querySnapshot.forEach((doc) => {
-        const data = doc.data() as Omit<FirestoreLeaderboardEntry, "id">;
-        leaderboard.push({
+        const data = doc.data() as Omit<TopItemsSnapshot, "id">;
+        snapshots.push({
           id: doc.id,
           ...data,
-          // Convert Firestore Timestamp to ISO string for consistency
           created_at:
             data.created_at instanceof Timestamp
               ? data.created_at.toDate().toISOString()
@@ -103,68 +689,429 @@ export const firestoreApi = {
         });
       });
 
-      console.log(`Fetched ${leaderboard.length} scores from Firestore`);
+      return snapshots.sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      console.error("Error fetching snapshots from Firestore:", error);
+      return [];
+    }
+  },
 
+  getDailyChallenge: async (date: string): Promise<DailyChallenge | null> => {
+    try {
+      const challengeDoc = await getDoc(doc(db, "daily_challenges", date));
+      if (!challengeDoc.exists()) return null;
+      const data = challengeDoc.data() as Omit<DailyChallenge, "id">;
       return {
-        leaderboard,
-        Items: leaderboard,
-        Count: leaderboard.length,
+        id: challengeDoc.id,
+        ...data,
+        created_at:
+          data.created_at instanceof Timestamp
+            ? data.created_at.toDate().toISOString()
+            : data.created_at,
       };
     } catch (error) {
-      console.error("Error fetching leaderboard from Firestore:", error);
-      return { leaderboard: [], Items: [], Count: 0 };
+      console.error("Error fetching daily challenge:", error);
+      return null;
+    }
+  },
+
+  getDailyAttempt: async (
+    userId: string,
+    date: string
+  ): Promise<DailyAttempt | null> => {
+    try {
+      const attemptDoc = await getDoc(
+        doc(db, "daily_attempts", `${userId}_${date}`)
+      );
+      return attemptDoc.exists() ? (attemptDoc.data() as DailyAttempt) : null;
+    } catch (error) {
+      console.error("Error fetching daily attempt:", error);
+      return null;
+    }
+  },
+
+  getChallenge: async (challengeId: string): Promise<GameChallenge | null> => {
+    try {
+      const challengeDoc = await getDoc(doc(db, "challenges", challengeId));
+      if (!challengeDoc.exists()) return null;
+      const data = challengeDoc.data() as Omit<GameChallenge, "id">;
+      return {
+        id: challengeDoc.id,
+        ...data,
+        created_at:
+          data.created_at instanceof Timestamp
+            ? data.created_at.toDate().toISOString()
+            : data.created_at,
+      };
+    } catch (error) {
+      console.error("Error fetching challenge:", error);
+      return null;
+    }
+  },
+
+  // Everyone who has played a challenge, best score first
+  getChallengeResponses: async (
+    challengeId: string
+  ): Promise<ChallengeResponse[]> => {
+    try {
+      const querySnapshot = await getDocs(
+        collection(db, "challenges", challengeId, "responses")
+      );
+      return querySnapshot.docs
+        .map((doc) => {
+          const data = doc.data() as ChallengeResponse;
+          return {
+            ...data,
+            completed_at:
+              data.completed_at instanceof Timestamp
+                ? data.completed_at.toDate().toISOString()
+                : data.completed_at,
+          };
+        })
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      console.error("Error fetching challenge responses:", error);
+      return [];
+    }
+  },
+
+  // A player's sessions, newest first
+  getGameSessions: async (userId: string): Promise<GameSession[]> => {
+    try {
+      // Sorted client-side so the query needs no composite index
+      const querySnapshot = await getDocs(
+        query(collection(db, "game_sessions"), where("user_id", "==", userId))
+      );
+      const sessions: GameSession[] = [];
+
+      querySnapshot.forEach((doc) => {
+        const data = doc.data() as Omit<GameSession, "id">;
+        sessions.push({
+          id: doc.id,
+          ...data,
+          created_at:
+            data.created_at instanceof Timestamp
+              ? data.created_at.toDate().toISOString()
+              : data.created_at,
+        });
+      });
+
+      return sessions.sort((a, b) =>
+        (b.created_at as string).localeCompare(a.created_at as string)
+      );
+    } catch (error) {
+      console.error("Error fetching game sessions:", error);
+      return [];
+    }
+  },
+
+  // Every score a player has on the leaderboard, oldest first
+  getPlayerEntries: async (
+    userId: string
+  ): Promise<FirestoreLeaderboardEntry[]> => {
+    try {
+      // Sorted client-side so the query needs no composite index
+      const querySnapshot = await getDocs(
+        query(collection(db, "leaderboard"), where("user_id", "==", userId))
+      );
+      return querySnapshot.docs
+        .map(toLeaderboardEntry)
+        .sort((a, b) =>
+          (a.created_at as string).localeCompare(b.created_at as string)
+        );
+    } catch (error) {
+      console.error("Error fetching player entries from Firestore:", error);
+      return [];
     }
   },
 
   // Get user's personal stats from Firestore
   getUserStats: async (
-    playerName: string,
+    userId: string,
     gameType?: "gotify" | "spotimatch"
-  ): Promise<{
-    bestScore: number;
-    bestStreak: number;
-    totalGames: number;
-    averageScore: number;
-  }> => {
+  ): Promise<ScoreSummary> => {
     try {
       const leaderboardRef = collection(db, "leaderboard");
-      let q = query(leaderboardRef, where("player_name", "==", playerName));
+      let q = query(leaderboardRef, where("user_id", "==", userId));
 
       if (gameType) {
         q = query(q, where("game_type", "==", gameType));
       }
 
       const querySnapshot = await getDocs(q);
-      const userScores: FirestoreLeaderboardEntry[] = [];
+      return summarizeScores(querySnapshot.docs.map(toLeaderboardEntry));
+    } catch (error) {
+      console.error("Error fetching user stats from Firestore:", error);
+      return summarizeScores([]);
+    }
+  },
+};
 
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Omit<FirestoreLeaderboardEntry, "id">;
-        userScores.push({
-          id: doc.id,
-          ...data,
+export const roomsApi = {
+  // Create an empty room in the lobby; the host is added by joinRoom like
+  // everyone else. Returns the join code.
+  createRoom: async (
+    host: { id: string; name: string },
+    tracks: PoolTrack[],
+    timeLimit: number
+  ): Promise<string | null> => {
+    try {
+      // A handful of tries is plenty with ~33 million possible codes
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const code = generateRoomCode();
+        const roomRef = doc(db, "rooms", code);
+        const created = await runTransaction(db, async (transaction) => {
+          if ((await transaction.get(roomRef)).exists()) return false;
+          const room: GotifyRoom = {
+            code,
+            host_id: host.id,
+            status: "lobby",
+            tracks,
+            turn: 0,
+            turn_starts_at: null,
+            time_limit: timeLimit,
+            created_at: Timestamp.now(),
+          };
+          transaction.set(roomRef, room);
+          return true;
         });
-      });
 
-      if (userScores.length === 0) {
-        return { bestScore: 0, bestStreak: 0, totalGames: 0, averageScore: 0 };
+        if (created) {
+          console.log("Created Gotify room:", code);
+          return code;
+        }
+      }
+      return null;
+    } catch (error) {
+      console.error("Error creating room:", error);
+      return null;
+    }
+  },
+
+  /**
+   * Join (or rejoin) a room. New players can only join in the lobby.
+   * Also measures the offset between this device's clock and Firestore's,
+   * which turn start times are expressed in.
+   */
+  joinRoom: async (
+    code: string,
+    player: { id: string; name: string }
+  ): Promise<{ success: boolean; message: string; clockOffset: number }> => {
+    try {
+      const roomDoc = await getDoc(doc(db, "rooms", code));
+      if (!roomDoc.exists()) {
+        return { success: false, message: "Room not found", clockOffset: 0 };
       }
 
-      const bestScore = Math.max(...userScores.map((s) => s.score));
-      const bestStreak = Math.max(...userScores.map((s) => s.streak || 0));
-      const totalGames = userScores.length;
-      const averageScore = Math.round(
-        userScores.reduce((sum, s) => sum + s.score, 0) / totalGames
+      const playerRef = doc(db, "rooms", code, "players", player.id);
+      const playerDoc = await getDoc(playerRef);
+      const room = roomDoc.data() as GotifyRoom;
+      if (!playerDoc.exists() && room.status !== "lobby") {
+        return {
+          success: false,
+          message: "This game has already started",
+          clockOffset: 0,
+        };
+      }
+
+      const before = Date.now();
+      if (playerDoc.exists()) {
+        await updateDoc(playerRef, { last_seen: serverTimestamp() });
+      } else {
+        await setDoc(playerRef, {
+          user_id: player.id,
+          display_name: player.name,
+          score: 0,
+          streak: 0,
+          last_turn: null,
+          last_seen: serverTimestamp(),
+        });
+      }
+      const after = Date.now();
+
+      // The server stamped the write roughly halfway through the round trip
+      const stamped = (await getDocFromServer(playerRef)).data() as RoomPlayer;
+      const clockOffset = stamped.last_seen
+        ? stamped.last_seen.toMillis() - (before + after) / 2
+        : 0;
+
+      console.log(`Joined room ${code}, clock offset ${clockOffset}ms`);
+      return { success: true, message: "Joined room", clockOffset };
+    } catch (error) {
+      console.error("Error joining room:", error);
+      return { success: false, message: "Failed to join room", clockOffset: 0 };
+    }
+  },
+
+  leaveRoom: async (code: string, userId: string): Promise<void> => {
+    try {
+      await deleteDoc(doc(db, "rooms", code, "players", userId));
+    } catch (error) {
+      console.error("Error leaving room:", error);
+    }
+  },
+
+  subscribeToRoom: (
+    code: string,
+    onChange: (room: GotifyRoom | null) => void
+  ): Unsubscribe =>
+    onSnapshot(
+      doc(db, "rooms", code),
+      (snapshot) =>
+        onChange(snapshot.exists() ? (snapshot.data() as GotifyRoom) : null),
+      (error) => console.error("Error listening to room:", error)
+    ),
+
+  // Players, best score first
+  subscribeToPlayers: (
+    code: string,
+    onChange: (players: RoomPlayer[]) => void
+  ): Unsubscribe =>
+    onSnapshot(
+      collection(db, "rooms", code, "players"),
+      (snapshot) =>
+        onChange(
+          snapshot.docs
+            .map((doc) => doc.data() as RoomPlayer)
+            .sort((a, b) => b.score - a.score)
+        ),
+      (error) => console.error("Error listening to room players:", error)
+    ),
+
+  // One turn's guesses, in the order they were submitted
+  subscribeToGuesses: (
+    code: string,
+    turn: number,
+    onChange: (guesses: RoomGuess[]) => void
+  ): Unsubscribe =>
+    onSnapshot(
+      query(
+        collection(db, "rooms", code, "guesses"),
+        where("turn", "==", turn)
+      ),
+      (snapshot) =>
+        onChange(
+          snapshot.docs
+            .map((doc) => doc.data() as RoomGuess)
+            .sort(
+              (a, b) =>
+                (a.submitted_at?.toMillis() ?? Infinity) -
+                (b.submitted_at?.toMillis() ?? Infinity)
+            )
+        ),
+      (error) => console.error("Error listening to room guesses:", error)
+    ),
+
+  // Host only: start the game with its first turn at a shared start time
+  startTurn: async (
+    code: string,
+    turn: number,
+    startsAt: number
+  ): Promise<void> => {
+    try {
+      await updateDoc(doc(db, "rooms", code), {
+        status: "playing",
+        turn,
+        turn_starts_at: startsAt,
+      });
+    } catch (error) {
+      console.error("Error starting turn:", error);
+    }
+  },
+
+  /**
+   * Move on from a turn to the next one (or finish the room after the last).
+   * Any player may call this, so it only acts if the room is still on that
+   * turn: when several do, the first wins and the rest do nothing.
+   */
+  advanceTurn: async (
+    code: string,
+    turn: number,
+    nextStartsAt: number
+  ): Promise<void> => {
+    try {
+      const roomRef = doc(db, "rooms", code);
+      await runTransaction(db, async (transaction) => {
+        const roomDoc = await transaction.get(roomRef);
+        const room = roomDoc.data() as GotifyRoom | undefined;
+        if (!room || room.status !== "playing" || room.turn !== turn) return;
+
+        if (turn + 1 < room.tracks.length) {
+          transaction.update(roomRef, {
+            turn: turn + 1,
+            turn_starts_at: nextStartsAt,
+          });
+        } else {
+          transaction.update(roomRef, { status: "finished" });
+        }
+      });
+    } catch (error) {
+      console.error("Error advancing turn:", error);
+    }
+  },
+
+  /**
+   * Record a player's only guess for a turn and update their score. The
+   * transaction serializes guesses, so correct answers are ranked in the
+   * order they reached the server and the first ones earn a bonus.
+   * Null if the player already guessed this turn.
+   */
+  submitGuess: async (
+    code: string,
+    turn: number,
+    player: { id: string; name: string },
+    guess: string,
+    result: GuessResult,
+    points: number
+  ): Promise<{ points: number; order: number | null } | null> => {
+    try {
+      const guessRef = doc(
+        db,
+        "rooms",
+        code,
+        "guesses",
+        `${turn}_${player.id}`
       );
+      const turnRef = doc(db, "rooms", code, "turns", String(turn));
+      const playerRef = doc(db, "rooms", code, "players", player.id);
 
-      return {
-        bestScore,
-        bestStreak,
-        totalGames,
-        averageScore,
-      };
+      return await runTransaction(db, async (transaction) => {
+        const [existing, turnDoc, playerDoc] = await Promise.all([
+          transaction.get(guessRef),
+          transaction.get(turnRef),
+          transaction.get(playerRef),
+        ]);
+        if (existing.exists() || !playerDoc.exists()) return null;
+
+        const correctSoFar: number = turnDoc.data()?.correct_count ?? 0;
+        const order = result === "correct" ? correctSoFar + 1 : null;
+        const total = points + (order ? placementBonus(order) : 0);
+        const current = playerDoc.data() as RoomPlayer;
+
+        const roomGuess: RoomGuess = {
+          user_id: player.id,
+          display_name: player.name,
+          turn,
+          guess,
+          result,
+          points: total,
+          order,
+          submitted_at: serverTimestamp() as Timestamp,
+        };
+        transaction.set(guessRef, roomGuess);
+        transaction.set(turnRef, {
+          correct_count: correctSoFar + (order ? 1 : 0),
+        });
+        transaction.update(playerRef, {
+          score: Math.max(0, current.score + total),
+          streak: result !== "wrong" ? roomStreak(current, turn) + 1 : 0,
+          last_turn: turn,
+        });
+        return { points: total, order };
+      });
     } catch (error) {
-      console.error("Error fetching user stats from Firestore:", error);
-      return { bestScore: 0, bestStreak: 0, totalGames: 0, averageScore: 0 };
+      console.error("Error submitting guess:", error);
+      return null;
     }
   },
 };
@@ -0,0 +1,43 @@
+import type { GenreWeight, SpotifyArtist } from "../types";
+
+// Combine the genres of a ranked artist list (e.g. /me/top/artists) into
+// a ranked genre breakdown. Higher-ranked artists count for more: the
+// artist at rank r of n contributes (n - r) / n to each of its genres.
+export const aggregateGenres = (
+  rankedArtists: SpotifyArtist[],
+  limit: number = Infinity
+): GenreWeight[] => {
+  const total = rankedArtists.length;
+  const byGenre = new Map<string, { weight: number; artists: string[] }>();
+
+  rankedArtists.forEach((artist, rank) => {
+    const artistWeight = (total - rank) / total;
+    // Spotify occasionally repeats a genre on one artist
+    new Set(artist.genres ?? []).forEach((genre) => {
+      const entry = byGenre.get(genre) ?? { weight: 0, artists: [] };
+      entry.weight += artistWeight;
+      entry.artists.push(artist.name);
+      byGenre.set(genre, entry);
+    });
+  });
+
+  const totalWeight = Array.from(byGenre.values()).reduce(
+    (sum, entry) => sum + entry.weight,
+    0
+  );
+
+  return Array.from(byGenre.entries())
+    .map(([genre, entry]) => ({
+      genre,
+      weight: entry.weight,
+      share: totalWeight > 0 ? entry.weight / totalWeight : 0,
+      artists: entry.artists,
+    }))
+    .sort(
+      (a, b) =>
+        b.weight - a.weight ||
+        b.artists.length - a.artists.length ||
+        a.genre.localeCompare(b.genre)
+    )
+    .slice(0, limit);
+};
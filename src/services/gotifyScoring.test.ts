@@ -0,0 +1,188 @@
+import { createRequire } from "node:module";
+import { describe, expect, it } from "vitest";
+import type { GotifyVariant, SpotifyTrack } from "../types";
+import type { TurnResult } from "./firestore";
+import * as client from "./gotifyScoring";
+import type { Difficulty } from "./gotifyScoring";
+
+// The copy submitGotifyGame replays games with
+const server = createRequire(import.meta.url)(
+  "../../functions/gotifyScoring.js"
+) as {
+  DIFFICULTY_SETTINGS: typeof client.difficultySettings;
+  timeBasedPoints: typeof client.timeBasedPoints;
+  replayGame: (
+    turns: Pick<TurnResult, "track_id" | "guess" | "time_left" | "hint_used">[],
+    tracks: SpotifyTrack[],
+    difficulty: Difficulty,
+    variant: GotifyVariant
+  ) => { score: number; turns: { result: string; points: number }[] };
+};
+
+const track = (
+  id: string,
+  name: string,
+  artist: string,
+  album: string,
+  releaseDate: string
+): SpotifyTrack => ({
+  id,
+  name,
+  artists: [{ id: `${id}-artist`, name: artist }],
+  album: {
+    id: `${id}-album`,
+    name: album,
+    release_date: releaseDate,
+    images: [],
+  },
+  preview_url: null,
+  popularity: 50,
+  external_urls: { spotify: "" },
+});
+
+const tracks = [
+  track("t1", "Blinding Lights", "The Weeknd", "After Hours", "2020-03-20"),
+  track("t2", "Bohemian Rhapsody", "Queen", "A Night at the Opera", "1975"),
+  track("t3", "Wonderwall", "Oasis", "Morning Glory", "1995-10-02"),
+  track("t4", "Señorita", "Shawn Mendes", "Shawn Mendes", "2019-06-21"),
+  track("t5", "Yellow", "Coldplay", "Parachutes", "2000-07-10"),
+  track("t6", "Hello", "Adele", "25", "2015-11-20"),
+  track("t7", "Dynamite", "BTS", "BE", "2020-11-20"),
+  track("t8", "Stay", "The Kid LAROI", "F*CK LOVE 3", "2021-07-09"),
+];
+
+// Guesses for each track: right, close, wrong, or none at all
+const answers: Record<GotifyVariant, string[]> = {
+  song: ["blinding lights", "bohemian rapsody", "Dynamite", "senorita"],
+  artist: ["the weeknd", "quen", "Oasis", "Coldplay"],
+  album: ["after hours", "a night at the opera", "morning glry", "Butter"],
+  year: ["2020", "1977", "1995", "1990"],
+};
+
+// Every kind of turn: typed guesses at different speeds, a hint, a reveal
+// (no guess, time left) and running out of time (no guess, none left)
+const turnLog = (
+  difficulty: Difficulty,
+  variant: GotifyVariant
+): Pick<TurnResult, "track_id" | "guess" | "time_left" | "hint_used">[] => {
+  const settings = client.difficultySettings[difficulty];
+  const { timeLimit } = settings;
+  const guessFor = (index: number) =>
+    settings.choices
+      ? client.choiceLabel(
+          tracks[index % 2 === 0 ? index : (index + 1) % tracks.length]
+        )
+      : answers[variant][index % 4];
+
+  return tracks.map((played, index) => ({
+    track_id: played.id,
+    guess: index === 5 || index === 6 ? "" : guessFor(index),
+    time_left:
+      index === 6 ? 0 : Math.round((timeLimit * (tracks.length - index)) / 9),
+    hint_used: index === 2,
+  }));
+};
+
+// The points Gotify gives each turn in the browser
+const clientReplay = (
+  turns: ReturnType<typeof turnLog>,
+  difficulty: Difficulty,
+  variant: GotifyVariant
+) => {
+  const settings = client.difficultySettings[difficulty];
+  let score = 0;
+  let streak = 0;
+  const points = turns.map((turn, index) => {
+    if (turn.hint_used) score = Math.max(0, score - client.HINT_PENALTY);
+    const played = tracks[index];
+    let result: client.GuessResult;
+    let earned: number;
+
+    if (!turn.guess) {
+      result = "wrong";
+      earned =
+        turn.time_left === 0 ? -client.TIME_UP_PENALTY : -client.REVEAL_PENALTY;
+    } else if (settings.choices) {
+      const correct = turn.guess === client.choiceLabel(played);
+      result = correct ? "correct" : "wrong";
+      earned = client.scoreChoice(correct, settings, {
+        timeLeft: turn.time_left,
+        streak,
+      });
+    } else {
+      const rules = settings.variants![variant];
+      const judgement = client.judgeGuess(variant, turn.guess, played, rules);
+      result = judgement.result;
+      earned = client.scoreGuess(judgement, {
+        timeLeft: turn.time_left,
+        timeLimit: settings.timeLimit,
+        multiplier: settings.scoreMultiplier * rules.scoreMultiplier,
+        streak,
+      });
+    }
+
+    score = Math.max(0, score + earned);
+    streak = result === "wrong" ? 0 : streak + 1;
+    return { result, points: earned };
+  });
+  return { score, turns: points };
+};
+
+const games = (Object.keys(client.difficultySettings) as Difficulty[]).flatMap(
+  (difficulty) =>
+    (client.difficultySettings[difficulty].variants
+      ? (Object.keys(answers) as GotifyVariant[])
+      : (["song"] as GotifyVariant[])
+    ).map((variant) => ({ difficulty, variant }))
+);
+
+describe("difficulty settings", () => {
+  it("are the same on the server", () => {
+    expect(server.DIFFICULTY_SETTINGS).toEqual(client.difficultySettings);
+  });
+});
+
+describe("timeBasedPoints", () => {
+  it.each(Object.keys(client.difficultySettings) as Difficulty[])(
+    "%s scores every second the same on the server",
+    (difficulty) => {
+      const { timeLimit } = client.difficultySettings[difficulty];
+      for (let timeLeft = 0; timeLeft <= timeLimit; timeLeft++) {
+        for (const basePoints of [7, 10]) {
+          expect(server.timeBasedPoints(basePoints, timeLeft, timeLimit)).toBe(
+            client.timeBasedPoints(basePoints, timeLeft, timeLimit)
+          );
+        }
+      }
+    }
+  );
+});
+
+describe("replayGame", () => {
+  it.each(games)(
+    "$difficulty $variant scores like the browser",
+    ({ difficulty, variant }) => {
+      const turns = turnLog(difficulty, variant);
+      const replayed = server.replayGame(turns, tracks, difficulty, variant);
+      const expected = clientReplay(turns, difficulty, variant);
+
+      expect(
+        replayed.turns.map(({ result, points }) => ({ result, points }))
+      ).toEqual(expected.turns);
+      expect(replayed.score).toBe(expected.score);
+    }
+  );
+
+  it("covers every kind of result", () => {
+    const results = new Set(
+      games.flatMap(({ difficulty, variant }) =>
+        clientReplay(
+          turnLog(difficulty, variant),
+          difficulty,
+          variant
+        ).turns.map((turn) => turn.result)
+      )
+    );
+    expect([...results].sort()).toEqual(["correct", "partial", "wrong"]);
+  });
+});
@@ -0,0 +1,277 @@
+import type { GotifyVariant, SpotifyTrack } from "../types";
+import { answerSimilarity, stripVersionInfo } from "./answerMatching";
+
+export type GuessResult = "correct" | "partial" | "wrong";
+
+// Per-variant tuning, set for each difficulty in difficultySettings
+export interface VariantRules {
+  scoreMultiplier: number;
+  // Year variant: a guess this many years off still counts as correct...
+  exactWithin?: number;
+  // ...and this many years off earns scaled partial credit
+  partialWithin?: number;
+}
+
+export interface GuessJudgement {
+  result: GuessResult;
+  // Share of the partial points awarded, 0-1 (below 1 only for near years)
+  credit: number;
+}
+
+export type Difficulty = "easy" | "medium" | "hard" | "multiple_choice";
+
+export interface DifficultySetting {
+  maxTurns: number;
+  timeLimit: number;
+  scoreMultiplier: number;
+  hints: number;
+  // Multiple choice only: options per turn and the cost of a wrong pick
+  choices?: number;
+  wrongPenalty?: number;
+  // Typed modes: rules for each guessing variant
+  variants?: Record<GotifyVariant, VariantRules>;
+}
+
+// Per-difficulty rules. functions/gotifyScoring.js keeps a copy to replay
+// submitted games with; gotifyScoring.test.ts checks the two agree.
+export const difficultySettings: Record<Difficulty, DifficultySetting> = {
+  // Naming only the artist is easiest and pays least; album titles are
+  // the least memorable and pay most
+  easy: {
+    maxTurns: 5,
+    timeLimit: 30,
+    scoreMultiplier: 1,
+    hints: 5,
+    variants: {
+      song: { scoreMultiplier: 1 },
+      artist: { scoreMultiplier: 0.6 },
+      album: { scoreMultiplier: 1.2 },
+      year: { scoreMultiplier: 1, exactWithin: 1, partialWithin: 5 },
+    },
+  },
+  medium: {
+    maxTurns: 10,
+    timeLimit: 20,
+    scoreMultiplier: 1.5,
+    hints: 3,
+    variants: {
+      song: { scoreMultiplier: 1 },
+      artist: { scoreMultiplier: 0.6 },
+      album: { scoreMultiplier: 1.2 },
+      year: { scoreMultiplier: 1, exactWithin: 0, partialWithin: 3 },
+    },
+  },
+  hard: {
+    maxTurns: 15,
+    timeLimit: 15,
+    scoreMultiplier: 2,
+    hints: 1,
+    variants: {
+      song: { scoreMultiplier: 1 },
+      artist: { scoreMultiplier: 0.5 },
+      album: { scoreMultiplier: 1.3 },
+      year: { scoreMultiplier: 1.2, exactWithin: 0, partialWithin: 2 },
+    },
+  },
+  // Picking is easier than typing, so it pays less and random clicking
+  // loses points on average (1 in 4 right vs. the wrong-pick penalty)
+  multiple_choice: {
+    maxTurns: 10,
+    timeLimit: 15,
+    scoreMultiplier: 0.75,
+    hints: 2,
+    choices: 4,
+    wrongPenalty: 3,
+  },
+};
+
+// Flat penalties: using a hint, giving up with the reveal button and
+// running out of time
+export const HINT_PENALTY = 1;
+export const REVEAL_PENALTY = 3;
+export const TIME_UP_PENALTY = 2;
+
+const bySimilarity = (similarity: number): GuessJudgement => ({
+  result:
+    similarity >= 0.8 ? "correct" : similarity >= 0.6 ? "partial" : "wrong",
+  credit: 1,
+});
+
+export const releaseYear = (track: SpotifyTrack): number =>
+  parseInt(track.album.release_date.slice(0, 4), 10);
+
+/** Decide how good a typed guess is for the given variant. */
+export const judgeGuess = (
+  variant: GotifyVariant,
+  guess: string,
+  track: SpotifyTrack,
+  rules: VariantRules
+): GuessJudgement => {
+  switch (variant) {
+    case "artist":
+      // Any credited artist counts
+      return bySimilarity(
+        Math.max(
+          ...track.artists.map((artist) => answerSimilarity(guess, artist.name))
+        )
+      );
+
+    case "album":
+      return bySimilarity(answerSimilarity(guess, track.album.name));
+
+    case "year": {
+      const guessedYear = parseInt(guess.trim(), 10);
+      if (!/^\d{4}$/.test(guess.trim()) || Number.isNaN(guessedYear)) {
+        return { result: "wrong", credit: 0 };
+      }
+      const distance = Math.abs(guessedYear - releaseYear(track));
+      const exactWithin = rules.exactWithin ?? 0;
+      const partialWithin = rules.partialWithin ?? 0;
+
+      if (distance <= exactWithin) return { result: "correct", credit: 1 };
+      if (distance <= partialWithin) {
+        // Linear falloff from the edge of "correct" to the edge of partial
+        return {
+          result: "partial",
+          credit:
+            1 - (distance - exactWithin) / (partialWithin - exactWithin + 1),
+        };
+      }
+      return { result: "wrong", credit: 0 };
+    }
+
+    case "song":
+    default: {
+      const trackName = track.name;
+      const artistName = track.artists[0].name;
+      const trackSimilarity = answerSimilarity(guess, trackName);
+      const artistSimilarity = answerSimilarity(guess, artistName);
+      const combinedSimilarity = answerSimilarity(
+        guess,
+        `${stripVersionInfo(trackName)} ${artistName}`
+      );
+
+      if (
+        combinedSimilarity >= 0.8 ||
+        (trackSimilarity >= 0.8 && artistSimilarity >= 0.8)
+      ) {
+        // Perfect or near-perfect match
+        return { result: "correct", credit: 1 };
+      }
+      if (
+        trackSimilarity >= 0.6 ||
+        artistSimilarity >= 0.6 ||
+        combinedSimilarity >= 0.6
+      ) {
+        return { result: "partial", credit: 1 };
+      }
+      return { result: "wrong", credit: 0 };
+    }
+  }
+};
+
+// Exponential decay function: starts at 10 points, decreases exponentially
+// Formula: basePoints * e^(-decay * (1 - timeRatio))
+export const timeBasedPoints = (
+  basePoints: number,
+  timeLeft: number,
+  timeLimit: number
+): number => {
+  // Calculate time-based multiplier (exponential decay based on remaining time)
+  const timeRatio = timeLeft / timeLimit;
+  const decay = 1.5; // Controls how steep the exponential decay is
+  const timeMultiplier = Math.exp(-decay * (1 - timeRatio));
+
+  // Map to the desired point ranges:
+  // Fastest (90-100% time left): ~10 points
+  // Fast (70-90% time left): ~7 points
+  // Normal (40-70% time left): ~5 points
+  // Slow (20-40% time left): ~4 points
+  // Very slow (0-20% time left): ~3 points
+  const minPoints = 3;
+  const maxPoints = 10;
+  const scaledPoints = minPoints + (maxPoints - minPoints) * timeMultiplier;
+
+  return Math.round((scaledPoints * basePoints) / 10); // Scale to base points
+};
+
+export interface TurnContext {
+  timeLeft: number;
+  timeLimit: number;
+  // Difficulty multiplier times the variant's
+  multiplier: number;
+  streak: number;
+}
+
+/** Score change for a judged typed guess. */
+export const scoreGuess = (
+  { result, credit }: GuessJudgement,
+  { timeLeft, timeLimit, multiplier, streak }: TurnContext
+): number => {
+  if (result === "correct") {
+    // Perfect or near-perfect match, with a streak bonus
+    const basePoints = timeBasedPoints(10, timeLeft, timeLimit);
+    return Math.round(basePoints * multiplier * (1 + streak * 0.1));
+  }
+  if (result === "partial") {
+    // Partial match, scaled down for near-miss years
+    const basePoints = Math.max(3, timeBasedPoints(7, timeLeft, timeLimit)); // Minimum 3 for partial
+    return Math.max(1, Math.round(basePoints * multiplier * credit));
+  }
+  // Wrong answer
+  return -2;
+};
+
+// Label of a multiple choice option, as recorded in the turn log
+export const choiceLabel = (track: SpotifyTrack): string =>
+  `${track.name} - ${track.artists[0].name}`;
+
+/** Score change for a multiple choice pick: all or nothing. */
+export const scoreChoice = (
+  correct: boolean,
+  settings: DifficultySetting,
+  { timeLeft, streak }: Pick<TurnContext, "timeLeft" | "streak">
+): number => {
+  if (!correct) return -(settings.wrongPenalty ?? 2);
+  const basePoints = timeBasedPoints(10, timeLeft, settings.timeLimit);
+  return Math.round(basePoints * settings.scoreMultiplier * (1 + streak * 0.1));
+};
+
+// Multiplayer rooms: extra points for the first correct answers of a turn
+const PLACEMENT_BONUS = [5, 3, 1];
+
+export const placementBonus = (order: number): number =>
+  PLACEMENT_BONUS[order - 1] ?? 0;
+
+// "Starts with "N" • 2 words" - shape of an answer without giving it away
+const describeShape = (answer: string): string => {
+  const words = stripVersionInfo(answer).split(/\s+/).filter(Boolean);
+  return `Starts with "${[...answer][0] ?? "?"}" • ${words.length} word${
+    words.length === 1 ? "" : "s"
+  }`;
+};
+
+/** Hint lines shown for a variant; never contains the answer itself. */
+export const variantHint = (
+  variant: GotifyVariant,
+  track: SpotifyTrack
+): string[] => {
+  const year = releaseYear(track);
+  switch (variant) {
+    case "artist":
+      return [
+        `Artist: ${describeShape(track.artists[0].name)}`,
+        `Song: ${track.name}`,
+      ];
+    case "year":
+      return [
+        `Released in the ${Math.floor(year / 10) * 10}s`,
+        `Album: ${track.album.name}`,
+      ];
+    case "album":
+      return [`Album: ${describeShape(track.album.name)}`, `Released: ${year}`];
+    case "song":
+    default:
+      return [`Album: ${track.album.name}`, `Released: ${year}`];
+  }
+};
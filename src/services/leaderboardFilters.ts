@@ -0,0 +1,114 @@
+import { dailyDateKey } from "./dailyChallenge";
+import type { LeaderboardQuery } from "./firestore";
+
+export type LeaderboardGame = "gotify" | "spotimatch";
+export type TimeWindow = "today" | "week" | "month" | "all";
+// Regular scores, today's daily challenge, or player ratings (Gotify only)
+export type LeaderboardBoard = "regular" | "daily" | "rated";
+
+// Everything the leaderboard page can be filtered by, mirrored in its URL
+export interface LeaderboardFilters {
+  game: LeaderboardGame;
+  difficulty: string | null; // null for every difficulty
+  window: TimeWindow;
+  board: LeaderboardBoard;
+  // Only the player and their friends, best score each
+  friends: boolean;
+}
+
+export const gameLabels: Record<LeaderboardGame, string> = {
+  gotify: "Gotify",
+  spotimatch: "Spotimatch",
+};
+
+export const difficultyOptions = [
+  "easy",
+  "medium",
+  "hard",
+  "multiple_choice",
+] as const;
+
+export const boardLabels: Record<LeaderboardBoard, string> = {
+  regular: "Regular Games",
+  daily: "Today's Daily",
+  rated: "Rated",
+};
+
+export const timeWindowLabels: Record<TimeWindow, string> = {
+  today: "Today",
+  week: "This Week",
+  month: "This Month",
+  all: "All Time",
+};
+
+const isTimeWindow = (value: string | null): value is TimeWindow =>
+  value !== null && value in timeWindowLabels;
+
+const isBoard = (value: string | null): value is LeaderboardBoard =>
+  value !== null && value in boardLabels;
+
+/** Read filters from the URL, falling back to the defaults for bad values. */
+export const parseLeaderboardFilters = (
+  params: URLSearchParams
+): LeaderboardFilters => {
+  const game = params.get("game") === "spotimatch" ? "spotimatch" : "gotify";
+  const difficulty = params.get("difficulty");
+  const timeWindow = params.get("window");
+  const board = params.get("board");
+
+  return {
+    game,
+    difficulty:
+      game === "gotify" &&
+      difficultyOptions.some((option) => option === difficulty)
+        ? difficulty
+        : null,
+    window: isTimeWindow(timeWindow) ? timeWindow : "all",
+    board: game === "gotify" && isBoard(board) ? board : "regular",
+    friends: params.get("players") === "friends",
+  };
+};
+
+/** URL parameters for a set of filters; defaults are left out. */
+export const toSearchParams = (
+  filters: LeaderboardFilters
+): Record<string, string> => ({
+  ...(filters.game !== "gotify" ? { game: filters.game } : {}),
+  ...(filters.difficulty ? { difficulty: filters.difficulty } : {}),
+  ...(filters.window !== "all" ? { window: filters.window } : {}),
+  ...(filters.board !== "regular" ? { board: filters.board } : {}),
+  ...(filters.friends ? { players: "friends" } : {}),
+});
+
+// Local calendar boundaries: midnight, Monday, the 1st
+export const windowStart = (
+  timeWindow: TimeWindow,
+  now: Date = new Date()
+): Date | undefined => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (timeWindow) {
+    case "today":
+      return start;
+    case "week":
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    case "month":
+      start.setDate(1);
+      return start;
+    case "all":
+    default:
+      return undefined;
+  }
+};
+
+/** The Firestore query for a set of filters; the rated board lists players. */
+export const toLeaderboardQuery = (
+  filters: LeaderboardFilters
+): LeaderboardQuery =>
+  filters.board === "daily"
+    ? { gameType: "gotify", dailyDate: dailyDateKey() }
+    : {
+        gameType: filters.game,
+        difficulty: filters.difficulty ?? undefined,
+        since: windowStart(filters.window),
+      };
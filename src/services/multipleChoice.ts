@@ -0,0 +1,66 @@
+import type { SpotifyTrack } from "../types";
+import { normalizeAnswer, stripVersionInfo } from "./answerMatching";
+
+// How much a candidate looks like the answer. Same artist counts most,
+// then similar popularity and era, so the wrong options are plausible.
+const resemblance = (answer: SpotifyTrack, candidate: SpotifyTrack): number => {
+  const answerArtists = new Set(answer.artists.map((artist) => artist.id));
+  const sharesArtist = candidate.artists.some((artist) =>
+    answerArtists.has(artist.id)
+  );
+  const popularityGap = Math.abs(answer.popularity - candidate.popularity);
+  const yearGap = Math.abs(
+    parseInt(answer.album.release_date) - parseInt(candidate.album.release_date)
+  );
+
+  return (
+    (sharesArtist ? 3 : 0) +
+    2 * (1 - popularityGap / 100) +
+    (Number.isFinite(yearGap) ? Math.max(0, 1 - yearGap / 20) : 0)
+  );
+};
+
+const titleKey = (track: SpotifyTrack) =>
+  normalizeAnswer(stripVersionInfo(track.name));
+
+/**
+ * Pick wrong options for a multiple-choice turn from the player's own
+ * tracks. Candidates sharing the answer's title are skipped so two options
+ * never read the same. Fewer than `count` come back if the pool is small.
+ */
+export const pickDistractors = (
+  answer: SpotifyTrack,
+  pool: SpotifyTrack[],
+  count: number,
+  random: () => number = Math.random
+): SpotifyTrack[] => {
+  const usedTitles = new Set([titleKey(answer)]);
+  const ranked = pool
+    .filter((track) => track.id !== answer.id)
+    // Jitter keeps the same lookalikes from showing up every time
+    .map((track) => ({
+      track,
+      weight: resemblance(answer, track) + random() * 2,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+
+  const distractors: SpotifyTrack[] = [];
+  for (const { track } of ranked) {
+    if (distractors.length >= count) break;
+    const key = titleKey(track);
+    if (usedTitles.has(key)) continue;
+    usedTitles.add(key);
+    distractors.push(track);
+  }
+  return distractors;
+};
+
+/** Fisher-Yates shuffle into a new array. */
+export const shuffle = <T>(items: T[], random: () => number = Math.random) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,115 @@
+import type { GotifyVariant } from "../types";
+import type { FirestoreLeaderboardEntry } from "./firestore";
+
+export interface ScoreSummary {
+  bestScore: number;
+  bestStreak: number;
+  totalGames: number;
+  averageScore: number;
+}
+
+export interface StatPoint {
+  date: string; // ISO timestamp
+  value: number;
+}
+
+export interface StatBreakdown {
+  key: string;
+  games: number;
+  bestScore: number;
+  averageScore: number;
+  // Average of the games that recorded accuracy; null if none did
+  accuracy: number | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+const createdAt = (entry: FirestoreLeaderboardEntry) =>
+  typeof entry.created_at === "string" ? entry.created_at : "";
+
+export const summarizeScores = (
+  entries: { score: number; streak?: number }[]
+): ScoreSummary =>
+  entries.length === 0
+    ? { bestScore: 0, bestStreak: 0, totalGames: 0, averageScore: 0 }
+    : {
+        bestScore: Math.max(...entries.map((entry) => entry.score)),
+        bestStreak: Math.max(...entries.map((entry) => entry.streak || 0)),
+        totalGames: entries.length,
+        averageScore: average(entries.map((entry) => entry.score)) ?? 0,
+      };
+
+// Per-group stats, e.g. by difficulty or game type; most played first
+export const breakdownBy = (
+  entries: FirestoreLeaderboardEntry[],
+  keyOf: (entry: FirestoreLeaderboardEntry) => string
+): StatBreakdown[] => {
+  const groups = new Map<string, FirestoreLeaderboardEntry[]>();
+  entries.forEach((entry) => {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      games: group.length,
+      bestScore: Math.max(...group.map((entry) => entry.score)),
+      averageScore: average(group.map((entry) => entry.score)) ?? 0,
+      accuracy: average(
+        group.flatMap((entry) =>
+          entry.accuracy !== undefined ? [entry.accuracy] : []
+        )
+      ),
+    }))
+    .sort((a, b) => b.games - a.games || a.key.localeCompare(b.key));
+};
+
+// Score of every game, oldest first
+export const scoreSeries = (
+  entries: FirestoreLeaderboardEntry[]
+): StatPoint[] =>
+  entries
+    .map((entry) => ({ date: createdAt(entry), value: entry.score }))
+    .filter((point) => point.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Accuracy averaged over the last `span` games at each game, so one bad
+// round doesn't swing the line. Games saved before accuracy was recorded
+// are skipped.
+export const accuracyTrend = (
+  entries: FirestoreLeaderboardEntry[],
+  span: number = 5
+): StatPoint[] => {
+  const games = entries
+    .filter((entry) => entry.accuracy !== undefined && createdAt(entry))
+    .sort((a, b) => createdAt(a).localeCompare(createdAt(b)));
+
+  return games.map((entry, index) => ({
+    date: createdAt(entry),
+    value:
+      average(
+        games
+          .slice(Math.max(0, index - span + 1), index + 1)
+          .map((game) => game.accuracy!)
+      ) ?? 0,
+  }));
+};
+
+// "Daily", "Challenge", or the difficulty and variant, e.g. "hard · album"
+export const gameModeLabel = (game: {
+  difficulty: string;
+  variant?: GotifyVariant;
+  daily_date?: string;
+  challenge_id?: string;
+}) => {
+  if (game.daily_date) return "Daily";
+  if (game.challenge_id) return "Challenge";
+  const difficulty = game.difficulty.replace("_", " ");
+  return !game.variant || game.variant === "song"
+    ? difficulty
+    : `${difficulty} · ${game.variant}`;
+};
@@ -0,0 +1,28 @@
+// Display side of the Gotify skill rating. Ratings themselves are computed
+// only by submitGotifyGame (functions/rating.js).
+
+export interface RatingTier {
+  name: string;
+  min: number; // Lowest rating in the tier
+  className: string; // Badge colours
+}
+
+// Highest first
+export const ratingTiers: RatingTier[] = [
+  { name: "Diamond", min: 1900, className: "bg-cyan-300 text-black" },
+  { name: "Platinum", min: 1700, className: "bg-slate-200 text-black" },
+  { name: "Gold", min: 1500, className: "bg-yellow-400 text-black" },
+  { name: "Silver", min: 1300, className: "bg-gray-400 text-black" },
+  { name: "Bronze", min: -Infinity, className: "bg-amber-700 text-white" },
+];
+
+// Same threshold as PROVISIONAL_DEVIATION in functions/rating.js
+const PROVISIONAL_DEVIATION = 110;
+
+export const ratingTier = (rating: number): RatingTier =>
+  ratingTiers.find((tier) => rating >= tier.min) ??
+  ratingTiers[ratingTiers.length - 1];
+
+// Too few recent games for the rating to mean much yet
+export const isProvisional = (deviation: number): boolean =>
+  deviation > PROVISIONAL_DEVIATION;
@@ -0,0 +1,161 @@
+// Persistent cache for Spotify GET responses, backed by IndexedDB so it
+// survives reloads. Entries are served fresh within their TTL and stale
+// (while a background request revalidates them) for a further window.
+
+const DB_NAME = "hubify-cache";
+const DB_VERSION = 1;
+const RESPONSE_STORE = "spotify-responses";
+const META_STORE = "meta";
+const ACCOUNT_KEY = "account_id";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export interface CacheRule {
+  pattern: RegExp;
+  ttl: number; // How long an entry counts as fresh
+  staleFor: number; // How long past the TTL it may still be served
+}
+
+// Per-endpoint lifetimes. /me is deliberately absent: it is how we notice
+// that a different account signed in, so it always hits the network.
+const CACHE_RULES: CacheRule[] = [
+  { pattern: /^\/me\/top\//, ttl: HOUR, staleFor: DAY },
+  {
+    pattern: /^\/me\/player\/recently-played/,
+    ttl: 2 * MINUTE,
+    staleFor: HOUR,
+  },
+  { pattern: /^\/me\/(tracks|playlists)/, ttl: 10 * MINUTE, staleFor: DAY },
+  { pattern: /^\/playlists\/[^/]+\/tracks/, ttl: 10 * MINUTE, staleFor: DAY },
+  { pattern: /^\/artists\/[^/?]+(\?|$)/, ttl: DAY, staleFor: 7 * DAY },
+  { pattern: /^\/audio-features/, ttl: 7 * DAY, staleFor: 30 * DAY },
+  {
+    pattern: /^\/recommendations\/available-genre-seeds/,
+    ttl: 7 * DAY,
+    staleFor: 30 * DAY,
+  },
+];
+
+export interface CacheEntry<T> {
+  key: string;
+  data: T;
+  storedAt: number;
+}
+
+export type CacheLookup<T> =
+  | { status: "fresh"; data: T }
+  | { status: "stale"; data: T }
+  | { status: "miss" };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null when IndexedDB is unavailable (e.g. some private modes),
+// in which case every lookup is a miss and writes are dropped
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSE_STORE)) {
+          db.createObjectStore(RESPONSE_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Spotify cache unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = operation(
+      db.transaction(storeName, mode).objectStore(storeName)
+    );
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => {
+      console.warn("Spotify cache request failed:", request.error);
+      resolve(undefined);
+    };
+  });
+};
+
+export const getCacheRule = (path: string): CacheRule | null =>
+  CACHE_RULES.find((rule) => rule.pattern.test(path)) ?? null;
+
+export const spotifyCache = {
+  lookup: async <T>(key: string, rule: CacheRule): Promise<CacheLookup<T>> => {
+    const entry = await runRequest<CacheEntry<T>>(
+      RESPONSE_STORE,
+      "readonly",
+      (store) => store.get(key)
+    );
+    if (!entry) return { status: "miss" };
+
+    const age = Date.now() - entry.storedAt;
+    if (age < rule.ttl) return { status: "fresh", data: entry.data };
+    if (age < rule.ttl + rule.staleFor) {
+      return { status: "stale", data: entry.data };
+    }
+    return { status: "miss" };
+  },
+
+  set: async <T>(key: string, data: T): Promise<void> => {
+    const entry: CacheEntry<T> = { key, data, storedAt: Date.now() };
+    await runRequest(RESPONSE_STORE, "readwrite", (store) => store.put(entry));
+  },
+
+  // Drop every entry whose key starts with the given path
+  invalidate: async (pathPrefix: string): Promise<void> => {
+    await runRequest(RESPONSE_STORE, "readwrite", (store) =>
+      store.delete(IDBKeyRange.bound(pathPrefix, `${pathPrefix}\uffff`))
+    );
+  },
+
+  clear: async (): Promise<void> => {
+    await runRequest(RESPONSE_STORE, "readwrite", (store) => store.clear());
+  },
+
+  // Wipe cached data when a different Spotify account signs in
+  setAccount: async (accountId: string): Promise<void> => {
+    const previous = await runRequest<string>(META_STORE, "readonly", (store) =>
+      store.get(ACCOUNT_KEY)
+    );
+    if (previous === accountId) return;
+
+    if (previous) {
+      console.log("Spotify account changed, clearing cache");
+    }
+    await spotifyCache.clear();
+    await runRequest(META_STORE, "readwrite", (store) =>
+      store.put(accountId, ACCOUNT_KEY)
+    );
+  },
+
+  // Forget both the data and the account it belonged to (logout)
+  reset: async (): Promise<void> => {
+    await spotifyCache.clear();
+    await runRequest(META_STORE, "readwrite", (store) => store.clear());
+  },
+};
@@ -0,0 +1,121 @@
+import axios from "axios";
+
+export type SpotifyApiErrorKind =
+  | "unauthorized" // Token missing, expired or revoked
+  | "insufficient_scope" // Token lacks a scope the endpoint needs
+  | "premium_required" // Endpoint only works for Premium accounts
+  | "deprecated_endpoint" // Endpoint Spotify no longer serves to this app
+  | "not_found"
+  | "rate_limited"
+  | "server_error"
+  | "network" // Request never got a response
+  | "unknown";
+
+// Endpoints Spotify withdrew from new apps in November 2024. They now
+// answer 403/404 instead of data, which is not the user's fault.
+const DEPRECATED_ENDPOINTS = [
+  "/recommendations",
+  "/audio-features",
+  "/audio-analysis",
+  "/related-artists",
+];
+
+// Shape of the error body returned by the Spotify Web API
+interface SpotifyErrorBody {
+  error?: {
+    status?: number;
+    message?: string;
+    reason?: string;
+  };
+}
+
+export class SpotifyApiError extends Error {
+  readonly kind: SpotifyApiErrorKind;
+  readonly status: number | null;
+  readonly endpoint: string;
+  // Message from the Spotify error body, when there was one
+  readonly spotifyMessage: string | null;
+  // Whether retrying the same request later can succeed
+  readonly retryable: boolean;
+
+  constructor(
+    kind: SpotifyApiErrorKind,
+    message: string,
+    details: {
+      status?: number | null;
+      endpoint?: string;
+      spotifyMessage?: string | null;
+    } = {}
+  ) {
+    super(message);
+    this.name = "SpotifyApiError";
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.endpoint = details.endpoint ?? "";
+    this.spotifyMessage = details.spotifyMessage ?? null;
+    this.retryable =
+      kind === "rate_limited" || kind === "server_error" || kind === "network";
+  }
+}
+
+const classify = (
+  status: number,
+  endpoint: string,
+  body: SpotifyErrorBody["error"]
+): SpotifyApiErrorKind => {
+  const message = body?.message?.toLowerCase() ?? "";
+  const isDeprecated = DEPRECATED_ENDPOINTS.some((path) =>
+    endpoint.includes(path)
+  );
+
+  if (status === 401) return "unauthorized";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+
+  if (status === 403) {
+    if (body?.reason === "PREMIUM_REQUIRED" || message.includes("premium")) {
+      return "premium_required";
+    }
+    if (message.includes("scope")) return "insufficient_scope";
+    if (isDeprecated) return "deprecated_endpoint";
+  }
+
+  if (status === 404) {
+    return isDeprecated ? "deprecated_endpoint" : "not_found";
+  }
+
+  return "unknown";
+};
+
+// Convert whatever a Spotify request threw into a SpotifyApiError
+export const toSpotifyApiError = (
+  error: unknown,
+  fallbackMessage: string
+): SpotifyApiError => {
+  if (error instanceof SpotifyApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError<SpotifyErrorBody>(error)) {
+    const endpoint = error.config?.url ?? "";
+
+    if (!error.response) {
+      return new SpotifyApiError("network", fallbackMessage, { endpoint });
+    }
+
+    const status = error.response.status;
+    const body = error.response.data?.error;
+
+    return new SpotifyApiError(
+      classify(status, endpoint, body),
+      fallbackMessage,
+      {
+        status,
+        endpoint,
+        spotifyMessage: body?.message ?? null,
+      }
+    );
+  }
+
+  return new SpotifyApiError("unknown", fallbackMessage);
+};
@@ -0,0 +1,65 @@
+import type { RankChange, RankingComparison } from "../types";
+
+// Compare two rankings of the same kind of item (e.g. long_term vs
+// short_term top tracks). Both lists are in rank order, best first.
+export const compareRankings = <T>(
+  previous: T[],
+  current: T[],
+  getId: (item: T) => string
+): RankingComparison<T> => {
+  const previousRanks = new Map<string, number>();
+  previous.forEach((item, index) => {
+    // Keep the best rank if an id somehow appears twice
+    if (!previousRanks.has(getId(item))) {
+      previousRanks.set(getId(item), index + 1);
+    }
+  });
+
+  const currentIds = new Set<string>();
+  const rising: RankChange<T>[] = [];
+  const falling: RankChange<T>[] = [];
+  const newEntries: RankChange<T>[] = [];
+  let unchanged = 0;
+
+  current.forEach((item, index) => {
+    const id = getId(item);
+    if (currentIds.has(id)) return;
+    currentIds.add(id);
+
+    const currentRank = index + 1;
+    const previousRank = previousRanks.get(id) ?? null;
+
+    if (previousRank === null) {
+      newEntries.push({ item, previousRank, currentRank, delta: 0 });
+      return;
+    }
+
+    const delta = previousRank - currentRank;
+    if (delta > 0) {
+      rising.push({ item, previousRank, currentRank, delta });
+    } else if (delta < 0) {
+      falling.push({ item, previousRank, currentRank, delta });
+    } else {
+      unchanged++;
+    }
+  });
+
+  const dropped: RankChange<T>[] = [];
+  previousRanks.forEach((previousRank, id) => {
+    if (currentIds.has(id)) return;
+    dropped.push({
+      item: previous[previousRank - 1],
+      previousRank,
+      currentRank: null,
+      delta: 0,
+    });
+  });
+
+  return {
+    rising: rising.sort((a, b) => b.delta - a.delta),
+    falling: falling.sort((a, b) => a.delta - b.delta),
+    newEntries,
+    dropped: dropped.sort((a, b) => a.previousRank! - b.previousRank!),
+    unchanged,
+  };
+};
@@ -42,29 +42,98 @@ export interface SpotifyAlbum {
   release_date: string;
 }
 
-export interface TopTracksResponse {
-  items: SpotifyTrack[];
+// Offset-based page returned by most Spotify list endpoints
+export interface SpotifyPaging<T> {
+  href: string;
+  items: T[];
   total: number;
   limit: number;
   offset: number;
+  next: string | null;
+  previous: string | null;
 }
 
-export interface RecentlyPlayedResponse {
-  items: {
-    track: SpotifyTrack;
-    played_at: string;
-  }[];
+// Cursor-based page (e.g. recently played)
+export interface SpotifyCursorPaging<T> {
+  href: string;
+  items: T[];
+  limit: number;
+  next: string | null;
+  cursors: {
+    after?: string;
+    before?: string;
+  } | null;
+}
+
+export type TopTracksResponse = SpotifyPaging<SpotifyTrack>;
+
+export type TopArtistsResponse = SpotifyPaging<SpotifyArtist>;
+
+// A genre's combined weight across a ranked list of artists
+export interface GenreWeight {
+  genre: string;
+  weight: number;
+  share: number; // Fraction of the total weight, 0-1
+  artists: string[]; // Names of the contributing artists, in rank order
+}
+
+export interface RecentlyPlayedItem {
+  track: SpotifyTrack;
+  played_at: string;
+}
+
+export type RecentlyPlayedResponse = SpotifyCursorPaging<RecentlyPlayedItem>;
+
+export interface SavedTrackItem {
+  added_at: string;
+  track: SpotifyTrack;
+}
+
+export interface PlaylistTrackItem {
+  added_at: string;
+  // Null for tracks that were removed from Spotify
+  track: SpotifyTrack | null;
 }
 
 export interface LeaderboardEntry {
   id: string;
+  user_id?: string;
   player_name: string;
+  avatar_url?: string | null;
   score: number;
   created_at: string;
   difficulty?: string;
   streak?: number;
   turns_completed?: number;
   accuracy?: number;
+  variant?: GotifyVariant;
+  daily_date?: string;
+}
+
+// Someone on the player's Friends board
+export interface Friend {
+  id: string;
+  display_name: string;
+  avatar_url: string | null;
+  // Followed on Spotify, or added with an invite code
+  source: "spotify" | "invite";
+}
+
+// Rating after a submitted Gotify game; change is null after the first one
+export interface GameRating {
+  value: number;
+  change: number | null;
+  provisional: boolean;
+}
+
+// A row of the Rated board
+export interface RatedPlayer {
+  id: string;
+  display_name: string;
+  avatar_url: string | null;
+  rating: number;
+  rating_deviation: number;
+  rated_games: number;
 }
 
 export interface LeaderboardResponse {
@@ -81,6 +150,9 @@ export interface GameState {
   timeRemaining: number;
 }
 
+// What a Gotify round asks the player to name
+export type GotifyVariant = "song" | "artist" | "year" | "album";
+
 export interface GameScore {
   playerName: string;
   score: number;
@@ -91,11 +163,12 @@ export interface AuthContextType {
   isAuthenticated: boolean;
   accessToken: string | null;
   user: SpotifyUser | null;
-  login: () => void;
+  scopes: string[];
+  login: () => Promise<void>;
   logout: () => void;
   setToken: (token: string) => void;
   loading: boolean;
-  handleCallback: (code: string) => Promise<void>;
+  handleCallback: (code: string, state: string | null) => Promise<void>;
 }
 
 export interface AuthState {
@@ -107,6 +180,32 @@ export interface AuthState {
 
 export type TimeRange = "short_term" | "medium_term" | "long_term";
 
+export interface TopSongsStats {
+  totalTracks: number;
+  uniqueArtists: number;
+  topGenres: string[];
+  averagePopularity: number;
+  mostPopularTrack: SpotifyTrack | null;
+  leastPopularTrack: SpotifyTrack | null;
+}
+
+// An item's movement between two rankings. Ranks are 1-based; null means
+// absent from that ranking. Positive delta = moved up.
+export interface RankChange<T> {
+  item: T;
+  previousRank: number | null;
+  currentRank: number | null;
+  delta: number;
+}
+
+export interface RankingComparison<T> {
+  rising: RankChange<T>[];
+  falling: RankChange<T>[];
+  newEntries: RankChange<T>[];
+  dropped: RankChange<T>[];
+  unchanged: number;
+}
+
 export interface SpotifyPlaylist {
   id: string;
   name: string;
@@ -121,6 +220,17 @@ export interface SpotifyPlaylist {
   };
 }
 
+export interface AudioFeaturesResponse {
+  audio_features: Array<{
+    id: string;
+    acousticness: number;
+    danceability: number;
+    energy: number;
+    valence: number;
+    tempo: number;
+  }>;
+}
+
 export interface RecommendationsResponse {
   tracks: SpotifyTrack[];
   seeds: {